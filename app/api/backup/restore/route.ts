@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BackupError,
+  CONFLICT_STRATEGIES,
+  readBackupArchive,
+  restoreBackupRecipe,
+  type ConflictStrategy,
+  type RestoreResult,
+} from '@/lib/backup';
+
+// POST /api/backup/restore - Restore recipes from a backup archive
+// Expects multipart form data with the archive in "file" and optionally
+// "conflict" (skip, overwrite or duplicate; default skip) for recipes that
+// already exist with the same id or source URL. Returns a summary count per
+// status and one result per recipe
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const conflict = formData.get('conflict') ?? 'skip';
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(CONFLICT_STRATEGIES as readonly unknown[]).includes(conflict)) {
+      return NextResponse.json(
+        { error: `conflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { recipes, files } = readBackupArchive(new Uint8Array(await file.arrayBuffer()));
+    const results: RestoreResult[] = [];
+
+    for (const entry of recipes) {
+      if (!entry.recipe) {
+        results.push({ title: entry.fileName, status: 'failed', error: entry.error });
+        continue;
+      }
+
+      try {
+        results.push(await restoreBackupRecipe(entry.recipe, files, conflict as ConflictStrategy));
+      } catch (error) {
+        console.error(`Error restoring ${entry.recipe.title}:`, error);
+        results.push({
+          title: entry.recipe.title,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to restore recipe',
+        });
+      }
+    }
+
+    const summary = Object.fromEntries(
+      (['created', 'overwritten', 'duplicated', 'skipped', 'failed'] as const).map((status) => [
+        status,
+        results.filter((result) => result.status === status).length,
+      ])
+    );
+
+    return NextResponse.json({ ...summary, results });
+  } catch (error) {
+    if (error instanceof BackupError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error restoring backup:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createBackupStream } from '@/lib/backup';
+
+// GET /api/backup - Download every recipe and its images as a zip archive
+// Restore it with POST /api/backup/restore
+export async function GET() {
+  try {
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(createBackupStream(), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="recipe-book-backup-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    return NextResponse.json(
+      { error: 'Failed to create backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { MAX_CAPTURE_HTML_LENGTH, captureRecipe, findCaptureUrl } from '@/lib/recipe-capture';
+
+// Generating a recipe can take a minute when it falls back to the AI
+export const maxDuration = 300;
+
+// POST /api/capture - Save a recipe from another site into the library
+// Accepts form data (the share target and bookmarklet) or JSON with url, text,
+// title and optionally html, the page as the user's browser rendered it.
+// The recipe is generated in the background: form posts are redirected to a
+// confirmation page, JSON requests get 202 { status: 'queued', url }
+export async function POST(request: NextRequest) {
+  const isForm = !(request.headers.get('content-type') ?? '').includes('application/json');
+
+  try {
+    const fields = isForm
+      ? Object.fromEntries((await request.formData()).entries())
+      : await request.json();
+    const url = findCaptureUrl(fields);
+
+    if (!url) {
+      if (isForm) {
+        return NextResponse.redirect(new URL('/captured?error=no-url', request.url), 303);
+      }
+      return NextResponse.json(
+        { error: 'No recipe URL found in the shared data' },
+        { status: 400 }
+      );
+    }
+
+    const html = typeof fields.html === 'string' && fields.html.length <= MAX_CAPTURE_HTML_LENGTH
+      ? fields.html
+      : undefined;
+
+    after(async () => {
+      try {
+        await captureRecipe(url, html);
+      } catch (error) {
+        console.error(`Error capturing recipe from ${url}:`, error);
+      }
+    });
+
+    if (isForm) {
+      return NextResponse.redirect(new URL(`/captured?url=${encodeURIComponent(url)}`, request.url), 303);
+    }
+    return NextResponse.json({ status: 'queued', url }, { status: 202 });
+  } catch (error) {
+    console.error('Error capturing recipe:', error);
+    if (isForm) {
+      return NextResponse.redirect(new URL('/captured?error=failed', request.url), 303);
+    }
+    return NextResponse.json(
+      { error: 'Failed to capture recipe' },
+      { status: 500 }
+    );
+  }
+}
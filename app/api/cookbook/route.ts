@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { recipeInclude } from '@/lib/recipe-store';
+import { renderCookbookPdf } from '@/lib/cookbook-pdf';
+
+const MAX_COOKBOOK_RECIPES = 200;
+
+// POST /api/cookbook - Render recipes into a PDF cookbook
+// Body: { recipeIds: string[], title?: string, includeImages?: boolean }
+// Recipes appear in the order given
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { recipeIds, title, includeImages } = body;
+
+    if (!Array.isArray(recipeIds) || recipeIds.length === 0 || !recipeIds.every((id) => typeof id === 'string')) {
+      return NextResponse.json(
+        { error: 'recipeIds must be a non-empty array of recipe ids' },
+        { status: 400 }
+      );
+    }
+
+    if (recipeIds.length > MAX_COOKBOOK_RECIPES) {
+      return NextResponse.json(
+        { error: `A cookbook can have at most ${MAX_COOKBOOK_RECIPES} recipes` },
+        { status: 400 }
+      );
+    }
+
+    const found = await prisma.recipe.findMany({
+      where: { id: { in: recipeIds } },
+      include: recipeInclude,
+    });
+    const recipes = recipeIds
+      .map((id: string) => found.find((recipe) => recipe.id === id))
+      .filter((recipe): recipe is (typeof found)[number] => recipe !== undefined);
+
+    if (recipes.length === 0) {
+      return NextResponse.json({ error: 'No recipes found' }, { status: 404 });
+    }
+
+    const pdf = await renderCookbookPdf(recipes, {
+      title: typeof title === 'string' && title.trim() ? title.trim() : 'My Recipe Book',
+      includeImages: includeImages !== false,
+    });
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="cookbook.pdf"',
+      },
+    });
+  } catch (error) {
+    console.error('Error creating cookbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create cookbook' },
+      { status: 500 }
+    );
+  }
+}
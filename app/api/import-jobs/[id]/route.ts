@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getImportJob, isImportJobStalled, runImportJob } from '@/lib/import-jobs';
+
+// Polling may resume the job, see lib/import-jobs.ts
+export const maxDuration = 300;
+
+// GET /api/import-jobs/[id] - Get a job with the state of each URL
+// Resumes the job in the background when its previous run has stopped
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getImportJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isImportJobStalled(job)) {
+      after(() => runImportJob(job.id).catch((error) => {
+        console.error(`Error resuming import job ${job.id}:`, error);
+      }));
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import job' },
+      { status: 500 }
+    );
+  }
+}
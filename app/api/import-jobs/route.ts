@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ImportJobError, createImportJob, parseImportUrls, runImportJob } from '@/lib/import-jobs';
+
+// A run imports URLs for a few minutes, see lib/import-jobs.ts
+export const maxDuration = 300;
+
+// POST /api/import-jobs - Import a list of recipe URLs in the background
+// Body: { urls } as an array or as text with one URL per line.
+// Returns 202 with the job; poll GET /api/import-jobs/[id] for progress
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const urls = parseImportUrls(body.urls);
+
+    const job = await createImportJob(urls);
+    after(() => runImportJob(job.id).catch((error) => {
+      console.error(`Error running import job ${job.id}:`, error);
+    }));
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    if (error instanceof ImportJobError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error creating import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to create import job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { GROCERY_CATEGORIES, canonicalIngredientName } from '@/lib/grocery-categories';
+
+// GET /api/ingredient-categories - Get the available categories and user-defined mappings
+export async function GET() {
+  try {
+    const mappings = await prisma.ingredientCategory.findMany({
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    return NextResponse.json({ categories: GROCERY_CATEGORIES, mappings });
+  } catch (error) {
+    console.error('Error fetching ingredient categories:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ingredient categories' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/ingredient-categories - Set the category for an ingredient
+// Body: { name, category }. The name is reduced to its canonical form so the
+// mapping applies to "Onions", "large onion", etc. alike
+export async function PUT(request: NextRequest) {
+  try {
+    const { name, category } = await request.json();
+
+    const canonical = typeof name === 'string' ? canonicalIngredientName(name) : '';
+    if (!canonical) {
+      return NextResponse.json(
+        { error: 'Ingredient name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof category !== 'string' || !(GROCERY_CATEGORIES as readonly string[]).includes(category)) {
+      return NextResponse.json(
+        { error: `Category must be one of: ${GROCERY_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const mapping = await prisma.ingredientCategory.upsert({
+      where: { name: canonical },
+      create: { name: canonical, category },
+      update: { category },
+    });
+
+    return NextResponse.json(mapping);
+  } catch (error) {
+    console.error('Error updating ingredient category:', error);
+    return NextResponse.json(
+      { error: 'Failed to update ingredient category' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/ingredient-categories?name=... - Revert an ingredient to its default category
+export async function DELETE(request: NextRequest) {
+  try {
+    const name = request.nextUrl.searchParams.get('name');
+    const canonical = name ? canonicalIngredientName(name) : '';
+    if (!canonical) {
+      return NextResponse.json(
+        { error: 'Ingredient name is required' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.ingredientCategory.deleteMany({
+      where: { name: canonical },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting ingredient category:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete ingredient category' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { adjustIngredients } from '@/lib/gemini';
+import { adjustServings } from '@/lib/serving-adjustment';
 
 export async function POST(
   request: NextRequest,
@@ -10,10 +10,21 @@ export async function POST(
     const { id } = await params;
     const { newServings } = await request.json();
 
+    if (typeof newServings !== 'number' || !Number.isFinite(newServings) || newServings <= 0) {
+      return NextResponse.json(
+        { error: 'newServings must be a positive number' },
+        { status: 400 }
+      );
+    }
+
     const recipe = await prisma.recipe.findUnique({
       where: { id },
       include: {
-        ingredients: true,
+        ingredients: {
+          orderBy: {
+            position: 'asc',
+          },
+        },
       },
     });
 
@@ -21,15 +32,18 @@ export async function POST(
       return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
     }
 
-    const adjustedIngredients = await adjustIngredients(
-      recipe.ingredients,
-      recipe.servings,
-      newServings
+    const scaled = await adjustServings(recipe.ingredients, recipe.servings, newServings);
+    const scaling: Array<{ name: string; method: 'deterministic' | 'unchanged' | 'ai' }> = scaled.map(
+      ({ ingredient, method }) => ({
+        name: ingredient.name,
+        method: method === 'unparsed' ? 'unchanged' : method,
+      })
     );
 
     return NextResponse.json({
-      ingredients: adjustedIngredients,
+      ingredients: scaled.map(({ ingredient }) => ingredient),
       servings: newServings,
+      scaling,
     });
   } catch (error) {
     console.error('Error adjusting servings:', error);
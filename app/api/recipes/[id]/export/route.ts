@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { recipeInclude } from '@/lib/recipe-store';
+import { recipeToJsonLd } from '@/lib/recipe-jsonld';
+import { recipeToCooklang } from '@/lib/cooklang';
+import { recipeToMarkdown } from '@/lib/recipe-markdown';
+
+const EXPORT_FORMATS = ['jsonld', 'cooklang', 'markdown'] as const;
+
+/**
+ * File name for a downloaded recipe, e.g. "chocolate-chip-cookies.jsonld"
+ */
+function exportFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'recipe'}.${extension}`;
+}
+
+// GET /api/recipes/[id]/export - Download a recipe
+// ?format=jsonld returns a schema.org Recipe, ?format=cooklang a .cook file,
+// ?format=markdown a Markdown note
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') ?? 'jsonld';
+
+    if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id },
+      include: recipeInclude,
+    });
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    if (format === 'cooklang') {
+      return new NextResponse(recipeToCooklang(recipe), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFileName(recipe.title, 'cook')}"`,
+        },
+      });
+    }
+
+    if (format === 'markdown') {
+      return new NextResponse(recipeToMarkdown(recipe), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFileName(recipe.title, 'md')}"`,
+        },
+      });
+    }
+
+    const jsonLd = recipeToJsonLd(recipe, new URL(`/recipes/${recipe.id}`, request.nextUrl.origin).toString());
+
+    return new NextResponse(JSON.stringify(jsonLd, null, 2), {
+      headers: {
+        'Content-Type': 'application/ld+json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFileName(recipe.title, 'jsonld')}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting recipe:', error);
+    return NextResponse.json(
+      { error: 'Failed to export recipe' },
+      { status: 500 }
+    );
+  }
+}
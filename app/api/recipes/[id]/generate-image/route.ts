@@ -14,7 +14,11 @@ export async function POST(
     const recipe = await prisma.recipe.findUnique({
       where: { id },
       include: {
-        ingredients: true,
+        ingredients: {
+          orderBy: {
+            position: 'asc',
+          },
+        },
       },
     });
 
@@ -45,12 +49,22 @@ export async function POST(
         imageUrls: [...recipe.imageUrls, imageUrl],
       },
       include: {
-        ingredients: true,
+        ingredients: {
+          orderBy: {
+            position: 'asc',
+          },
+        },
         instructions: {
           orderBy: {
             step: 'asc',
           },
         },
+        tags: {
+          orderBy: {
+            name: 'asc',
+          },
+        },
+        nutrition: true,
       },
     });
 
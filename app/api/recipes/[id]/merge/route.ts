@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecipeMergeError, mergeRecipes } from '@/lib/recipe-duplicates';
+
+// POST /api/recipes/[id]/merge - Merge a duplicate into this recipe
+// Body: { duplicateId }. The duplicate's notes, images and source URLs are
+// added to this recipe and the duplicate is deleted; returns the merged recipe
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { duplicateId } = await request.json();
+
+    if (typeof duplicateId !== 'string' || !duplicateId) {
+      return NextResponse.json(
+        { error: 'duplicateId is required' },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await mergeRecipes(id, duplicateId);
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(recipe);
+  } catch (error) {
+    if (error instanceof RecipeMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error merging recipes:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge recipes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recipeInclude } from '@/lib/recipe-store';
+
+// POST /api/recipes/[id]/review - Mark a generated recipe as reviewed
+// Only sets reviewedAt on its provenance; returns the updated recipe
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id },
+      select: { provenance: true },
+    });
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const provenance = recipe.provenance;
+    if (!provenance || typeof provenance !== 'object' || Array.isArray(provenance)) {
+      return NextResponse.json(
+        { error: 'Only generated recipes can be marked as reviewed' },
+        { status: 400 }
+      );
+    }
+
+    const updatedRecipe = await prisma.recipe.update({
+      where: { id },
+      data: {
+        provenance: { ...provenance, reviewedAt: new Date().toISOString() } satisfies Prisma.InputJsonObject,
+      },
+      include: recipeInclude,
+    });
+
+    return NextResponse.json(updatedRecipe);
+  } catch (error) {
+    console.error('Error marking recipe as reviewed:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark recipe as reviewed' },
+      { status: 500 }
+    );
+  }
+}
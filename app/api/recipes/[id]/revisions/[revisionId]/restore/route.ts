@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { snapshotToInput, updateRecipeWithRevision } from '@/lib/recipe-revisions';
+import type { RecipeSnapshot } from '@/types';
+
+// POST /api/recipes/[id]/revisions/[revisionId]/restore - Put a recipe back the
+// way it was in a revision. The version being replaced becomes a revision itself,
+// so a restore can be undone too
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const revision = await prisma.recipeRevision.findFirst({
+      where: { id: revisionId, recipeId: id },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const snapshot = revision.snapshot as unknown as RecipeSnapshot;
+    const recipe = await updateRecipeWithRevision(id, snapshotToInput(snapshot), 'restore');
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(recipe);
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    );
+  }
+}
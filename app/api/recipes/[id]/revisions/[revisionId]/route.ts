@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRevisionDiff } from '@/lib/recipe-revisions';
+
+// GET /api/recipes/[id]/revisions/[revisionId] - Get a revision with the
+// field-level changes made by the save that replaced it
+// Returns { revision, changes: [{ field, before, after }] }
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const result = await getRevisionDiff(id, revisionId);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/recipes/[id]/revisions - List a recipe's revisions, newest first
+// Snapshots are left out; fetch a single revision to see them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const recipe = await prisma.recipe.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const revisions = await prisma.recipeRevision.findMany({
+      where: { recipeId: id },
+      select: {
+        id: true,
+        recipeId: true,
+        changedFields: true,
+        source: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { convertIngredients, convertTemperatures } from '@/lib/unit-conversion';
+import { updateRecipeWithRevision } from '@/lib/recipe-revisions';
+import { readProvenanceToken } from '@/lib/provenance-token';
 import { RecipeInput } from '@/types';
 
 // GET /api/recipes/[id] - Get a single recipe
+// Optional ?units=metric|us converts ingredient quantities and oven temperatures
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const unitsParam = request.nextUrl.searchParams.get('units');
+    const units = unitsParam === 'metric' || unitsParam === 'us' ? unitsParam : null;
+
+    if (unitsParam && !units) {
+      return NextResponse.json(
+        { error: 'units must be "metric" or "us"' },
+        { status: 400 }
+      );
+    }
+
     const recipe = await prisma.recipe.findUnique({
       where: { id },
       include: {
-        ingredients: true,
+        ingredients: {
+          orderBy: {
+            position: 'asc',
+          },
+        },
         instructions: {
           orderBy: {
             step: 'asc',
           },
         },
+        tags: {
+          orderBy: {
+            name: 'asc',
+          },
+        },
+        nutrition: true,
       },
     });
 
@@ -25,6 +49,19 @@ export async function GET(
       return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
     }
 
+    if (units) {
+      const converted = convertIngredients(recipe.ingredients, units);
+      return NextResponse.json({
+        ...recipe,
+        ingredients: recipe.ingredients.map((ing, i) => ({ ...ing, ...converted[i] })),
+        instructions: recipe.instructions.map((inst) => ({
+          ...inst,
+          text: convertTemperatures(inst.text, units),
+        })),
+        units,
+      });
+    }
+
     return NextResponse.json(recipe);
   } catch (error) {
     console.error('Error fetching recipe:', error);
@@ -36,54 +73,26 @@ export async function GET(
 }
 
 // PUT /api/recipes/[id] - Update a recipe
+// The previous version is kept as a revision, see /api/recipes/[id]/revisions
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const body: RecipeInput = await request.json();
+    const { provenanceToken, ...body }: RecipeInput & { provenanceToken?: string } =
+      await request.json();
 
-    // Delete existing ingredients and instructions
-    await prisma.ingredient.deleteMany({
-      where: { recipeId: id },
-    });
-    await prisma.instruction.deleteMany({
-      where: { recipeId: id },
-    });
+    // Provenance is replaced only by a refresh that brings a signed one
+    const recipe = await updateRecipeWithRevision(
+      id,
+      { ...body, provenance: readProvenanceToken(provenanceToken) ?? undefined },
+      'edit'
+    );
 
-    // Update recipe with new data
-    const recipe = await prisma.recipe.update({
-      where: { id },
-      data: {
-        title: body.title,
-        description: body.description || null,
-        servings: body.servings,
-        notes: body.notes || null,
-        sourceUrl: body.sourceUrl || null,
-        imageUrls: body.imageUrls || [],
-        ingredients: {
-          create: body.ingredients.map((ing) => ({
-            name: ing.name,
-            quantity: ing.quantity,
-          })),
-        },
-        instructions: {
-          create: body.instructions.map((text, index) => ({
-            step: index + 1,
-            text,
-          })),
-        },
-      },
-      include: {
-        ingredients: true,
-        instructions: {
-          orderBy: {
-            step: 'asc',
-          },
-        },
-      },
-    });
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
 
     return NextResponse.json(recipe);
   } catch (error) {
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { findDuplicateClusters } from '@/lib/recipe-duplicates';
+
+// GET /api/recipes/duplicates - List groups of recipes that look like the same dish
+// Returns { clusters: [{ score, recipes: [{ id, title, sourceUrl, imageUrl, createdAt }] }] }
+export async function GET() {
+  try {
+    const clusters = await findDuplicateClusters();
+    return NextResponse.json({ clusters });
+  } catch (error) {
+    console.error('Error finding duplicate recipes:', error);
+    return NextResponse.json(
+      { error: 'Failed to find duplicate recipes' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,39 +5,91 @@ import {
   generateRecipeFromUrl,
   generateRecipeFromImage,
 } from '@/lib/gemini';
+import { normalizeUrl } from '@/lib/extraction-utils';
+import { findRecipeBySourceUrl } from '@/lib/recipe-store';
+import { signProvenance } from '@/lib/provenance-token';
+import { createGenerationStream, type GenerationProgress } from '@/lib/generation-progress';
+import type { GenerationEvent } from '@/types';
 
+type GenerationOutcome = Extract<GenerationEvent, { type: 'result' | 'error' }>;
+
+/**
+ * Generate a recipe from a request body
+ * @returns A "result" event, or an "error" event for requests that cannot be generated
+ */
+async function generate(body: any, progress?: GenerationProgress): Promise<GenerationOutcome> {
+  const { type, content } = body;
+
+  let recipeData;
+
+  switch (type) {
+    case 'text':
+      recipeData = await structureTextToRecipe(content, progress);
+      break;
+    case 'url': {
+      const sourceUrl = normalizeUrl(content);
+      const refresh = body.refresh === true;
+
+      if (!refresh) {
+        const existingRecipe = await findRecipeBySourceUrl(sourceUrl);
+        if (existingRecipe) {
+          return { type: 'error', error: 'This recipe is already in your recipe book', existingRecipe };
+        }
+      }
+
+      if (sourceUrl.includes('youtube.com') || sourceUrl.includes('youtu.be')) {
+        recipeData = await generateRecipeFromYoutubeUrl(sourceUrl, { progress });
+      } else {
+        recipeData = await generateRecipeFromUrl(sourceUrl, { refresh, progress });
+      }
+      // Add sourceUrl to the recipe data when extracted from a URL
+      recipeData = { ...recipeData, sourceUrl };
+      break;
+    }
+    case 'image':
+      const { mimeType, base64Image } = body;
+      recipeData = await generateRecipeFromImage(mimeType, base64Image, { progress });
+      break;
+    default:
+      return { type: 'error', error: 'Invalid generation type' };
+  }
+
+  // Provenance goes back signed, so it is saved only as the server wrote it
+  const { provenance, ...recipe } = recipeData;
+  return {
+    type: 'result',
+    recipe: provenance ? { ...recipe, provenanceToken: signProvenance(provenance) } : recipe,
+  };
+}
+
+// POST /api/recipes/generate - Generate a recipe from text, an image or a URL
+// For URLs, responds 409 with { error, existingRecipe: { id, title } } when the
+// page is already in the library, unless refresh is true: the page is then read
+// again, skipping the extraction cache, so the client can update that recipe.
+// With "Accept: text/event-stream" the response is a stream of GenerationEvents
+// instead, ending with a "result" or "error" event; closing the stream stops
+// the generation.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { type, content } = body;
-
-    let recipeData;
-
-    switch (type) {
-      case 'text':
-        recipeData = await structureTextToRecipe(content);
-        break;
-      case 'url':
-        if (content.includes('youtube.com') || content.includes('youtu.be')) {
-          recipeData = await generateRecipeFromYoutubeUrl(content);
-        } else {
-          recipeData = await generateRecipeFromUrl(content);
-        }
-        // Add sourceUrl to the recipe data when extracted from a URL
-        recipeData = { ...recipeData, sourceUrl: content };
-        break;
-      case 'image':
-        const { mimeType, base64Image } = body;
-        recipeData = await generateRecipeFromImage(mimeType, base64Image);
-        break;
-      default:
-        return NextResponse.json(
-          { error: 'Invalid generation type' },
-          { status: 400 }
-        );
+
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return new Response(createGenerationStream((progress) => generate(body, progress), request.signal), {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
+    const outcome = await generate(body);
+    if (outcome.type === 'error') {
+      const { error, existingRecipe } = outcome;
+      return NextResponse.json({ error, existingRecipe }, { status: existingRecipe ? 409 : 400 });
     }
 
-    return NextResponse.json(recipeData);
+    return NextResponse.json(outcome.recipe);
   } catch (error) {
     console.error('Error generating recipe:', error);
     return NextResponse.json(
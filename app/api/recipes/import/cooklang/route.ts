@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cooklangToRecipeData, parseCooklang } from '@/lib/cooklang';
+import { importRecipeFiles } from '@/lib/recipe-file-import';
+
+// POST /api/recipes/import/cooklang - Import one or more .cook files
+// Expects multipart form data with the files in "file". Each file is imported
+// on its own; returns { imported, failed, results } with one result per file
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('file').filter((file): file is File => file instanceof File);
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await importRecipeFiles(
+      files,
+      (text, fileName) => cooklangToRecipeData(parseCooklang(text), fileName),
+      /\.cook$/i
+    ));
+  } catch (error) {
+    console.error('Error importing Cooklang files:', error);
+    return NextResponse.json(
+      { error: 'Failed to import Cooklang files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadBase64Image } from '@/lib/blob';
+import { PaprikaImportError, paprikaPhotos, paprikaToRecipeData, readPaprikaArchive } from '@/lib/paprika';
+import { sanitizeRecipeData, validateRecipeData } from '@/lib/recipe-validation';
+import { createRecipe } from '@/lib/recipe-store';
+
+interface ImportResult {
+  name: string;
+  status: 'imported' | 'failed';
+  recipeId?: string;
+  error?: string;
+  /** Problems that did not stop the recipe from being imported */
+  warning?: string;
+}
+
+// POST /api/recipes/import/paprika - Import a .paprikarecipes archive
+// Expects multipart form data with the archive in "file". Each recipe is
+// imported on its own; returns { imported, failed, results } with one result per recipe
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      );
+    }
+
+    const entries = readPaprikaArchive(new Uint8Array(await file.arrayBuffer()));
+    const results: ImportResult[] = [];
+
+    for (const entry of entries) {
+      const name = entry.recipe?.name || entry.fileName.replace(/\.paprikarecipe$/i, '');
+
+      if (!entry.recipe) {
+        results.push({ name, status: 'failed', error: entry.error });
+        continue;
+      }
+
+      try {
+        const { notes, ...recipeData } = paprikaToRecipeData(entry.recipe);
+        const validated = validateRecipeData(sanitizeRecipeData(recipeData));
+
+        // Photos are uploaded only once the recipe is known to be valid
+        const imageUrls: string[] = [];
+        let warning: string | undefined;
+        const photos = paprikaPhotos(entry.recipe);
+        for (const [index, photo] of photos.entries()) {
+          try {
+            const fileName = `recipe-${entry.recipe.uid || Date.now()}-${index}.jpg`;
+            imageUrls.push(await uploadBase64Image(photo, fileName, 'image/jpeg'));
+          } catch (error) {
+            console.error(`Error uploading photo for ${name}:`, error);
+            warning = 'Some photos could not be uploaded';
+          }
+        }
+
+        const recipe = await createRecipe({
+          ...validated,
+          notes,
+          imageUrls: [...imageUrls, ...validated.imageUrls],
+        });
+
+        results.push({ name, status: 'imported', recipeId: recipe.id, warning });
+      } catch (error) {
+        console.error(`Error importing ${name}:`, error);
+        results.push({
+          name,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to import recipe',
+        });
+      }
+    }
+
+    return NextResponse.json({
+      imported: results.filter((result) => result.status === 'imported').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof PaprikaImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error importing Paprika archive:', error);
+    return NextResponse.json(
+      { error: 'Failed to import Paprika archive' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { RecipeSearchError, parseRecipeSearchParams, searchRecipes } from '@/lib/recipe-search';
+import { createRecipe } from '@/lib/recipe-store';
+import { readProvenanceToken } from '@/lib/provenance-token';
+import { findSimilarRecipes } from '@/lib/recipe-duplicates';
 import { RecipeInput } from '@/types';
 
-// GET /api/recipes - Get all recipes
-export async function GET() {
+// GET /api/recipes - Search recipes
+// Query parameters: q (full-text search), include / exclude (ingredient names,
+// repeated or comma-separated), tag (tag names), maxTime (total minutes), sort (relevance, newest, oldest, updated, title),
+// cursor and limit. Returns { recipes, nextCursor }
+export async function GET(request: NextRequest) {
   try {
-    const recipes = await prisma.recipe.findMany({
-      include: {
-        ingredients: true,
-        instructions: {
-          orderBy: {
-            step: 'asc',
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    const options = parseRecipeSearchParams(request.nextUrl.searchParams);
+    const result = await searchRecipes(options);
 
-    return NextResponse.json(recipes);
+    return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof RecipeSearchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('Error fetching recipes:', error);
     return NextResponse.json(
       { error: 'Failed to fetch recipes' },
@@ -30,40 +29,26 @@ export async function GET() {
 }
 
 // POST /api/recipes - Create a new recipe
+// Responds 409 with { error, duplicates: [{ id, title, score }] } when the
+// library has recipes for what looks like the same dish, unless ignoreDuplicates is true
 export async function POST(request: NextRequest) {
   try {
-    const body: RecipeInput = await request.json();
+    const { ignoreDuplicates, provenanceToken, ...body }: RecipeInput & {
+      ignoreDuplicates?: boolean;
+      provenanceToken?: string;
+    } = await request.json();
+
+    if (!ignoreDuplicates) {
+      const duplicates = await findSimilarRecipes({ title: body.title ?? '', ingredients: body.ingredients ?? [] });
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: 'Similar recipes are already in your recipe book', duplicates },
+          { status: 409 }
+        );
+      }
+    }
 
-    const recipe = await prisma.recipe.create({
-      data: {
-        title: body.title,
-        description: body.description || null,
-        servings: body.servings,
-        notes: body.notes || null,
-        sourceUrl: body.sourceUrl || null,
-        imageUrls: body.imageUrls || [],
-        ingredients: {
-          create: body.ingredients.map((ing) => ({
-            name: ing.name,
-            quantity: ing.quantity,
-          })),
-        },
-        instructions: {
-          create: body.instructions.map((text, index) => ({
-            step: index + 1,
-            text,
-          })),
-        },
-      },
-      include: {
-        ingredients: true,
-        instructions: {
-          orderBy: {
-            step: 'asc',
-          },
-        },
-      },
-    });
+    const recipe = await createRecipe({ ...body, provenance: readProvenanceToken(provenanceToken) });
 
     return NextResponse.json(recipe, { status: 201 });
   } catch (error) {
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseQuantity } from '@/lib/ingredient-parser';
+
+// PATCH /api/shopping-lists/[id]/items/[itemId] - Check/uncheck or edit an item
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+    const body = await request.json();
+
+    const data: { checked?: boolean; name?: string; quantity?: string; amount?: number | null; amountMax?: number | null; unit?: string | null } = {};
+    if (typeof body.checked === 'boolean') {
+      data.checked = body.checked;
+    }
+    if (typeof body.name === 'string' && body.name.trim()) {
+      data.name = body.name.trim();
+    }
+    if (typeof body.quantity === 'string') {
+      const { amount, amountMax, unit } = parseQuantity(body.quantity);
+      data.quantity = body.quantity.trim();
+      data.amount = amount;
+      data.amountMax = amountMax;
+      data.unit = unit;
+    }
+
+    const result = await prisma.shoppingListItem.updateMany({
+      where: { id: itemId, shoppingListId: id },
+      data,
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const item = await prisma.shoppingListItem.findUnique({ where: { id: itemId } });
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error('Error updating shopping list item:', error);
+    return NextResponse.json(
+      { error: 'Failed to update shopping list item' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/shopping-lists/[id]/items/[itemId] - Remove a single item
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+    const result = await prisma.shoppingListItem.deleteMany({
+      where: { id: itemId, shoppingListId: id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting shopping list item:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete shopping list item' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseQuantity } from '@/lib/ingredient-parser';
+import { adjustServings } from '@/lib/serving-adjustment';
+
+// POST /api/shopping-lists/[id]/items - Add items to a shopping list
+// Body is either { recipeId, servings } to add a recipe's ingredients scaled to
+// the given servings (lines the local scaler cannot read are scaled by the AI),
+// or { name, quantity } to add a single manual item
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const list = await prisma.shoppingList.findUnique({ where: { id } });
+    if (!list) {
+      return NextResponse.json({ error: 'Shopping list not found' }, { status: 404 });
+    }
+
+    let items: Array<{
+      name: string;
+      quantity: string;
+      amount: number | null;
+      amountMax: number | null;
+      unit: string | null;
+      recipeId: string | null;
+      recipeTitle: string | null;
+    }>;
+
+    if (body.recipeId) {
+      const recipe = await prisma.recipe.findUnique({
+        where: { id: body.recipeId },
+        include: {
+          ingredients: {
+            orderBy: {
+              position: 'asc',
+            },
+          },
+        },
+      });
+
+      if (!recipe) {
+        return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+      }
+
+      const servings = typeof body.servings === 'number' && body.servings > 0
+        ? body.servings
+        : recipe.servings;
+
+      items = (await adjustServings(recipe.ingredients, recipe.servings, servings)).map(({ ingredient }) => ({
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        amount: ingredient.amount,
+        amountMax: ingredient.amountMax,
+        unit: ingredient.unit,
+        recipeId: recipe.id,
+        recipeTitle: recipe.title,
+      }));
+    } else {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json(
+          { error: 'Either recipeId or name is required' },
+          { status: 400 }
+        );
+      }
+
+      const quantity = typeof body.quantity === 'string' ? body.quantity.trim() : '';
+      const { amount, amountMax, unit } = parseQuantity(quantity);
+      items = [{ name, quantity, amount, amountMax, unit, recipeId: null, recipeTitle: null }];
+    }
+
+    const created = await prisma.shoppingListItem.createManyAndReturn({
+      data: items.map((item) => ({ ...item, shoppingListId: id })),
+    });
+
+    return NextResponse.json({ items: created }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding shopping list items:', error);
+    return NextResponse.json(
+      { error: 'Failed to add items to shopping list' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/shopping-lists/[id]/items - Check or uncheck several items at once
+// Body: { itemIds, checked }. Used when a merged line stands for items from
+// several recipes
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { itemIds, checked } = await request.json();
+
+    if (!Array.isArray(itemIds) || itemIds.some((itemId) => typeof itemId !== 'string') || typeof checked !== 'boolean') {
+      return NextResponse.json(
+        { error: 'itemIds (string[]) and checked (boolean) are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.shoppingListItem.updateMany({
+      where: {
+        shoppingListId: id,
+        id: { in: itemIds },
+      },
+      data: { checked },
+    });
+
+    return NextResponse.json({ success: true, count: result.count });
+  } catch (error) {
+    console.error('Error updating shopping list items:', error);
+    return NextResponse.json(
+      { error: 'Failed to update shopping list items' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/shopping-lists/[id]/items - Clear items from a shopping list
+// ?checked=true only removes items that have been checked off
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const checkedOnly = request.nextUrl.searchParams.get('checked') === 'true';
+
+    const result = await prisma.shoppingListItem.deleteMany({
+      where: {
+        shoppingListId: id,
+        ...(checkedOnly ? { checked: true } : {}),
+      },
+    });
+
+    return NextResponse.json({ success: true, count: result.count });
+  } catch (error) {
+    console.error('Error clearing shopping list items:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear shopping list items' },
+      { status: 500 }
+    );
+  }
+}
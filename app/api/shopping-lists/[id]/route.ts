@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/shopping-lists/[id] - Get a single shopping list
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const list = await prisma.shoppingList.findUnique({
+      where: { id },
+      include: {
+        store: true,
+        items: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!list) {
+      return NextResponse.json({ error: 'Shopping list not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(list);
+  } catch (error) {
+    console.error('Error fetching shopping list:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shopping list' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/shopping-lists/[id] - Rename a shopping list or choose its store
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, storeId } = await request.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { error: 'Name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (storeId !== undefined && storeId !== null && typeof storeId !== 'string') {
+      return NextResponse.json(
+        { error: 'storeId must be a string or null' },
+        { status: 400 }
+      );
+    }
+
+    const list = await prisma.shoppingList.update({
+      where: { id },
+      data: {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(storeId !== undefined ? { storeId } : {}),
+      },
+      include: {
+        store: true,
+      },
+    });
+
+    return NextResponse.json(list);
+  } catch (error) {
+    console.error('Error updating shopping list:', error);
+    return NextResponse.json(
+      { error: 'Failed to update shopping list' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/shopping-lists/[id] - Delete a shopping list and its items
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await prisma.shoppingList.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting shopping list:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete shopping list' },
+      { status: 500 }
+    );
+  }
+}
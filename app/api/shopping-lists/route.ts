@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/shopping-lists - Get all shopping lists with their items
+export async function GET() {
+  try {
+    const lists = await prisma.shoppingList.findMany({
+      include: {
+        store: true,
+        items: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return NextResponse.json(lists);
+  } catch (error) {
+    console.error('Error fetching shopping lists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shopping lists' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/shopping-lists - Create a new shopping list
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    const list = await prisma.shoppingList.create({
+      data: name ? { name } : {},
+      include: {
+        store: true,
+        items: true,
+      },
+    });
+
+    return NextResponse.json(list, { status: 201 });
+  } catch (error) {
+    console.error('Error creating shopping list:', error);
+    return NextResponse.json(
+      { error: 'Failed to create shopping list' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { checkSiteExtractors } from '@/lib/site-extractors/check';
+
+// GET /api/site-extractors/check - Run the site extractors against their saved pages
+// Development only; returns { passed, failed, results } with the differences per page
+export async function GET() {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const results = await checkSiteExtractors();
+    const failed = results.filter((result) => !result.passed).length;
+    return NextResponse.json({ passed: results.length - failed, failed, results });
+  } catch (error) {
+    console.error('Error checking site extractors:', error);
+    return NextResponse.json(
+      { error: 'Failed to check site extractors' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sanitizeAisleOrder } from '@/lib/grocery-categories';
+
+// PATCH /api/stores/[id] - Rename a store or change its aisle order
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, aisleOrder } = await request.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { error: 'Name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    const store = await prisma.store.update({
+      where: { id },
+      data: {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(aisleOrder !== undefined ? { aisleOrder: sanitizeAisleOrder(aisleOrder) } : {}),
+      },
+    });
+
+    return NextResponse.json(store);
+  } catch (error) {
+    console.error('Error updating store:', error);
+    return NextResponse.json(
+      { error: 'Failed to update store' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/stores/[id] - Delete a store; lists using it fall back to the default order
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await prisma.store.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting store:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete store' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sanitizeAisleOrder } from '@/lib/grocery-categories';
+
+// GET /api/stores - Get all stores
+export async function GET() {
+  try {
+    const stores = await prisma.store.findMany({
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    return NextResponse.json(stores);
+  } catch (error) {
+    console.error('Error fetching stores:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stores' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/stores - Create a store with an optional aisle order
+export async function POST(request: NextRequest) {
+  try {
+    const { name, aisleOrder } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    const store = await prisma.store.create({
+      data: {
+        name: name.trim(),
+        aisleOrder: sanitizeAisleOrder(aisleOrder),
+      },
+    });
+
+    return NextResponse.json(store, { status: 201 });
+  } catch (error) {
+    console.error('Error creating store:', error);
+    return NextResponse.json(
+      { error: 'Failed to create store' },
+      { status: 500 }
+    );
+  }
+}
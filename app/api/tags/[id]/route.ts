@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { TAG_KINDS, isTagKind, normalizeTagName } from '@/lib/tags';
+
+// PATCH /api/tags/[id] - Rename a tag or change its kind
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? normalizeTagName(body.name) : undefined;
+
+    if (body.name !== undefined && !name) {
+      return NextResponse.json(
+        { error: 'Name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (body.kind !== undefined && !isTagKind(body.kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${TAG_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (name) {
+      const existing = await prisma.tag.findUnique({ where: { name } });
+      if (existing && existing.id !== id) {
+        return NextResponse.json(
+          { error: `Tag "${name}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id },
+      data: {
+        ...(name ? { name } : {}),
+        ...(body.kind !== undefined ? { kind: body.kind } : {}),
+      },
+    });
+
+    return NextResponse.json(tag);
+  } catch (error) {
+    console.error('Error updating tag:', error);
+    return NextResponse.json(
+      { error: 'Failed to update tag' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tags/[id] - Delete a tag and remove it from all recipes
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await prisma.tag.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete tag' },
+      { status: 500 }
+    );
+  }
+}
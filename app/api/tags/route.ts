@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { TAG_KINDS, isTagKind, normalizeTagName } from '@/lib/tags';
+
+// GET /api/tags - Get all tags with the number of recipes using each
+// Optional ?kind=category|cuisine|tag limits the result to one kind
+export async function GET(request: NextRequest) {
+  try {
+    const kind = request.nextUrl.searchParams.get('kind');
+    if (kind !== null && !isTagKind(kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${TAG_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: kind ? { kind } : undefined,
+      include: {
+        _count: {
+          select: { recipes: true },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    return NextResponse.json(tags);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tags - Create a tag
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? normalizeTagName(body.name) : '';
+    const kind = body.kind ?? 'tag';
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTagKind(kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${TAG_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.tag.findUnique({ where: { name } });
+    if (existing) {
+      return NextResponse.json(
+        { error: `Tag "${name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const tag = await prisma.tag.create({
+      data: { name, kind },
+    });
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    return NextResponse.json(
+      { error: 'Failed to create tag' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Saving recipe | My Recipe Book',
+};
+
+interface CapturedPageProps {
+  searchParams: Promise<{ url?: string; error?: string }>;
+}
+
+const errorMessages: Record<string, string> = {
+  'no-url': 'There was no link in what you shared. Share the page itself rather than selected text.',
+  failed: 'The recipe could not be saved. Please try again.',
+};
+
+// Landing page after sharing a page or using the bookmarklet
+export default async function CapturedPage({ searchParams }: CapturedPageProps) {
+  const { url, error } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-gray-100 font-sans flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-sm border border-gray-100 p-5 text-center">
+        {error ? (
+          <>
+            <h1 className="text-lg font-bold text-gray-900">Nothing saved</h1>
+            <p className="mt-2 text-sm text-gray-600">{errorMessages[error] ?? errorMessages.failed}</p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-lg font-bold text-gray-900">Saving your recipe</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              The recipe is being added to your recipe book and will show up there in a minute or so.
+            </p>
+            {url && <p className="mt-2 text-xs text-gray-500 break-all">{url}</p>}
+          </>
+        )}
+        <a href="/" className="mt-4 inline-block btn-primary">
+          Open My Recipe Book
+        </a>
+      </div>
+    </main>
+  );
+}
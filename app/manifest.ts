@@ -0,0 +1,28 @@
+import type { MetadataRoute } from 'next';
+
+// Installing the app adds it to the phone's share sheet: shared pages are
+// posted to the capture endpoint and saved to the recipe book
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'My Recipe Book',
+    short_name: 'Recipes',
+    description: 'AI-powered recipe management and cooking assistant',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f3f4f6',
+    theme_color: '#10b981',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml' },
+    ],
+    share_target: {
+      action: '/api/capture',
+      method: 'POST',
+      enctype: 'multipart/form-data',
+      params: {
+        title: 'title',
+        text: 'text',
+        url: 'url',
+      },
+    },
+  };
+}
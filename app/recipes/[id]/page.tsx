@@ -0,0 +1,129 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { recipeInclude } from '@/lib/recipe-store';
+import { recipeToJsonLd, serializeJsonLd } from '@/lib/recipe-jsonld';
+import { formatMinutes } from '@/lib/durations';
+import { formatIngredientLine } from '@/lib/ingredient-parser';
+import { groupIntoSections } from '@/lib/recipe-sections';
+
+interface RecipePageProps {
+  params: Promise<{ id: string }>;
+}
+
+async function getRecipe(id: string) {
+  return prisma.recipe.findUnique({
+    where: { id },
+    include: recipeInclude,
+  });
+}
+
+export async function generateMetadata({ params }: RecipePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const recipe = await getRecipe(id);
+  if (!recipe) return {};
+
+  return {
+    title: `${recipe.title} | My Recipe Book`,
+    description: recipe.description ?? undefined,
+    openGraph: {
+      title: recipe.title,
+      description: recipe.description ?? undefined,
+      images: recipe.imageUrls.slice(0, 1),
+    },
+  };
+}
+
+// Public page for a single recipe, with the schema.org Recipe embedded as
+// JSON-LD so other recipe managers (and our own importer) can read it
+export default async function RecipePage({ params }: RecipePageProps) {
+  const { id } = await params;
+  const recipe = await getRecipe(id);
+
+  if (!recipe) notFound();
+
+  const requestHeaders = await headers();
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host');
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? 'https';
+  const jsonLd = recipeToJsonLd(recipe, host ? `${protocol}://${host}/recipes/${recipe.id}` : undefined);
+
+  const times = [
+    { label: 'Prep', minutes: recipe.prepTime },
+    { label: 'Cook', minutes: recipe.cookTime },
+    { label: 'Total', minutes: recipe.totalTime },
+  ].filter((time): time is { label: string; minutes: number } => time.minutes !== null);
+
+  return (
+    <main className="min-h-screen bg-gray-100 font-sans">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
+      />
+      <article className="max-w-3xl mx-auto px-3 py-4 sm:px-4 sm:py-6">
+        <a href="/" className="text-emerald-600 hover:text-emerald-700 text-sm font-medium">
+          &larr; My Recipe Book
+        </a>
+        <div className="mt-3 bg-white rounded-lg shadow-sm overflow-hidden border border-gray-100">
+          {recipe.imageUrls[0] && (
+            <img src={recipe.imageUrls[0]} alt={recipe.title} className="w-full h-48 sm:h-64 object-cover" />
+          )}
+          <div className="p-4 sm:p-5">
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">{recipe.title}</h1>
+            {recipe.description && (
+              <p className="mt-1.5 text-sm sm:text-base text-gray-600">{recipe.description}</p>
+            )}
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-600">
+              <span><span className="font-medium text-gray-800">Serves</span> {recipe.servings}</span>
+              {times.map(time => (
+                <span key={time.label}>
+                  <span className="font-medium text-gray-800">{time.label}</span> {formatMinutes(time.minutes)}
+                </span>
+              ))}
+            </div>
+            {recipe.sourceUrl && (
+              <p className="mt-2 text-xs sm:text-sm text-gray-500 truncate">
+                Source: <a href={recipe.sourceUrl} rel="noopener noreferrer" className="text-emerald-600 hover:underline">{recipe.sourceUrl}</a>
+              </p>
+            )}
+
+            <h2 className="mt-5 text-base sm:text-lg font-bold text-gray-800 border-b-2 border-emerald-500 pb-1.5 mb-3">
+              Ingredients
+            </h2>
+            {groupIntoSections(recipe.ingredients, ingredient => ingredient.section).map(section => (
+              <div key={section.start} className="mb-3 last:mb-0">
+                {section.name && <h3 className="text-sm font-semibold text-gray-800 mb-1.5">{section.name}</h3>}
+                <ul className="space-y-1.5 text-sm text-gray-700 list-disc pl-5">
+                  {section.items.map(ingredient => (
+                    <li key={ingredient.id}>{formatIngredientLine(ingredient)}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            <h2 className="mt-5 text-base sm:text-lg font-bold text-gray-800 border-b-2 border-emerald-500 pb-1.5 mb-3">
+              Instructions
+            </h2>
+            {groupIntoSections(recipe.instructions, instruction => instruction.section).map(section => (
+              <div key={section.start} className="mb-4 last:mb-0">
+                {section.name && <h3 className="text-sm font-semibold text-gray-800 mb-2">{section.name}</h3>}
+                <ol start={section.start + 1} className="space-y-3 text-sm text-gray-700 list-decimal pl-5">
+                  {section.items.map(instruction => (
+                    <li key={instruction.id}>{instruction.text}</li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+
+            {recipe.notes && (
+              <div className="mt-5 p-3 bg-amber-50 rounded-lg border border-amber-200">
+                <h3 className="font-semibold text-sm text-amber-900">Notes</h3>
+                <p className="mt-1.5 text-sm text-amber-700 whitespace-pre-wrap">{recipe.notes}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </article>
+    </main>
+  );
+}
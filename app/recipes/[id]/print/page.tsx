@@ -0,0 +1,143 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { recipeInclude } from '@/lib/recipe-store';
+import { formatMinutes } from '@/lib/durations';
+import { formatIngredientLine } from '@/lib/ingredient-parser';
+import { groupIntoSections } from '@/lib/recipe-sections';
+import { scaleIngredients } from '@/lib/serving-scaler';
+import PrintButton from '@/components/PrintButton';
+
+interface PrintPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ servings?: string; image?: string }>;
+}
+
+async function getRecipe(id: string) {
+  return prisma.recipe.findUnique({
+    where: { id },
+    include: recipeInclude,
+  });
+}
+
+export async function generateMetadata({ params }: PrintPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const recipe = await getRecipe(id);
+  return recipe ? { title: `${recipe.title} | My Recipe Book` } : {};
+}
+
+// Printable recipe card: ingredients and steps side by side to fit a binder page
+// ?servings=N scales the ingredients, ?image=0 leaves out the photo
+export default async function RecipePrintPage({ params, searchParams }: PrintPageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const recipe = await getRecipe(id);
+
+  if (!recipe) notFound();
+
+  const requestedServings = parseInt(query.servings ?? '', 10);
+  const servings = requestedServings > 0 && requestedServings <= 100 ? requestedServings : recipe.servings;
+  const showImage = query.image !== '0' && recipe.imageUrls.length > 0;
+
+  // Lines that cannot be scaled keep their original wording
+  const ingredients = scaleIngredients(recipe.ingredients, recipe.servings, servings)
+    .map(({ ingredient }) => ingredient);
+
+  const times = [
+    { label: 'Prep', minutes: recipe.prepTime },
+    { label: 'Cook', minutes: recipe.cookTime },
+    { label: 'Total', minutes: recipe.totalTime },
+  ].filter((time): time is { label: string; minutes: number } => time.minutes !== null);
+
+  const togglePhotoLink = `/recipes/${recipe.id}/print?servings=${servings}${showImage ? '&image=0' : ''}`;
+
+  return (
+    <main className="min-h-screen bg-gray-100 print:bg-white font-sans">
+      <div className="max-w-3xl mx-auto px-3 py-3 flex flex-wrap items-center gap-3 text-sm print:hidden">
+        <a href={`/recipes/${recipe.id}`} className="text-emerald-600 hover:text-emerald-700 font-medium">
+          &larr; Recipe page
+        </a>
+        <form method="get" className="flex items-center gap-1.5 ml-auto">
+          <label htmlFor="servings" className="text-gray-700">Servings</label>
+          <input id="servings" type="number" name="servings" min={1} max={100} defaultValue={servings} className="w-20" />
+          {!showImage && <input type="hidden" name="image" value="0" />}
+          <button type="submit" className="btn-secondary">Update</button>
+        </form>
+        {recipe.imageUrls.length > 0 && (
+          <a href={togglePhotoLink} className="text-emerald-600 hover:text-emerald-700 hover:underline">
+            {showImage ? 'Hide photo' : 'Show photo'}
+          </a>
+        )}
+        <PrintButton />
+      </div>
+
+      <article className="max-w-3xl mx-auto bg-white p-5 sm:p-6 shadow-sm print:shadow-none print:p-0 print:max-w-none text-gray-900">
+        <div className="flex gap-4 items-start">
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold leading-tight">{recipe.title}</h1>
+            {recipe.description && (
+              <p className="mt-1 text-sm text-gray-600">{recipe.description}</p>
+            )}
+            <div className="mt-1.5 flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-gray-600">
+              <span>
+                <span className="font-medium text-gray-800">Serves</span> {servings}
+                {servings !== recipe.servings && <span className="text-gray-500"> (scaled from {recipe.servings})</span>}
+              </span>
+              {times.map(time => (
+                <span key={time.label}>
+                  <span className="font-medium text-gray-800">{time.label}</span> {formatMinutes(time.minutes)}
+                </span>
+              ))}
+            </div>
+          </div>
+          {showImage && (
+            <img src={recipe.imageUrls[0]} alt={recipe.title} className="w-32 h-32 sm:w-40 sm:h-40 object-cover rounded-md flex-shrink-0" />
+          )}
+        </div>
+
+        <div className="mt-4 grid grid-cols-3 gap-5 text-sm">
+          <section className="col-span-1">
+            <h2 className="text-sm font-bold uppercase tracking-wide text-emerald-700 border-b border-emerald-500 pb-1 mb-2">
+              Ingredients
+            </h2>
+            {groupIntoSections(ingredients, ingredient => ingredient.section).map(section => (
+              <div key={section.start} className="mb-2 last:mb-0 break-inside-avoid">
+                {section.name && <h3 className="font-semibold text-gray-800 mb-1">{section.name}</h3>}
+                <ul className="space-y-1">
+                  {section.items.map((ingredient, index) => (
+                    <li key={section.start + index} className="break-inside-avoid">{formatIngredientLine(ingredient)}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </section>
+          <section className="col-span-2">
+            <h2 className="text-sm font-bold uppercase tracking-wide text-emerald-700 border-b border-emerald-500 pb-1 mb-2">
+              Instructions
+            </h2>
+            {groupIntoSections(recipe.instructions, instruction => instruction.section).map(section => (
+              <div key={section.start} className="mb-3 last:mb-0">
+                {section.name && <h3 className="font-semibold text-gray-800 mb-1 break-after-avoid">{section.name}</h3>}
+                <ol start={section.start + 1} className="space-y-2 list-decimal pl-5">
+                  {section.items.map(instruction => (
+                    <li key={instruction.id} className="break-inside-avoid">{instruction.text}</li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </section>
+        </div>
+
+        {recipe.notes && (
+          <div className="mt-4 pt-2 border-t border-gray-200 text-xs">
+            <span className="font-semibold">Notes: </span>
+            <span className="whitespace-pre-wrap text-gray-700">{recipe.notes}</span>
+          </div>
+        )}
+        {recipe.sourceUrl && (
+          <p className="mt-3 text-xs text-gray-500 truncate">Source: {recipe.sourceUrl}</p>
+        )}
+      </article>
+    </main>
+  );
+}
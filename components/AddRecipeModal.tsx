@@ -1,14 +1,23 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import type { Recipe } from '@/types';
 import * as fileUtils from '@/utils/fileUtils';
-import { XMarkIcon, DocumentTextIcon, PhotoIcon, LinkIcon, VideoCameraIcon } from './icons';
+import { readGenerationStream } from '@/lib/generation-progress';
+import { XMarkIcon, DocumentTextIcon, PhotoIcon, LinkIcon, VideoCameraIcon, ArrowUpTrayIcon, QueueListIcon } from './icons';
+import Bookmarklet from './Bookmarklet';
+import BulkUrlImport from './BulkUrlImport';
 
 interface AddRecipeModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddRecipe: (recipe: Partial<Recipe>) => void;
+  /** Called after recipes were saved directly by an import */
+  onImported: () => void;
+  /** Open a recipe that is already in the library */
+  onOpenRecipe: (id: string) => void;
+  /** Update a recipe with what was read again from its source URL */
+  onRefreshRecipe: (id: string, recipe: Partial<Recipe>) => Promise<void>;
   liveLogs: string[];
   addLog: (log: string) => void;
   clearLogs: () => void;
@@ -25,13 +34,31 @@ const SpinnerInline = () => (
 );
 
 
-const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddRecipe, liveLogs, addLog, clearLogs }) => {
-    const [activeTab, setActiveTab] = useState<'text' | 'image' | 'url' | 'youtube'>('text');
+type ImportFormat = 'paprika' | 'cooklang' | 'markdown' | 'backup';
+
+const importFormats: Record<ImportFormat, { label: string; accept: string; endpoint: string; multiple?: boolean }> = {
+    paprika: { label: 'Paprika export', accept: '.paprikarecipes,.paprikarecipe', endpoint: '/api/recipes/import/paprika' },
+    cooklang: { label: 'Cooklang files', accept: '.cook', endpoint: '/api/recipes/import/cooklang', multiple: true },
+    markdown: { label: 'Markdown files', accept: '.md,.markdown', endpoint: '/api/recipes/import/markdown', multiple: true },
+    backup: { label: 'Recipe book backup', accept: '.zip', endpoint: '/api/backup/restore' },
+};
+
+const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddRecipe, onImported, onOpenRecipe, onRefreshRecipe, liveLogs, addLog, clearLogs }) => {
+    const [activeTab, setActiveTab] = useState<'text' | 'image' | 'url' | 'youtube' | 'bulk' | 'import'>('text');
     const [text, setText] = useState('');
     const [url, setUrl] = useState('');
     const [youtubeUrl, setYoutubeUrl] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [importFormat, setImportFormat] = useState<ImportFormat>('paprika');
+    const [conflictStrategy, setConflictStrategy] = useState<'skip' | 'overwrite' | 'duplicate'>('skip');
+    // Recipe already saved from the URL that was just entered
+    const [existingRecipe, setExistingRecipe] = useState<{ id: string; title: string; url: string } | null>(null);
+    // Aborting it closes the progress stream, which stops the generation on the server
+    const generationRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => generationRef.current?.abort(), []);
 
     const handleClose = () => {
         if (isGenerating) return;
@@ -39,19 +66,23 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
         onClose();
     }
 
-    const handleAdd = async (recipePromise: Promise<Partial<Recipe> | null>) => {
+    const handleAdd = async (recipePromise: Promise<Partial<Recipe> | null>, onGenerated: (recipe: Partial<Recipe>) => void = onAddRecipe) => {
         setIsGenerating(true);
         try {
             const recipe = await recipePromise;
             if (recipe) {
                 addLog('✅ Recipe generation complete!');
                 setTimeout(() => {
-                    onAddRecipe(recipe);
+                    onGenerated(recipe);
                 }, 1000);
             } else {
                 addLog('❌ Could not generate a recipe. The AI might not have understood the input. Please try again or use a different method.');
             }
         } catch (error) {
+            if ((error as Error).name === 'AbortError') {
+                addLog('🛑 Generation cancelled.');
+                return;
+            }
             console.error("Failed to generate recipe:", error);
             const errorMessage = `An error occurred: ${(error as Error).message}`;
             addLog(`❌ ${errorMessage}`);
@@ -60,12 +91,16 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
         }
     };
     
-    const generateRecipe = async (type: string, content: string, mimeType?: string, base64Image?: string): Promise<Partial<Recipe> | null> => {
+    // Progress is streamed from the server and shown in the log as it happens
+    const generateRecipe = async (type: string, content: string, mimeType?: string, base64Image?: string, refresh?: boolean): Promise<Partial<Recipe> | null> => {
+        const controller = new AbortController();
+        generationRef.current = controller;
         try {
             const response = await fetch('/api/recipes/generate', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ type, content, mimeType, base64Image }),
+                headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+                body: JSON.stringify({ type, content, mimeType, base64Image, refresh }),
+                signal: controller.signal,
             });
 
             if (!response.ok) {
@@ -73,49 +108,138 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
                 throw new Error(error.error || 'Failed to generate recipe');
             }
 
-            return await response.json();
+            let recipe: Partial<Recipe> | null = null;
+            await readGenerationStream(response, event => {
+                if (event.type === 'progress' || event.type === 'retry') {
+                    addLog(event.message);
+                } else if (event.type === 'result') {
+                    recipe = event.recipe;
+                } else if (event.type === 'error') {
+                    if (event.existingRecipe) {
+                        setExistingRecipe({ ...event.existingRecipe, url: content });
+                    }
+                    throw new Error(event.error);
+                }
+            });
+            return recipe;
         } catch (error) {
-            console.error('Error generating recipe:', error);
+            if ((error as Error).name !== 'AbortError') {
+                console.error('Error generating recipe:', error);
+            }
             throw error;
+        } finally {
+            generationRef.current = null;
         }
     };
 
     const handleTextSubmit = () => {
         if (!text) return;
         clearLogs();
-        addLog("Structuring your recipe...");
         handleAdd(generateRecipe('text', text));
     };
 
     const handleUrlSubmit = () => {
         if (!url) return;
         clearLogs();
-        addLog("Fetching recipe from URL...");
+        setExistingRecipe(null);
         handleAdd(generateRecipe('url', url));
     };
 
     const handleYoutubeSubmit = () => {
         if (!youtubeUrl) return;
         clearLogs();
-        addLog("Generating recipe from YouTube video...");
+        setExistingRecipe(null);
         handleAdd(generateRecipe('url', youtubeUrl));
     };
 
+    const handleRefreshExisting = () => {
+        if (!existingRecipe) return;
+        const { id, url: sourceUrl } = existingRecipe;
+        clearLogs();
+        setExistingRecipe(null);
+        handleAdd(generateRecipe('url', sourceUrl, undefined, undefined, true), recipe => onRefreshRecipe(id, recipe));
+    };
+
     const handleFileSubmit = async (file: File) => {
         if (!file) return;
         clearLogs();
-        addLog(`Analyzing image...`);
         const base64 = await fileUtils.fileToBase64(file);
         handleAdd(generateRecipe('image', '', file.type, base64));
     };
 
+    const handleImportSubmit = async (files: File[]) => {
+        if (files.length === 0) return;
+        clearLogs();
+        addLog(`Importing ${files.length === 1 ? files[0].name : `${files.length} files`}...`);
+        setIsGenerating(true);
+        try {
+            const formData = new FormData();
+            for (const file of files) {
+                formData.append('file', file);
+            }
+            if (importFormat === 'backup') {
+                formData.append('conflict', conflictStrategy);
+            }
+            const response = await fetch(importFormats[importFormat].endpoint, {
+                method: 'POST',
+                body: formData,
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to import file');
+            }
+
+            // Paprika results are keyed by name, backup results by title
+            let imported = 0;
+            for (const result of data.results) {
+                const name = result.name ?? result.title;
+                if (result.status === 'failed') {
+                    addLog(`❌ ${name}: ${result.error}`);
+                } else if (result.status === 'skipped') {
+                    addLog(`⏭️ ${name} (already in your recipe book)`);
+                } else {
+                    imported++;
+                    const detail = result.warning ?? (result.status === 'overwritten' || result.status === 'duplicated' ? result.status : null);
+                    addLog(`✅ ${name}${detail ? ` (${detail})` : ''}`);
+                }
+            }
+            addLog(`Imported ${imported} of ${data.results.length} recipes.`);
+            if (imported > 0) {
+                onImported();
+            }
+        } catch (error) {
+            console.error('Failed to import file:', error);
+            addLog(`❌ An error occurred: ${(error as Error).message}`);
+        } finally {
+            setIsGenerating(false);
+            if (importInputRef.current) importInputRef.current.value = '';
+        }
+    };
+
     const tabs = [
         { id: 'text', icon: DocumentTextIcon, label: 'From Text' },
         { id: 'image', icon: PhotoIcon, label: 'From Image' },
         { id: 'url', icon: LinkIcon, label: 'From URL' },
         { id: 'youtube', icon: VideoCameraIcon, label: 'From YouTube' },
+        { id: 'bulk', icon: QueueListIcon, label: 'Bulk URLs' },
+        { id: 'import', icon: ArrowUpTrayIcon, label: 'Import File' },
     ];
     
+    const existingRecipeNotice = existingRecipe && (
+        <div className="p-2.5 rounded-lg border border-amber-200 bg-amber-50 text-xs sm:text-sm text-amber-800">
+            <p><span className="font-medium">{existingRecipe.title}</span> was already saved from this page.</p>
+            <div className="mt-2 flex gap-2">
+                <button onClick={() => onOpenRecipe(existingRecipe.id)} className="px-2.5 py-1 rounded-md bg-emerald-600 text-white text-xs font-medium hover:bg-emerald-700">
+                    Open recipe
+                </button>
+                <button onClick={handleRefreshExisting} className="px-2.5 py-1 rounded-md border border-emerald-300 bg-white text-emerald-700 text-xs font-medium hover:bg-emerald-50">
+                    Refresh from page
+                </button>
+            </div>
+        </div>
+    );
+
     if (!isOpen) return null;
 
     return (
@@ -132,7 +256,7 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
                         <div className="border-b border-gray-200 mb-3">
                             <nav className="-mb-px flex gap-2 overflow-x-auto scrollbar-hide" aria-label="Tabs">
                                 {tabs.map(tab => (
-                                    <button key={tab.id} onClick={() => { setActiveTab(tab.id as any); clearLogs(); }}
+                                    <button key={tab.id} onClick={() => { setActiveTab(tab.id as any); clearLogs(); setExistingRecipe(null); }}
                                         className={`whitespace-nowrap flex items-center gap-1.5 py-2 px-2 border-b-2 font-medium text-xs sm:text-sm ${activeTab === tab.id ? 'border-emerald-600 text-emerald-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
                                         <tab.icon className="w-4 h-4"/> <span className="hidden xs:inline">{tab.label}</span><span className="xs:hidden">{tab.label.replace('From ', '')}</span>
                                     </button>
@@ -165,6 +289,8 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
                                 <button onClick={handleUrlSubmit} className="w-full py-2 px-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium flex items-center justify-center disabled:bg-emerald-400 disabled:cursor-not-allowed transition-colors">
                                     {isGenerating ? <SpinnerInline/> : 'Fetch Recipe'}
                                 </button>
+                                {existingRecipeNotice}
+                                <Bookmarklet />
                             </div>
                         )}
                         {activeTab === 'youtube' && (
@@ -174,6 +300,50 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
                                 <button onClick={handleYoutubeSubmit} className="w-full py-2 px-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium flex items-center justify-center disabled:bg-emerald-400 disabled:cursor-not-allowed transition-colors">
                                     {isGenerating ? <SpinnerInline/> : 'Generate from YouTube'}
                                 </button>
+                                {existingRecipeNotice}
+                            </div>
+                        )}
+                        {activeTab === 'bulk' && (
+                            <BulkUrlImport onImported={onImported} />
+                        )}
+                        {activeTab === 'import' && (
+                            <div className="space-y-2.5">
+                                <div>
+                                    <label htmlFor="import-format" className="text-xs sm:text-sm font-medium text-gray-700">File type:</label>
+                                    <select id="import-format" value={importFormat} onChange={e => setImportFormat(e.target.value as ImportFormat)} className="mt-1 w-full">
+                                        {Object.entries(importFormats).map(([id, format]) => (
+                                            <option key={id} value={id}>{format.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {importFormat === 'paprika' && (
+                                    <p className="text-xs sm:text-sm text-gray-600">Import recipes exported from Paprika (.paprikarecipes). Photos are imported too.</p>
+                                )}
+                                {importFormat === 'cooklang' && (
+                                    <p className="text-xs sm:text-sm text-gray-600">Import recipes written in Cooklang (.cook). You can select several files at once.</p>
+                                )}
+                                {importFormat === 'markdown' && (
+                                    <p className="text-xs sm:text-sm text-gray-600">Import Markdown recipes with Ingredients and Instructions sections, such as notes exported from this app. You can select several files at once.</p>
+                                )}
+                                {importFormat === 'backup' && (
+                                    <>
+                                        <p className="text-xs sm:text-sm text-gray-600">
+                                            Restore a backup made by this app, images included. <a href="/api/backup" className="text-emerald-600 hover:text-emerald-700 hover:underline">Download a backup</a> of your recipe book.
+                                        </p>
+                                        <div>
+                                            <label htmlFor="conflict-strategy" className="text-xs sm:text-sm font-medium text-gray-700">If a recipe is already in your recipe book:</label>
+                                            <select id="conflict-strategy" value={conflictStrategy} onChange={e => setConflictStrategy(e.target.value as typeof conflictStrategy)} className="mt-1 w-full">
+                                                <option value="skip">Keep mine and skip it</option>
+                                                <option value="overwrite">Replace mine with the backup</option>
+                                                <option value="duplicate">Keep both</option>
+                                            </select>
+                                        </div>
+                                    </>
+                                )}
+                                <input type="file" ref={importInputRef} hidden accept={importFormats[importFormat].accept} multiple={importFormats[importFormat].multiple} onChange={(e) => e.target.files && handleImportSubmit(Array.from(e.target.files))} />
+                                <button onClick={() => importInputRef.current?.click()} className="w-full py-2 px-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium flex items-center justify-center disabled:bg-emerald-400 disabled:cursor-not-allowed transition-colors">
+                                    {isGenerating ? 'Importing...' : `Select ${importFormats[importFormat].label}`}
+                                </button>
                             </div>
                         )}
                     </div>
@@ -186,6 +356,11 @@ const AddRecipeModal: React.FC<AddRecipeModalProps> = ({ isOpen, onClose, onAddR
                                 <p key={index} className="whitespace-pre-wrap">{`> ${log}`}</p>
                             ))}
                         </div>
+                        {isGenerating && activeTab !== 'import' && (
+                            <button onClick={() => generationRef.current?.abort()} className="mt-2 w-full py-1.5 px-3 bg-white text-gray-700 text-sm font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors">
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 )}
             </div>
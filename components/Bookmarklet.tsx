@@ -0,0 +1,51 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+
+/**
+ * Build the bookmarklet: it posts the current page to the capture endpoint
+ * from a hidden form, opening the confirmation page in a new tab
+ */
+function bookmarkletCode(origin: string, includeHtml: boolean): string {
+  const fields = [
+    "a('url',location.href)",
+    "a('title',document.title)",
+    ...(includeHtml ? ["a('html',document.documentElement.outerHTML)"] : []),
+  ].join(';');
+
+  return `javascript:(function(){var f=document.createElement('form');f.method='POST';f.action='${origin}/api/capture';f.target='_blank';f.acceptCharset='utf-8';f.style.display='none';function a(n,v){var t=document.createElement('textarea');t.name=n;t.value=v;f.appendChild(t);}${fields};document.body.appendChild(f);f.submit();f.remove();})()`;
+}
+
+const BookmarkletLink: React.FC<{ includeHtml: boolean; children: React.ReactNode }> = ({ includeHtml, children }) => {
+  const linkRef = useRef<HTMLAnchorElement>(null);
+
+  // React refuses javascript: URLs in href, so the link is set directly
+  useEffect(() => {
+    linkRef.current?.setAttribute('href', bookmarkletCode(window.location.origin, includeHtml));
+  }, [includeHtml]);
+
+  return (
+    <a
+      ref={linkRef}
+      onClick={e => e.preventDefault()}
+      className="inline-block px-2.5 py-1 rounded-md border border-emerald-300 bg-emerald-50 text-emerald-700 text-xs font-medium cursor-move"
+    >
+      {children}
+    </a>
+  );
+};
+
+const Bookmarklet: React.FC = () => (
+  <div className="pt-2.5 border-t border-gray-100">
+    <p className="text-xs text-gray-600">
+      Save recipes while browsing: drag a button to your bookmarks bar, then click it on any recipe page.
+      Use the second one for pages that need you to be logged in.
+    </p>
+    <div className="mt-1.5 flex flex-wrap gap-2">
+      <BookmarkletLink includeHtml={false}>Save recipe</BookmarkletLink>
+      <BookmarkletLink includeHtml={true}>Save recipe (logged-in page)</BookmarkletLink>
+    </div>
+  </div>
+);
+
+export default Bookmarklet;
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { ImportJob, ImportJobItemStatus } from '@/types';
+
+interface BulkUrlImportProps {
+  /** Called when more recipes have been added to the library */
+  onImported: () => void;
+}
+
+// The job keeps running when the modal is closed, so it is picked up again on reopening
+const JOB_STORAGE_KEY = 'myrecipebook:import-job';
+
+const POLL_INTERVAL_MS = 2500;
+
+const statusStyles: Record<ImportJobItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'bg-gray-100 text-gray-600' },
+  processing: { label: 'Importing', className: 'bg-amber-100 text-amber-700' },
+  imported: { label: 'Imported', className: 'bg-emerald-100 text-emerald-700' },
+  duplicate: { label: 'Already saved', className: 'bg-sky-100 text-sky-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+const importedCount = (job: ImportJob | null) => job?.items.filter(item => item.status === 'imported').length ?? 0;
+
+const BulkUrlImport: React.FC<BulkUrlImportProps> = ({ onImported }) => {
+  const [urls, setUrls] = useState('');
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Resume showing the last job
+  useEffect(() => {
+    const jobId = localStorage.getItem(JOB_STORAGE_KEY);
+    if (!jobId) return;
+    fetch(`/api/import-jobs/${jobId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data) setJob(data);
+        else localStorage.removeItem(JOB_STORAGE_KEY);
+      })
+      .catch(error => console.error('Error fetching import job:', error));
+  }, []);
+
+  // Poll until the job is completed
+  const jobId = job?.id;
+  const isRunning = job !== null && job.status !== 'completed';
+  useEffect(() => {
+    if (!jobId || !isRunning) return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/import-jobs/${jobId}`);
+        if (!response.ok) return;
+        const next: ImportJob = await response.json();
+        // Refresh the library as recipes come in
+        if (importedCount(next) > importedCount(job)) onImported();
+        setJob(next);
+      } catch (error) {
+        console.error('Error polling import job:', error);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [jobId, isRunning, job, onImported]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/import-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to start import');
+      }
+
+      const created: ImportJob = await response.json();
+      localStorage.setItem(JOB_STORAGE_KEY, created.id);
+      setJob(created);
+      setUrls('');
+    } catch (error) {
+      console.error('Error starting import:', error);
+      alert(`Failed to start import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const doneCount = job?.items.filter(item => item.status !== 'pending' && item.status !== 'processing').length ?? 0;
+
+  return (
+    <div className="space-y-2.5">
+      <label htmlFor="bulk-urls" className="text-xs sm:text-sm font-medium text-gray-700">Paste recipe URLs, one per line:</label>
+      <textarea id="bulk-urls" rows={5} value={urls} onChange={e => setUrls(e.target.value)} className="w-full disabled:bg-gray-100" placeholder={'https://example.com/best-cookies-ever\nhttps://example.com/weeknight-curry'}></textarea>
+      <button
+        onClick={handleSubmit}
+        disabled={isSubmitting || isRunning || !urls.trim()}
+        className="w-full py-2 px-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium flex items-center justify-center disabled:bg-emerald-400 disabled:cursor-not-allowed transition-colors"
+      >
+        {isSubmitting ? 'Starting...' : isRunning ? 'Importing...' : 'Import URLs'}
+      </button>
+      <p className="text-xs text-gray-500">Recipes are imported in the background, so you can close this window and come back later.</p>
+
+      {job && (
+        <div>
+          <p className="text-xs sm:text-sm font-medium text-gray-700 mb-1">
+            {job.status === 'completed' ? 'Done' : 'Importing'}: {doneCount} of {job.items.length}
+          </p>
+          <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto">
+            {job.items.map(item => (
+              <li key={item.id} className="px-3 py-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-gray-700" title={item.url}>{item.url}</span>
+                  <span className={`flex-shrink-0 px-1.5 py-0.5 rounded font-medium ${statusStyles[item.status].className}`}>
+                    {statusStyles[item.status].label}
+                  </span>
+                </div>
+                {item.recipe && (
+                  <a href={`/recipes/${item.recipe.id}`} target="_blank" rel="noopener noreferrer" className="block mt-0.5 text-emerald-600 hover:text-emerald-700 hover:underline truncate">
+                    {item.recipe.title}
+                  </a>
+                )}
+                {item.status === 'failed' && item.error && (
+                  <p className="mt-0.5 text-red-600">{item.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkUrlImport;
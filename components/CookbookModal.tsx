@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Recipe } from '@/types';
+import { XMarkIcon } from './icons';
+
+interface CookbookModalProps {
+  recipes: Recipe[];
+  onClose: () => void;
+}
+
+const CookbookModal: React.FC<CookbookModalProps> = ({ recipes, onClose }) => {
+  const [title, setTitle] = useState('My Recipe Book');
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => recipes.map(recipe => recipe.id));
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const toggleRecipe = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      // Keep the order of the recipe list
+      const recipeIds = recipes.filter(recipe => selectedIds.includes(recipe.id)).map(recipe => recipe.id);
+      const response = await fetch('/api/cookbook', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recipeIds, title, includeImages }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to create cookbook');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'cookbook.pdf';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error creating cookbook:', error);
+      alert(`Failed to create cookbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-end sm:items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl w-full sm:max-w-lg flex flex-col max-h-[95vh] sm:max-h-[90vh]">
+        <div className="flex items-center justify-between px-4 py-3 border-b sticky top-0 bg-white rounded-t-2xl z-10 flex-shrink-0">
+          <h2 className="text-base sm:text-lg font-bold text-gray-800">Cookbook PDF</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors">
+            <XMarkIcon className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-grow px-4 py-3 overflow-y-auto space-y-3">
+          <div>
+            <label htmlFor="cookbook-title" className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input id="cookbook-title" type="text" value={title} onChange={e => setTitle(e.target.value)} className="w-full" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)} />
+            Include photos
+          </label>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700">Recipes ({selectedIds.length} of {recipes.length})</span>
+              <button
+                onClick={() => setSelectedIds(selectedIds.length === recipes.length ? [] : recipes.map(recipe => recipe.id))}
+                className="text-xs font-medium text-emerald-600 hover:text-emerald-700"
+              >
+                {selectedIds.length === recipes.length ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+              {recipes.map(recipe => (
+                <li key={recipe.id}>
+                  <label className="flex items-center gap-2 px-3 py-2 text-sm text-gray-800 cursor-pointer hover:bg-gray-50">
+                    <input type="checkbox" checked={selectedIds.includes(recipe.id)} onChange={() => toggleRecipe(recipe.id)} />
+                    <span className="truncate">{recipe.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-1 text-xs text-gray-500">Only recipes matching the current search and filters are listed.</p>
+          </div>
+        </div>
+
+        <div className="px-4 py-3 border-t flex-shrink-0">
+          <button
+            onClick={handleCreate}
+            disabled={isCreating || selectedIds.length === 0}
+            className="w-full py-2 px-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium disabled:bg-emerald-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isCreating ? 'Creating PDF...' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CookbookModal;
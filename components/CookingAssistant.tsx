@@ -78,7 +78,7 @@ const CookingAssistant: React.FC<CookingAssistantProps> = ({ recipe, onClose })
           responseModalities: [Modality.AUDIO],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
-          systemInstruction: `You are a helpful cooking assistant. The user is currently making "${recipe.title}". Here is the recipe:\n\nIngredients:\n${recipe.ingredients.map(i => `${i.quantity} ${i.name}`).join('\n')}\n\nInstructions:\n${recipe.instructions.map((step, i) => `${i + 1}. ${step}`).join('\n')}\n\nAnswer any questions the user has about this recipe. Keep your answers concise.`,
+          systemInstruction: `You are a helpful cooking assistant. The user is currently making "${recipe.title}". Here is the recipe:\n\nIngredients:\n${recipe.ingredients.map(i => `${i.quantity} ${i.name}${i.preparation ? `, ${i.preparation}` : ''}`).join('\n')}\n\nInstructions:\n${recipe.instructions.map((step, i) => `${i + 1}. ${step}`).join('\n')}\n\nAnswer any questions the user has about this recipe. Keep your answers concise.`,
         },
         callbacks: {
           onopen: () => {
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { DuplicateCluster } from '@/lib/recipe-duplicates';
+import { XMarkIcon } from './icons';
+import Spinner from './Spinner';
+
+interface DuplicatesModalProps {
+  onClose: () => void;
+  /** Called after recipes were merged, so the library can be reloaded */
+  onMerged: () => void;
+}
+
+const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ onClose, onMerged }) => {
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  // Recipe to keep per cluster, keyed by the cluster's first recipe
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [mergingCluster, setMergingCluster] = useState<string | null>(null);
+
+  const fetchClusters = useCallback(async () => {
+    try {
+      const response = await fetch('/api/recipes/duplicates');
+      if (!response.ok) throw new Error('Failed to find duplicates');
+      const data = await response.json();
+      setClusters(data.clusters);
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+      setClusters([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [fetchClusters]);
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const key = cluster.recipes[0].id;
+    const keepId = keepIds[key] ?? key;
+    const keep = cluster.recipes.find(recipe => recipe.id === keepId);
+    const others = cluster.recipes.filter(recipe => recipe.id !== keepId);
+    if (!confirm(`Keep "${keep?.title}" and merge ${others.length === 1 ? `"${others[0].title}"` : `${others.length} recipes`} into it? Their notes, photos and source links are added to it, and they are deleted.`)) {
+      return;
+    }
+
+    setMergingCluster(key);
+    try {
+      for (const other of others) {
+        const response = await fetch(`/api/recipes/${keepId}/merge`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duplicateId: other.id }),
+        });
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.error || 'Failed to merge recipes');
+        }
+      }
+    } catch (error) {
+      console.error('Error merging recipes:', error);
+      alert(`Failed to merge recipes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setMergingCluster(null);
+      onMerged();
+      fetchClusters();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-end sm:items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl w-full sm:max-w-lg flex flex-col max-h-[95vh] sm:max-h-[90vh]">
+        <div className="flex items-center justify-between px-4 py-3 border-b sticky top-0 bg-white rounded-t-2xl z-10 flex-shrink-0">
+          <h2 className="text-base sm:text-lg font-bold text-gray-800">Duplicate Recipes</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors">
+            <XMarkIcon className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-grow px-4 py-3 overflow-y-auto space-y-3">
+          {clusters === null ? (
+            <Spinner message="Looking for duplicates..." />
+          ) : clusters.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">No duplicate recipes found.</p>
+          ) : (
+            <>
+              <p className="text-xs sm:text-sm text-gray-600">
+                These recipes have similar titles and ingredients. Choose the one to keep; the others are merged into it.
+              </p>
+              {clusters.map(cluster => {
+                const key = cluster.recipes[0].id;
+                const keepId = keepIds[key] ?? key;
+                return (
+                  <div key={key} className="border border-gray-200 rounded-lg">
+                    <div className="px-3 py-1.5 border-b border-gray-100 text-xs text-gray-500">
+                      {Math.round(cluster.score * 100)}% similar
+                    </div>
+                    <ul className="divide-y divide-gray-100">
+                      {cluster.recipes.map(recipe => (
+                        <li key={recipe.id}>
+                          <label className="flex items-center gap-2 px-3 py-2 text-sm text-gray-800 cursor-pointer hover:bg-gray-50">
+                            <input
+                              type="radio"
+                              name={`keep-${key}`}
+                              checked={keepId === recipe.id}
+                              onChange={() => setKeepIds(prev => ({ ...prev, [key]: recipe.id }))}
+                            />
+                            {recipe.imageUrl && (
+                              <img src={recipe.imageUrl} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                            )}
+                            <span className="min-w-0">
+                              <a href={`/recipes/${recipe.id}`} target="_blank" rel="noopener noreferrer" className="block truncate hover:text-emerald-700 hover:underline">
+                                {recipe.title}
+                              </a>
+                              <span className="block text-xs text-gray-500 truncate">
+                                {recipe.sourceUrl ? new URL(recipe.sourceUrl).hostname : 'No source'} · Added {new Date(recipe.createdAt).toLocaleDateString()}
+                              </span>
+                            </span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="px-3 py-2 border-t border-gray-100">
+                      <button
+                        onClick={() => handleMerge(cluster)}
+                        disabled={mergingCluster !== null}
+                        className="w-full py-1.5 px-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-medium disabled:bg-emerald-400 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {mergingCluster === key ? 'Merging...' : 'Merge into selected'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesModal;
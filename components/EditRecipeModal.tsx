@@ -1,23 +1,34 @@
 'use client';
 
 import React, { useState } from 'react';
-import type { Recipe, Ingredient } from '@/types';
+import type { Recipe, Ingredient, Tag, NutritionInput } from '@/types';
+import { normalizeTagName } from '@/lib/tags';
+import { NUTRIENTS, emptyNutrition, type NutrientKey } from '@/lib/nutrition';
+import { hasSections } from '@/lib/recipe-sections';
 import { XMarkIcon, PlusIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon, StarIcon, CameraIcon } from './icons';
+import TagBadge from './TagBadge';
 
 interface EditRecipeModalProps {
   recipe: Recipe;
+  availableTags?: Tag[];
   isOpen: boolean;
   onClose: () => void;
   onSave: (updatedRecipe: Recipe) => void;
 }
 
-const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClose, onSave }) => {
+const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, availableTags = [], isOpen, onClose, onSave }) => {
   const [editedRecipe, setEditedRecipe] = useState<Recipe>(JSON.parse(JSON.stringify(recipe)));
   const [newImageUrl, setNewImageUrl] = useState('');
+  const [newTag, setNewTag] = useState('');
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
 
   if (!isOpen) return null;
 
+  // Section of each step, kept in step with the instructions as they are edited
+  const stepSections = editedRecipe.instructions.map((_, i) => editedRecipe.instructionSections?.[i] ?? null);
+  const ingredientSectionNames = [...new Set(editedRecipe.ingredients.map(ing => ing.section).filter(Boolean))];
+  const stepSectionNames = [...new Set(stepSections.filter(Boolean))];
+
   const handleFieldChange = (field: keyof Recipe, value: any) => {
     setEditedRecipe(prev => ({ ...prev, [field]: value }));
   };
@@ -32,21 +43,39 @@ const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClo
     handleFieldChange(list, newList);
   };
 
+  const handleStepSectionChange = (index: number, value: string) => {
+    handleFieldChange('instructionSections', stepSections.map((section, i) => (i === index ? value : section)));
+  };
+
+  // New items go in the same section as the last one
   const handleAddItem = (list: keyof Recipe) => {
-    const newItem = list === 'ingredients' ? { name: '', quantity: '' } : '';
+    const lastIngredient = editedRecipe.ingredients[editedRecipe.ingredients.length - 1];
+    const newItem = list === 'ingredients' ? { name: '', quantity: '', preparation: '', section: lastIngredient?.section ?? null } : '';
     handleFieldChange(list, [...(editedRecipe[list] as any[]), newItem]);
+    if (list === 'instructions') {
+      handleFieldChange('instructionSections', [...stepSections, stepSections[stepSections.length - 1] ?? null]);
+    }
   };
   
   const handleRemoveItem = (list: keyof Recipe, index: number) => {
     handleFieldChange(list, (editedRecipe[list] as any[]).filter((_, i) => i !== index));
+    if (list === 'instructions') {
+      handleFieldChange('instructionSections', stepSections.filter((_, i) => i !== index));
+    }
   };
   
   const handleMoveItem = (list: keyof Recipe, index: number, direction: 'up' | 'down') => {
-    const items = [...(editedRecipe[list] as any[])];
     const newIndex = direction === 'up' ? index - 1 : index + 1;
-    if (newIndex < 0 || newIndex >= items.length) return;
-    [items[index], items[newIndex]] = [items[newIndex], items[index]]; // Swap
-    handleFieldChange(list, items);
+    const swap = (items: any[]) => {
+      const swapped = [...items];
+      [swapped[index], swapped[newIndex]] = [swapped[newIndex], swapped[index]]; // Swap
+      return swapped;
+    };
+    if (newIndex < 0 || newIndex >= (editedRecipe[list] as any[]).length) return;
+    handleFieldChange(list, swap(editedRecipe[list] as any[]));
+    if (list === 'instructions') {
+      handleFieldChange('instructionSections', swap(stepSections));
+    }
   };
 
   const handleAddImage = () => {
@@ -58,6 +87,22 @@ const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClo
       }
   };
 
+  const handleAddTag = () => {
+      const name = normalizeTagName(newTag);
+      const tags = editedRecipe.tags ?? [];
+      if (name && !tags.some(tag => tag.name === name)) {
+          // Reuse the existing tag so it keeps its kind
+          const existing = availableTags.find(tag => tag.name === name);
+          handleFieldChange('tags', [...tags, existing ?? { id: '', name, kind: 'tag' }]);
+      }
+      setNewTag('');
+  };
+
+  const handleNutritionChange = (key: NutrientKey, value: string) => {
+      const current: NutritionInput = editedRecipe.nutrition ?? emptyNutrition();
+      handleFieldChange('nutrition', { ...current, [key]: value === '' ? null : Number(value) });
+  };
+
   const handleGenerateImage = async () => {
     setIsGeneratingImage(true);
     try {
@@ -90,7 +135,7 @@ const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClo
   }
 
   const handleSave = () => {
-    onSave(editedRecipe);
+    onSave({ ...editedRecipe, instructionSections: hasSections(stepSections) ? stepSections : undefined });
   };
 
   return (
@@ -123,11 +168,64 @@ const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClo
                   <input type="url" id="sourceUrl" value={editedRecipe.sourceUrl || ''} onChange={e => handleFieldChange('sourceUrl', e.target.value)} className="block w-full" placeholder="https://..." />
               </div>
             </div>
+            <div className="grid grid-cols-3 gap-3">
+              {([['prepTime', 'Prep (min)'], ['cookTime', 'Cook (min)'], ['totalTime', 'Total (min)']] as const).map(([field, label]) => (
+                <div key={field}>
+                    <label htmlFor={field} className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">{label}</label>
+                    <input type="number" id={field} value={editedRecipe[field] ?? ''} onChange={e => handleFieldChange(field, e.target.value ? Number(e.target.value) : null)} min="0" className="block w-full" />
+                </div>
+              ))}
+            </div>
             <div>
                 <label htmlFor="notes" className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Your Notes</label>
                 <textarea id="notes" rows={3} value={editedRecipe.notes || ''} onChange={e => handleFieldChange('notes', e.target.value)} className="block w-full" placeholder="e.g., 'Tried with almonds instead of walnuts, was great!'" />
             </div>
 
+            {/* Tags */}
+            <div>
+                <label htmlFor="newTag" className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Tags</label>
+                {(editedRecipe.tags ?? []).length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mb-2">
+                        {(editedRecipe.tags ?? []).map(tag => (
+                            <TagBadge
+                                key={tag.name}
+                                tag={tag}
+                                onRemove={() => handleFieldChange('tags', (editedRecipe.tags ?? []).filter(t => t.name !== tag.name))}
+                            />
+                        ))}
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        id="newTag"
+                        list="tag-suggestions"
+                        value={newTag}
+                        onChange={e => setNewTag(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddTag(); } }}
+                        placeholder="e.g. dessert, italian, vegetarian"
+                        className="flex-grow block w-full"
+                    />
+                    <datalist id="tag-suggestions">
+                        {availableTags.map(tag => <option key={tag.id} value={tag.name} />)}
+                    </datalist>
+                    <button onClick={handleAddTag} className="px-3 py-1.5 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 text-xs sm:text-sm font-medium">Add</button>
+                </div>
+            </div>
+
+            {/* Nutrition */}
+            <div>
+                <h3 className="text-sm sm:text-base font-semibold text-gray-800 mb-2">Nutrition per serving</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {NUTRIENTS.map(({ key, label, unit }) => (
+                        <div key={key}>
+                            <label htmlFor={`nutrition-${key}`} className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">{label} ({unit})</label>
+                            <input type="number" id={`nutrition-${key}`} value={editedRecipe.nutrition?.[key] ?? ''} onChange={e => handleNutritionChange(key, e.target.value)} min="0" step="any" className="block w-full" />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
             {/* Image Gallery */}
             <div>
                 <h3 className="text-sm sm:text-base font-semibold text-gray-800 mb-2">Image Gallery</h3>
@@ -166,12 +264,18 @@ const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClo
 
             {/* Ingredients */}
             <div>
-                <h3 className="text-sm sm:text-base font-semibold text-gray-800 mb-2">Ingredients</h3>
+                <h3 className="text-sm sm:text-base font-semibold text-gray-800 mb-1">Ingredients</h3>
+                <p className="text-xs text-gray-500 mb-2">Give ingredients a section, such as &quot;For the frosting&quot;, to list them under that heading.</p>
+                <datalist id="ingredient-sections">
+                    {ingredientSectionNames.map(name => <option key={name} value={name ?? ''} />)}
+                </datalist>
                 <div className="space-y-1.5">
                     {editedRecipe.ingredients.map((ing, i) => (
                         <div key={i} className="flex items-center gap-1.5">
-                            <input type="text" value={ing.quantity} onChange={e => handleDynamicChange('ingredients', i, e.target.value, 'quantity')} placeholder="Qty" className="block w-1/3"/>
-                            <input type="text" value={ing.name} onChange={e => handleDynamicChange('ingredients', i, e.target.value, 'name')} placeholder="Name" className="block flex-1"/>
+                            <input type="text" list="ingredient-sections" value={ing.section || ''} onChange={e => handleDynamicChange('ingredients', i, e.target.value, 'section')} placeholder="Section" aria-label="Section" className="block w-1/5 min-w-0"/>
+                            <input type="text" value={ing.quantity} onChange={e => handleDynamicChange('ingredients', i, e.target.value, 'quantity')} placeholder="Qty" className="block w-1/4 min-w-0"/>
+                            <input type="text" value={ing.name} onChange={e => handleDynamicChange('ingredients', i, e.target.value, 'name')} placeholder="Name" className="block flex-1 min-w-0"/>
+                            <input type="text" value={ing.preparation || ''} onChange={e => handleDynamicChange('ingredients', i, e.target.value, 'preparation')} placeholder="Preparation" className="block w-1/4 min-w-0"/>
                             <div className="flex gap-0.5">
                               <button onClick={() => handleMoveItem('ingredients', i, 'up')} disabled={i===0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ArrowUpIcon className="w-3.5 h-3.5" /></button>
                               <button onClick={() => handleMoveItem('ingredients', i, 'down')} disabled={i===editedRecipe.ingredients.length-1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ArrowDownIcon className="w-3.5 h-3.5" /></button>
@@ -186,11 +290,17 @@ const EditRecipeModal: React.FC<EditRecipeModalProps> = ({ recipe, isOpen, onClo
             {/* Instructions */}
             <div>
                 <h3 className="text-sm sm:text-base font-semibold text-gray-800 mb-2">Instructions</h3>
+                <datalist id="step-sections">
+                    {stepSectionNames.map(name => <option key={name} value={name ?? ''} />)}
+                </datalist>
                 <div className="space-y-1.5">
                      {editedRecipe.instructions.map((step, i) => (
                         <div key={i} className="flex items-start gap-1.5">
                             <span className="pt-2 text-xs font-semibold text-gray-500 w-5">{i+1}.</span>
-                            <textarea rows={2} value={typeof step === 'string' ? step : step.text} onChange={e => handleDynamicChange('instructions', i, e.target.value)} className="flex-1 block w-full"/>
+                            <div className="flex-1 flex flex-col gap-1 min-w-0">
+                              <input type="text" list="step-sections" value={stepSections[i] || ''} onChange={e => handleStepSectionChange(i, e.target.value)} placeholder="Section (optional)" aria-label="Section" className="block w-full sm:w-1/2"/>
+                              <textarea rows={2} value={typeof step === 'string' ? step : step.text} onChange={e => handleDynamicChange('instructions', i, e.target.value)} className="block w-full"/>
+                            </div>
                             <div className="flex flex-col gap-0.5">
                               <button onClick={() => handleMoveItem('instructions', i, 'up')} disabled={i===0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ArrowUpIcon className="w-3.5 h-3.5" /></button>
                               <button onClick={() => handleMoveItem('instructions', i, 'down')} disabled={i===editedRecipe.instructions.length-1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ArrowDownIcon className="w-3.5 h-3.5" /></button>
@@ -0,0 +1,14 @@
+'use client';
+
+import React from 'react';
+
+const PrintButton: React.FC = () => (
+  <button
+    onClick={() => window.print()}
+    className="px-3 py-1.5 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 transition-colors shadow-sm"
+  >
+    Print
+  </button>
+);
+
+export default PrintButton;
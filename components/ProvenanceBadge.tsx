@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { ProvenanceMethod, RecipeProvenance } from '@/types';
+import { AI_WRITTEN_METHODS, needsReview } from '@/lib/extraction-provenance';
+
+interface ProvenanceBadgeProps {
+  provenance: RecipeProvenance;
+  onMarkReviewed: () => void;
+}
+
+const methodLabels: Record<ProvenanceMethod, { label: string; description: string }> = {
+  'site': { label: 'From the page', description: 'Read from the page by the extractor written for this site.' },
+  'json-ld': { label: 'From the page', description: "Read from the page's JSON-LD recipe markup." },
+  'microdata': { label: 'From the page', description: "Read from the page's microdata or RDFa recipe markup." },
+  'ai-page': { label: 'AI from the page', description: 'Written by the AI from the text of the page, which had no recipe markup.' },
+  'ai-search': { label: 'AI-invented', description: 'Written by the AI from a web search, because the page could not be read. It may not match the page.' },
+  'youtube': { label: 'AI from video', description: "Written by the AI from the video's transcript." },
+  'image': { label: 'AI-invented', description: 'Made up by the AI from a photo of the dish.' },
+};
+
+const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ provenance, onMarkReviewed }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const method = methodLabels[provenance.method];
+  // Provenance saved before it was validated may name no known method
+  if (!method) return null;
+
+  const flagged = needsReview(provenance);
+  const colour = flagged
+    ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+    : AI_WRITTEN_METHODS.includes(provenance.method)
+      ? 'bg-sky-50 text-sky-800 hover:bg-sky-100'
+      : 'bg-emerald-50 text-emerald-800 hover:bg-emerald-100';
+  const totalMs = provenance.timings.reduce((total, timing) => total + timing.ms, 0);
+
+  return (
+    <div className="mt-2 text-xs sm:text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors ${colour}`}
+      >
+        {flagged && <span aria-hidden="true">⚠</span>}
+        {method.label}{flagged && ' · needs review'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-1.5 text-gray-600">
+          <p>{method.description}</p>
+          {provenance.parsedFields.length > 0 && (
+            <p><span className="font-medium text-gray-800">From the page:</span> {provenance.parsedFields.join(', ')}</p>
+          )}
+          {provenance.aiFields.length > 0 && (
+            <p><span className="font-medium text-gray-800">Written by AI:</span> {provenance.aiFields.join(', ')}</p>
+          )}
+          {provenance.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-amber-800">
+              {provenance.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">
+            {provenance.models.length > 0 ? `Models: ${provenance.models.join(', ')} · ` : ''}
+            {provenance.cachedAt
+              ? `Page read ${new Date(provenance.cachedAt).toLocaleDateString()} (cached)`
+              : `Generated in ${(totalMs / 1000).toFixed(1)}s`}
+            {provenance.reviewedAt && ` · Reviewed ${new Date(provenance.reviewedAt).toLocaleDateString()}`}
+          </p>
+          {flagged && (
+            <button
+              type="button"
+              onClick={onMarkReviewed}
+              className="px-3 py-1 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Mark as reviewed
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProvenanceBadge;
@@ -1,14 +1,19 @@
 'use client';
 
-import React, { useState, useMemo, useEffect } from 'react';
-import type { Recipe, AppView, Ingredient, ShoppingListItem, Instruction } from '@/types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { Recipe, AppView, ShoppingListItem, Instruction, ShoppingList as ShoppingListRecord, Store, IngredientCategoryMapping, Tag } from '@/types';
+import { canonicalIngredientName } from '@/lib/grocery-categories';
+import { hasSections } from '@/lib/recipe-sections';
 import { ChefHatIcon, BookOpenIcon, ShoppingCartIcon, PlusIcon } from './icons';
 import Spinner from './Spinner';
 import CookingAssistant from './CookingAssistant';
 import EditRecipeModal from './EditRecipeModal';
+import RevisionHistoryModal from './RevisionHistoryModal';
 import AddRecipeModal from './AddRecipeModal';
+import CookbookModal from './CookbookModal';
+import DuplicatesModal from './DuplicatesModal';
 import RecipeDetail from './RecipeDetail';
-import RecipeList from './RecipeList';
+import RecipeList, { EMPTY_RECIPE_FILTERS, type RecipeFilters } from './RecipeList';
 import ShoppingList from './ShoppingList';
 
 const Header: React.FC<{
@@ -55,13 +60,36 @@ const Header: React.FC<{
   </header>
 );
 
+// Convert an API recipe into the shape the components use
+const formatRecipe = (recipe: any): Recipe => {
+  const instructions: Instruction[] = [...recipe.instructions].sort((a: Instruction, b: Instruction) => a.step - b.step);
+  const instructionSections = instructions.map(inst => inst.section ?? null);
+  return {
+    ...recipe,
+    instructions: instructions.map(inst => inst.text),
+    instructionSections: hasSections(instructionSections) ? instructionSections : undefined,
+    description: recipe.description || '',
+    notes: recipe.notes || '',
+  };
+};
+
 export default function RecipeApp() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [recipeFilters, setRecipeFilters] = useState<RecipeFilters>(EMPTY_RECIPE_FILTERS);
+  const [recipesCursor, setRecipesCursor] = useState<string | null>(null);
+  const [isLoadingRecipes, setIsLoadingRecipes] = useState(false);
+  const recipesRequestRef = useRef(0);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [currentView, setCurrentView] = useState<AppView>('list');
   const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
-  const [shoppingList, setShoppingList] = useState<ShoppingListItem[]>([]);
+  const [shoppingList, setShoppingList] = useState<ShoppingListRecord | null>(null);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<string, string>>({});
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [historyRecipe, setHistoryRecipe] = useState<Recipe | null>(null);
+  const [isCookbookOpen, setIsCookbookOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
   const [isLoading, setIsLoading] = useState<{ active: boolean, message: string }>({
     active: false,
     message: ''
@@ -72,29 +100,77 @@ export default function RecipeApp() {
   const addLog = (log: string) => setLiveLogs(prev => [...prev, log]);
   const clearLogs = () => setLiveLogs([]);
 
-  // Fetch recipes on mount
+  // Fetch tags and the shopping list on mount
   useEffect(() => {
-    fetchRecipes();
+    fetchTags();
+    fetchShoppingList();
+    fetchStores();
+    fetchCategoryOverrides();
   }, []);
 
-  const fetchRecipes = async () => {
+  // Fetch the first page of recipes whenever the search or filters change
+  useEffect(() => {
+    fetchRecipes(recipeFilters);
+  }, [recipeFilters]);
+
+  const fetchRecipes = async (filters: RecipeFilters, cursor: string | null = null) => {
+    // Only the latest request may update the list, so slow responses for an
+    // outdated search cannot overwrite newer results
+    const requestId = ++recipesRequestRef.current;
+    const params = new URLSearchParams();
+    if (filters.query) params.set('q', filters.query);
+    filters.include.forEach(name => params.append('include', name));
+    filters.exclude.forEach(name => params.append('exclude', name));
+    filters.tags.forEach(name => params.append('tag', name));
+    if (filters.maxTime) params.set('maxTime', String(filters.maxTime));
+    if (filters.sort) params.set('sort', filters.sort);
+    if (cursor) params.set('cursor', cursor);
+
+    setIsLoadingRecipes(true);
     try {
-      const response = await fetch('/api/recipes');
-      if (response.ok) {
-        const data = await response.json();
-        // Convert instructions to array of strings
-        const formattedRecipes = data.map((recipe: any) => ({
-          ...recipe,
-          instructions: recipe.instructions
-            .sort((a: Instruction, b: Instruction) => a.step - b.step)
-            .map((inst: Instruction) => inst.text),
-          description: recipe.description || '',
-          notes: recipe.notes || '',
-        }));
-        setRecipes(formattedRecipes);
+      const response = await fetch(`/api/recipes?${params}`);
+      if (response.ok && requestId === recipesRequestRef.current) {
+        const data: { recipes: any[]; nextCursor: string | null } = await response.json();
+        const page = data.recipes.map(formatRecipe);
+        setRecipes(prev => cursor ? [...prev, ...page] : page);
+        setRecipesCursor(data.nextCursor);
       }
     } catch (error) {
       console.error('Error fetching recipes:', error);
+    } finally {
+      if (requestId === recipesRequestRef.current) setIsLoadingRecipes(false);
+    }
+  };
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch('/api/tags');
+      if (response.ok) {
+        setTags(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const fetchShoppingList = async () => {
+    try {
+      const response = await fetch('/api/shopping-lists');
+      if (!response.ok) return;
+
+      const lists: ShoppingListRecord[] = await response.json();
+      if (lists.length > 0) {
+        setShoppingList(lists[0]);
+        return;
+      }
+
+      // First visit: create the default list
+      const createResponse = await fetch('/api/shopping-lists', { method: 'POST' });
+      if (createResponse.ok) {
+        setShoppingList(await createResponse.json());
+      }
+    } catch (error) {
+      console.error('Error fetching shopping list:', error);
     }
   };
 
@@ -113,7 +189,8 @@ export default function RecipeApp() {
     setCurrentView(view);
   };
 
-  const handleAddRecipe = async (newRecipe: Partial<Recipe>) => {
+  // ignoreDuplicates saves the recipe even when similar recipes are already in the library
+  const handleAddRecipe = async (newRecipe: Partial<Recipe>, ignoreDuplicates = false) => {
     try {
       const response = await fetch('/api/recipes', {
         method: 'POST',
@@ -122,18 +199,36 @@ export default function RecipeApp() {
           title: newRecipe.title || 'Untitled Recipe',
           description: newRecipe.description || '',
           servings: newRecipe.servings || 1,
+          prepTime: newRecipe.prepTime ?? null,
+          cookTime: newRecipe.cookTime ?? null,
+          totalTime: newRecipe.totalTime ?? null,
           ingredients: newRecipe.ingredients || [],
           instructions: newRecipe.instructions || [],
+          instructionSections: newRecipe.instructionSections,
           imageUrls: newRecipe.imageUrls || [],
           notes: newRecipe.notes || '',
           sourceUrl: newRecipe.sourceUrl || '',
+          tags: newRecipe.tags || [],
+          nutrition: newRecipe.nutrition ?? null,
+          provenanceToken: newRecipe.provenanceToken,
+          ignoreDuplicates,
         }),
       });
 
+      if (response.status === 409) {
+        const { duplicates } = await response.json();
+        const titles = (duplicates as { title: string }[]).map(d => `"${d.title}"`).join(', ');
+        if (confirm(`This looks like a recipe you already have: ${titles}. Save it anyway?`)) {
+          await handleAddRecipe(newRecipe, true);
+        }
+        return;
+      }
+
       if (response.ok) {
-        await fetchRecipes();
+        const createdRecipe = formatRecipe(await response.json());
+        setRecipes(prev => [createdRecipe, ...prev]);
+        fetchTags();
         setIsAddModalOpen(false);
-        const createdRecipe = await response.json();
         handleSelectRecipe(createdRecipe.id);
       }
     } catch (error) {
@@ -142,6 +237,68 @@ export default function RecipeApp() {
     }
   };
 
+  // Fetch a recipe that may not be in the loaded page of the list, adding it there
+  const loadRecipe = async (id: string): Promise<Recipe | null> => {
+    const loaded = recipes.find(r => r.id === id);
+    if (loaded) return loaded;
+
+    const response = await fetch(`/api/recipes/${id}`);
+    if (!response.ok) return null;
+    const recipe = formatRecipe(await response.json());
+    setRecipes(prev => prev.some(r => r.id === id) ? prev : [recipe, ...prev]);
+    return recipe;
+  };
+
+  const handleOpenExistingRecipe = async (id: string) => {
+    try {
+      if (await loadRecipe(id)) {
+        setIsAddModalOpen(false);
+        clearLogs();
+        handleSelectRecipe(id);
+      } else {
+        alert('Recipe not found');
+      }
+    } catch (error) {
+      console.error('Error opening recipe:', error);
+      alert('Failed to open recipe');
+    }
+  };
+
+  // Replace what was read from the source page, keeping the notes and photos
+  const handleRefreshRecipe = async (id: string, refreshed: Partial<Recipe>) => {
+    try {
+      const existing = await loadRecipe(id);
+      if (!existing) {
+        alert('Recipe not found');
+        return;
+      }
+
+      await handleSaveRecipe({
+        ...existing,
+        title: refreshed.title || existing.title,
+        description: refreshed.description ?? existing.description,
+        servings: refreshed.servings || existing.servings,
+        prepTime: refreshed.prepTime ?? existing.prepTime,
+        cookTime: refreshed.cookTime ?? existing.cookTime,
+        totalTime: refreshed.totalTime ?? existing.totalTime,
+        ingredients: refreshed.ingredients?.length ? refreshed.ingredients : existing.ingredients,
+        instructions: refreshed.instructions?.length ? refreshed.instructions : existing.instructions,
+        instructionSections: refreshed.instructions?.length ? refreshed.instructionSections : existing.instructionSections,
+        imageUrls: existing.imageUrls.length > 0 ? existing.imageUrls : refreshed.imageUrls || [],
+        sourceUrl: refreshed.sourceUrl || existing.sourceUrl,
+        tags: refreshed.tags?.length ? refreshed.tags : existing.tags,
+        nutrition: refreshed.nutrition ?? existing.nutrition,
+        provenanceToken: refreshed.provenanceToken,
+      });
+      setIsAddModalOpen(false);
+      clearLogs();
+      handleSelectRecipe(id);
+    } catch (error) {
+      console.error('Error refreshing recipe:', error);
+      alert('Failed to refresh recipe');
+    }
+  };
+
   const handleSaveRecipe = async (updatedRecipe: Recipe) => {
     try {
       const response = await fetch(`/api/recipes/${updatedRecipe.id}`, {
@@ -151,16 +308,25 @@ export default function RecipeApp() {
           title: updatedRecipe.title,
           description: updatedRecipe.description || '',
           servings: updatedRecipe.servings,
+          prepTime: updatedRecipe.prepTime ?? null,
+          cookTime: updatedRecipe.cookTime ?? null,
+          totalTime: updatedRecipe.totalTime ?? null,
           ingredients: updatedRecipe.ingredients,
           instructions: updatedRecipe.instructions,
+          instructionSections: updatedRecipe.instructionSections,
           imageUrls: updatedRecipe.imageUrls,
           notes: updatedRecipe.notes || '',
           sourceUrl: updatedRecipe.sourceUrl || '',
+          tags: updatedRecipe.tags || [],
+          nutrition: updatedRecipe.nutrition ?? null,
+          provenanceToken: updatedRecipe.provenanceToken,
         }),
       });
 
       if (response.ok) {
-        await fetchRecipes();
+        const savedRecipe = formatRecipe(await response.json());
+        setRecipes(prev => prev.map(r => r.id === savedRecipe.id ? savedRecipe : r));
+        fetchTags();
         setEditingRecipe(null);
       }
     } catch (error) {
@@ -169,6 +335,40 @@ export default function RecipeApp() {
     }
   };
 
+  const handleMarkReviewed = async (recipe: Recipe) => {
+    try {
+      const response = await fetch(`/api/recipes/${recipe.id}/review`, { method: 'POST' });
+
+      if (response.ok) {
+        const reviewedRecipe = formatRecipe(await response.json());
+        setRecipes(prev => prev.map(r => r.id === reviewedRecipe.id ? reviewedRecipe : r));
+      }
+    } catch (error) {
+      console.error('Error marking recipe as reviewed:', error);
+      alert('Failed to mark recipe as reviewed');
+    }
+  };
+
+  const handleRestoreRevision = async (recipeId: string, revisionId: string) => {
+    try {
+      const response = await fetch(`/api/recipes/${recipeId}/revisions/${revisionId}/restore`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        const restoredRecipe = formatRecipe(await response.json());
+        setRecipes(prev => prev.map(r => r.id === restoredRecipe.id ? restoredRecipe : r));
+        fetchTags();
+        setHistoryRecipe(null);
+      } else {
+        alert('Failed to restore revision');
+      }
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      alert('Failed to restore revision');
+    }
+  };
+
   const handleDeleteRecipe = async (id: string) => {
     try {
       const response = await fetch(`/api/recipes/${id}`, {
@@ -176,7 +376,8 @@ export default function RecipeApp() {
       });
 
       if (response.ok) {
-        await fetchRecipes();
+        setRecipes(prev => prev.filter(r => r.id !== id));
+        fetchTags();
         handleViewChange('list');
       }
     } catch (error) {
@@ -185,41 +386,198 @@ export default function RecipeApp() {
     }
   };
 
+  const addShoppingListItems = async (body: object): Promise<ShoppingListItem[] | null> => {
+    if (!shoppingList) return null;
+
+    const response = await fetch(`/api/shopping-lists/${shoppingList.id}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) return null;
+
+    const { items } = await response.json();
+    setShoppingList(prev => prev ? { ...prev, items: [...prev.items, ...items] } : prev);
+    return items;
+  };
+
   const handleAddToShoppingList = async (recipe: Recipe, servings: number) => {
     setIsLoading({ active: true, message: `Adjusting ingredients for ${servings} servings...` });
 
-    let ingredientsToAdd: Ingredient[] = recipe.ingredients;
-
-    if (servings !== recipe.servings) {
-      try {
-        const response = await fetch(`/api/recipes/${recipe.id}/adjust-servings`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ newServings: servings }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          ingredientsToAdd = data.ingredients;
-        } else {
-          alert("Could not adjust ingredients. Adding original amounts.");
-        }
-      } catch (error) {
-        console.error('Error adjusting ingredients:', error);
-        alert("Could not adjust ingredients. Adding original amounts.");
+    try {
+      const items = await addShoppingListItems({ recipeId: recipe.id, servings });
+      if (items) {
+        alert(`${items.length} items added to your shopping list!`);
+        setCurrentView('shoppingList');
+      } else {
+        alert('Failed to add items to your shopping list');
+      }
+    } catch (error) {
+      console.error('Error adding to shopping list:', error);
+      alert('Failed to add items to your shopping list');
+    } finally {
+      setIsLoading({ active: false, message: '' });
+    }
+  };
+
+  const handleAddShoppingListItem = async (name: string, quantity: string) => {
+    try {
+      const items = await addShoppingListItems({ name, quantity });
+      if (!items) alert('Failed to add item');
+    } catch (error) {
+      console.error('Error adding shopping list item:', error);
+      alert('Failed to add item');
+    }
+  };
+
+  const fetchStores = async () => {
+    try {
+      const response = await fetch('/api/stores');
+      if (response.ok) {
+        setStores(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+    }
+  };
+
+  const fetchCategoryOverrides = async () => {
+    try {
+      const response = await fetch('/api/ingredient-categories');
+      if (response.ok) {
+        const { mappings }: { mappings: IngredientCategoryMapping[] } = await response.json();
+        setCategoryOverrides(Object.fromEntries(mappings.map(m => [m.name, m.category])));
+      }
+    } catch (error) {
+      console.error('Error fetching ingredient categories:', error);
+    }
+  };
+
+  const handleSetShoppingItemsChecked = async (items: ShoppingListItem[], checked: boolean) => {
+    if (!shoppingList) return;
+    const itemIds = items.map(item => item.id);
+    const previous = new Map(items.map(item => [item.id, item.checked]));
+    const setChecked = (value: (id: string) => boolean) => setShoppingList(prev => prev ? {
+      ...prev,
+      items: prev.items.map(i => previous.has(i.id) ? { ...i, checked: value(i.id) } : i),
+    } : prev);
+    const revert = () => setChecked(id => previous.get(id) ?? false);
+
+    // Update optimistically so ticking items off in the store feels instant
+    setChecked(() => checked);
+    try {
+      const response = await fetch(`/api/shopping-lists/${shoppingList.id}/items`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemIds, checked }),
+      });
+      if (!response.ok) revert();
+    } catch (error) {
+      console.error('Error updating shopping list items:', error);
+      revert();
+    }
+  };
+
+  const handleSelectStore = async (storeId: string | null) => {
+    if (!shoppingList) return;
+    try {
+      const response = await fetch(`/api/shopping-lists/${shoppingList.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeId }),
+      });
+
+      if (response.ok) {
+        const { store }: ShoppingListRecord = await response.json();
+        setShoppingList(prev => prev ? { ...prev, storeId, store } : prev);
       }
+    } catch (error) {
+      console.error('Error selecting store:', error);
+      alert('Failed to select store');
     }
+  };
 
-    const newItems: ShoppingListItem[] = ingredientsToAdd.map(ing => ({
-      name: ing.name,
-      quantity: ing.quantity,
-      recipeTitle: recipe.title
-    }));
+  const handleCreateStore = async (name: string) => {
+    try {
+      const response = await fetch('/api/stores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) throw new Error('Failed to create store');
 
-    setShoppingList(prev => [...prev, ...newItems]);
-    alert(`${newItems.length} items added to your shopping list!`);
-    setIsLoading({ active: false, message: '' });
-    setCurrentView('shoppingList');
+      const store: Store = await response.json();
+      setStores(prev => [...prev, store].sort((a, b) => a.name.localeCompare(b.name)));
+      await handleSelectStore(store.id);
+    } catch (error) {
+      console.error('Error creating store:', error);
+      alert('Failed to create store');
+    }
+  };
+
+  const handleUpdateAisleOrder = async (store: Store, aisleOrder: string[]) => {
+    const applyStore = (updated: Store) => {
+      setStores(prev => prev.map(s => s.id === updated.id ? updated : s));
+      setShoppingList(prev => prev && prev.storeId === updated.id ? { ...prev, store: updated } : prev);
+    };
+
+    applyStore({ ...store, aisleOrder });
+    try {
+      const response = await fetch(`/api/stores/${store.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aisleOrder }),
+      });
+      if (!response.ok) applyStore(store);
+    } catch (error) {
+      console.error('Error updating aisle order:', error);
+      applyStore(store);
+    }
+  };
+
+  const handleSetIngredientCategory = async (name: string, category: string) => {
+    const key = canonicalIngredientName(name);
+    const previous = categoryOverrides[key];
+    const applyCategory = (value: string | undefined) => setCategoryOverrides(prev => {
+      const next = { ...prev };
+      if (value) next[key] = value;
+      else delete next[key];
+      return next;
+    });
+
+    applyCategory(category);
+    try {
+      const response = await fetch('/api/ingredient-categories', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, category }),
+      });
+      if (!response.ok) applyCategory(previous);
+    } catch (error) {
+      console.error('Error updating ingredient category:', error);
+      applyCategory(previous);
+    }
+  };
+
+  const handleClearShoppingList = async (checkedOnly: boolean) => {
+    if (!shoppingList) return;
+    try {
+      const response = await fetch(
+        `/api/shopping-lists/${shoppingList.id}/items${checkedOnly ? '?checked=true' : ''}`,
+        { method: 'DELETE' }
+      );
+
+      if (response.ok) {
+        setShoppingList(prev => prev ? {
+          ...prev,
+          items: checkedOnly ? prev.items.filter(i => !i.checked) : [],
+        } : prev);
+      }
+    } catch (error) {
+      console.error('Error clearing shopping list:', error);
+      alert('Failed to clear shopping list');
+    }
   };
 
   const renderContent = () => {
@@ -232,18 +590,43 @@ export default function RecipeApp() {
             onAddToShoppingList={handleAddToShoppingList}
             onStartAssistant={setAssistantRecipe}
             onEdit={() => setEditingRecipe(selectedRecipe)}
+            onShowHistory={() => setHistoryRecipe(selectedRecipe)}
             onDelete={handleDeleteRecipe}
+            onMarkReviewed={handleMarkReviewed}
           />
         ) : null;
       case 'shoppingList':
-        return <ShoppingList list={shoppingList} onClear={() => setShoppingList([])} />;
+        return (
+          <ShoppingList
+            list={shoppingList?.items ?? []}
+            stores={stores}
+            selectedStore={shoppingList?.store ?? null}
+            categoryOverrides={categoryOverrides}
+            onSetItemsChecked={handleSetShoppingItemsChecked}
+            onAddItem={handleAddShoppingListItem}
+            onClearChecked={() => handleClearShoppingList(true)}
+            onClear={() => handleClearShoppingList(false)}
+            onSelectStore={handleSelectStore}
+            onCreateStore={handleCreateStore}
+            onUpdateAisleOrder={handleUpdateAisleOrder}
+            onSetCategory={handleSetIngredientCategory}
+          />
+        );
       case 'list':
       default:
         return (
           <RecipeList
             recipes={recipes}
+            tags={tags}
+            filters={recipeFilters}
+            hasMore={recipesCursor !== null}
+            isLoading={isLoadingRecipes}
+            onFiltersChange={setRecipeFilters}
+            onLoadMore={() => fetchRecipes(recipeFilters, recipesCursor)}
             onSelectRecipe={handleSelectRecipe}
             onOpenModal={() => setIsAddModalOpen(true)}
+            onOpenCookbook={() => setIsCookbookOpen(true)}
+            onOpenDuplicates={() => setIsDuplicatesOpen(true)}
           />
         );
     }
@@ -254,7 +637,7 @@ export default function RecipeApp() {
       <Header
         activeView={currentView}
         onViewChange={handleViewChange}
-        shoppingListCount={shoppingList.length}
+        shoppingListCount={shoppingList?.items.filter(item => !item.checked).length ?? 0}
       />
 
       <main>
@@ -265,6 +648,12 @@ export default function RecipeApp() {
         isOpen={isAddModalOpen}
         onClose={() => setIsAddModalOpen(false)}
         onAddRecipe={handleAddRecipe}
+        onImported={() => {
+          fetchRecipes(recipeFilters);
+          fetchTags();
+        }}
+        onOpenRecipe={handleOpenExistingRecipe}
+        onRefreshRecipe={handleRefreshRecipe}
         liveLogs={liveLogs}
         addLog={addLog}
         clearLogs={clearLogs}
@@ -274,11 +663,37 @@ export default function RecipeApp() {
         <EditRecipeModal
           isOpen={!!editingRecipe}
           recipe={editingRecipe}
+          availableTags={tags}
           onClose={() => setEditingRecipe(null)}
           onSave={handleSaveRecipe}
         />
       )}
 
+      {historyRecipe && (
+        <RevisionHistoryModal
+          recipe={historyRecipe}
+          onClose={() => setHistoryRecipe(null)}
+          onRestore={(revisionId) => handleRestoreRevision(historyRecipe.id, revisionId)}
+        />
+      )}
+
+      {isCookbookOpen && (
+        <CookbookModal
+          recipes={recipes}
+          onClose={() => setIsCookbookOpen(false)}
+        />
+      )}
+
+      {isDuplicatesOpen && (
+        <DuplicatesModal
+          onClose={() => setIsDuplicatesOpen(false)}
+          onMerged={() => {
+            fetchRecipes(recipeFilters);
+            fetchTags();
+          }}
+        />
+      )}
+
       {assistantRecipe && (
         <CookingAssistant
           recipe={assistantRecipe}
@@ -1,18 +1,35 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import type { Recipe } from '@/types';
-import { MicrophoneIcon, SpeakerWaveIcon, PencilIcon, TrashIcon } from './icons';
+import type { UnitSystem } from '@/lib/units';
+import { convertIngredients, convertTemperatures } from '@/lib/unit-conversion';
+import { formatMinutes } from '@/lib/durations';
+import { groupIntoSections } from '@/lib/recipe-sections';
+import { NUTRIENTS, formatNutrient, hasNutrition, scaleNutrition } from '@/lib/nutrition';
+import { MicrophoneIcon, SpeakerWaveIcon, PencilIcon, TrashIcon, ClockIcon } from './icons';
+import TagBadge from './TagBadge';
+import ProvenanceBadge from './ProvenanceBadge';
 
 const placeholderImage = (id: string) => `https://picsum.photos/seed/${id}/600/400`;
 
+type UnitView = 'original' | UnitSystem;
+
+const unitViewOptions: { id: UnitView; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'us', label: 'US' },
+  { id: 'metric', label: 'Metric' },
+];
+
 interface RecipeDetailProps {
   recipe: Recipe;
   onBack: () => void;
   onAddToShoppingList: (recipe: Recipe, servings: number) => Promise<void>;
   onStartAssistant: (recipe: Recipe) => void;
   onEdit: (id: string) => void;
+  onShowHistory: (id: string) => void;
   onDelete: (id: string) => void;
+  onMarkReviewed: (recipe: Recipe) => void;
 }
 
 export default function RecipeDetail({
@@ -21,10 +38,13 @@ export default function RecipeDetail({
   onAddToShoppingList,
   onStartAssistant,
   onEdit,
+  onShowHistory,
   onDelete,
+  onMarkReviewed,
 }: RecipeDetailProps) {
   const [servings, setServings] = useState(recipe.servings);
   const [isAdding, setIsAdding] = useState(false);
+  const [unitView, setUnitView] = useState<UnitView>('original');
   const audioRef = useRef<{ ctx: AudioContext, source: AudioBufferSourceNode } | null>(null);
 
   const handlePlayAudio = async (text: string) => {
@@ -72,6 +92,19 @@ export default function RecipeDetail({
     }
   };
 
+  const displayedIngredients = useMemo(
+    () => (unitView === 'original' ? recipe.ingredients : convertIngredients(recipe.ingredients, unitView)),
+    [recipe.ingredients, unitView]
+  );
+  const ingredientSections = groupIntoSections(displayedIngredients, ing => ing.section);
+  const instructionSections = groupIntoSections(recipe.instructions, (_, i) => recipe.instructionSections?.[i]);
+
+  // Nutrition is stored per serving; totals follow the servings being cooked
+  const nutritionTotals = useMemo(
+    () => (hasNutrition(recipe.nutrition) ? scaleNutrition(recipe.nutrition, servings > 0 ? servings : 0) : null),
+    [recipe.nutrition, servings]
+  );
+
   const handleAddToShoppingList = async () => {
     setIsAdding(true);
     await onAddToShoppingList(recipe, servings);
@@ -117,6 +150,23 @@ export default function RecipeDetail({
                 {recipe.title}
               </h1>
               <p className="mt-1.5 text-sm sm:text-base text-gray-600">{recipe.description}</p>
+              {(recipe.prepTime || recipe.cookTime || recipe.totalTime) && (
+                <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-600">
+                  {recipe.prepTime && <span><span className="font-medium text-gray-800">Prep</span> {formatMinutes(recipe.prepTime)}</span>}
+                  {recipe.cookTime && <span><span className="font-medium text-gray-800">Cook</span> {formatMinutes(recipe.cookTime)}</span>}
+                  {recipe.totalTime && <span><span className="font-medium text-gray-800">Total</span> {formatMinutes(recipe.totalTime)}</span>}
+                </div>
+              )}
+              {recipe.tags && recipe.tags.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {recipe.tags.map(tag => (
+                    <TagBadge key={tag.name} tag={tag} />
+                  ))}
+                </div>
+              )}
+              {recipe.provenance && (
+                <ProvenanceBadge provenance={recipe.provenance} onMarkReviewed={() => onMarkReviewed(recipe)} />
+              )}
               {(recipe.sourceUrl || recipe.createdAt) && (
                 <div className="mt-2 space-y-0.5 text-xs sm:text-sm text-gray-500">
                   {recipe.createdAt && (
@@ -136,8 +186,61 @@ export default function RecipeDetail({
                       </a>
                     </div>
                   )}
+                  {recipe.alternateSourceUrls && recipe.alternateSourceUrls.length > 0 && (
+                    <div className="truncate">
+                      Also at: {recipe.alternateSourceUrls.map((url, index) => (
+                        <React.Fragment key={url}>
+                          {index > 0 && ', '}
+                          <a
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-emerald-600 hover:text-emerald-700 hover:underline"
+                          >
+                            {new URL(url).hostname}
+                          </a>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
+              <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs sm:text-sm">
+                <a
+                  href={`/recipes/${recipe.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-emerald-600 hover:text-emerald-700 hover:underline"
+                >
+                  Recipe page
+                </a>
+                <a
+                  href={`/recipes/${recipe.id}/print?servings=${servings}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-emerald-600 hover:text-emerald-700 hover:underline"
+                >
+                  Print card
+                </a>
+                <a
+                  href={`/api/recipes/${recipe.id}/export?format=jsonld`}
+                  className="text-emerald-600 hover:text-emerald-700 hover:underline"
+                >
+                  Export JSON-LD
+                </a>
+                <a
+                  href={`/api/recipes/${recipe.id}/export?format=cooklang`}
+                  className="text-emerald-600 hover:text-emerald-700 hover:underline"
+                >
+                  Export Cooklang
+                </a>
+                <a
+                  href={`/api/recipes/${recipe.id}/export?format=markdown`}
+                  className="text-emerald-600 hover:text-emerald-700 hover:underline"
+                >
+                  Export Markdown
+                </a>
+              </div>
             </div>
             <div className="flex items-center gap-1 flex-shrink-0">
               <button
@@ -147,6 +250,13 @@ export default function RecipeDetail({
               >
                 <PencilIcon className="w-5 h-5" />
               </button>
+              <button
+                onClick={() => onShowHistory(recipe.id)}
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-800 transition-colors"
+                title="History"
+              >
+                <ClockIcon className="w-5 h-5" />
+              </button>
               <button
                 onClick={handleDelete}
                 className="p-2 rounded-lg text-red-500 hover:bg-red-50 hover:text-red-700 transition-colors"
@@ -173,17 +283,44 @@ export default function RecipeDetail({
 
           <div className="mt-5 space-y-5">
             <div>
-              <h2 className="text-base sm:text-lg font-bold text-gray-800 border-b-2 border-emerald-500 pb-1.5 mb-3">
-                Ingredients
-              </h2>
-              <ul className="space-y-1.5 text-sm text-gray-700">
-                {recipe.ingredients.map((ing, i) => (
-                  <li key={i} className="flex items-start gap-2">
-                    <span className="text-gray-400">•</span>
-                    <span>{ing.quantity} {ing.name}</span>
-                  </li>
-                ))}
-              </ul>
+              <div className="flex justify-between items-end border-b-2 border-emerald-500 pb-1.5 mb-3">
+                <h2 className="text-base sm:text-lg font-bold text-gray-800">
+                  Ingredients
+                </h2>
+                <div className="flex gap-0.5 bg-gray-100 rounded-lg p-0.5" role="group" aria-label="Units">
+                  {unitViewOptions.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setUnitView(option.id)}
+                      className={`px-2 py-0.5 rounded-md text-xs font-medium transition-colors ${
+                        unitView === option.id
+                          ? 'bg-white text-emerald-700 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-800'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {ingredientSections.map(section => (
+                <div key={section.start} className="mb-3 last:mb-0">
+                  {section.name && (
+                    <h3 className="text-sm font-semibold text-gray-800 mb-1.5">{section.name}</h3>
+                  )}
+                  <ul className="space-y-1.5 text-sm text-gray-700">
+                    {section.items.map((ing, i) => (
+                      <li key={section.start + i} className="flex items-start gap-2">
+                        <span className="text-gray-400">•</span>
+                        <span>
+                          {ing.quantity} {ing.name}
+                          {ing.preparation && <span className="text-gray-500">, {ing.preparation}</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
               <div className="mt-4 p-3 bg-gray-50 rounded-lg">
                 <label htmlFor="servings" className="block text-sm font-medium text-gray-700 mb-1.5">
                   Servings
@@ -209,26 +346,67 @@ export default function RecipeDetail({
               <h2 className="text-base sm:text-lg font-bold text-gray-800 border-b-2 border-emerald-500 pb-1.5 mb-3">
                 Instructions
               </h2>
-              <ol className="space-y-3">
-                {recipe.instructions.map((step, i) => {
-                  const stepText = typeof step === 'string' ? step : step.text;
-                  return (
-                    <li key={i} className="flex items-start gap-3">
-                      <span className="flex-shrink-0 flex items-center justify-center h-6 w-6 rounded-full bg-emerald-600 text-white text-xs font-bold">
-                        {i + 1}
-                      </span>
-                      <span className="flex-1 text-sm text-gray-700 pt-0.5">{stepText}</span>
-                      <button
-                        onClick={() => handlePlayAudio(stepText)}
-                        className="flex-shrink-0 p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-gray-100 rounded-lg transition-colors"
-                      >
-                        <SpeakerWaveIcon className="w-4 h-4" />
-                      </button>
-                    </li>
-                  );
-                })}
-              </ol>
+              {instructionSections.map(section => (
+                <div key={section.start} className="mb-4 last:mb-0">
+                  {section.name && (
+                    <h3 className="text-sm font-semibold text-gray-800 mb-2">{section.name}</h3>
+                  )}
+                  {/* Steps are numbered through the whole recipe, across sections */}
+                  <ol start={section.start + 1} className="space-y-3">
+                    {section.items.map((step, i) => {
+                      const originalText = typeof step === 'string' ? step : step.text;
+                      const stepText = unitView === 'original' ? originalText : convertTemperatures(originalText, unitView);
+                      return (
+                        <li key={section.start + i} className="flex items-start gap-3">
+                          <span className="flex-shrink-0 flex items-center justify-center h-6 w-6 rounded-full bg-emerald-600 text-white text-xs font-bold">
+                            {section.start + i + 1}
+                          </span>
+                          <span className="flex-1 text-sm text-gray-700 pt-0.5">{stepText}</span>
+                          <button
+                            onClick={() => handlePlayAudio(stepText)}
+                            className="flex-shrink-0 p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          >
+                            <SpeakerWaveIcon className="w-4 h-4" />
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              ))}
             </div>
+            {recipe.nutrition && nutritionTotals && (
+              <div>
+                <h2 className="text-base sm:text-lg font-bold text-gray-800 border-b-2 border-emerald-500 pb-1.5 mb-3">
+                  Nutrition
+                </h2>
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="text-xs text-gray-500">
+                      <th className="text-left font-medium pb-1.5"></th>
+                      <th className="text-right font-medium pb-1.5">Per serving</th>
+                      <th className="text-right font-medium pb-1.5">
+                        Total ({servings} {servings === 1 ? 'serving' : 'servings'})
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {NUTRIENTS.map(({ key, label, unit }) => {
+                      const perServing = recipe.nutrition?.[key];
+                      const total = nutritionTotals[key];
+                      if (typeof perServing !== 'number' || typeof total !== 'number') return null;
+                      return (
+                        <tr key={key}>
+                          <td className="py-1">{label}</td>
+                          <td className="py-1 text-right">{formatNutrient(perServing, unit)}</td>
+                          <td className="py-1 text-right font-medium text-gray-900">{formatNutrient(total, unit)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,8 +1,43 @@
 'use client';
 
-import React from 'react';
-import type { Recipe } from '@/types';
-import { ChefHatIcon, PlusIcon } from './icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Recipe, Tag } from '@/types';
+import type { RecipeSort } from '@/lib/recipe-search';
+import { formatMinutes } from '@/lib/durations';
+import { BookOpenIcon, ChefHatIcon, DocumentDuplicateIcon, PlusIcon, XMarkIcon } from './icons';
+import TagBadge from './TagBadge';
+
+export interface RecipeFilters {
+  query: string;
+  include: string[];
+  exclude: string[];
+  tags: string[];
+  /** Total time limit in minutes */
+  maxTime: number | null;
+  sort: RecipeSort | '';
+}
+
+export const EMPTY_RECIPE_FILTERS: RecipeFilters = { query: '', include: [], exclude: [], tags: [], maxTime: null, sort: '' };
+
+const maxTimeOptions: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'Any time' },
+  { minutes: 15, label: 'Under 15 min' },
+  { minutes: 30, label: 'Under 30 min' },
+  { minutes: 60, label: 'Under 1 hour' },
+];
+
+const tagKindOrder = ['category', 'cuisine', 'tag'];
+
+// The default is relevance while searching and newest first otherwise
+const sortOptions: { id: RecipeSort | ''; label: string }[] = [
+  { id: '', label: 'Default order' },
+  { id: 'newest', label: 'Newest' },
+  { id: 'oldest', label: 'Oldest' },
+  { id: 'updated', label: 'Recently edited' },
+  { id: 'title', label: 'Title A-Z' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 const placeholderImage = (id: string) => `https://picsum.photos/seed/${id}/600/400`;
 
@@ -22,33 +57,238 @@ const RecipeCard: React.FC<{ recipe: Recipe; onSelect: (id: string) => void }> =
     <div className="p-3">
       <h3 className="text-sm sm:text-base font-semibold text-gray-800 truncate">{recipe.title}</h3>
       <p className="text-xs sm:text-sm text-gray-600 mt-1 line-clamp-2">{recipe.description}</p>
+      {recipe.totalTime && (
+        <p className="text-xs text-gray-500 mt-1.5">⏱ {formatMinutes(recipe.totalTime)}</p>
+      )}
     </div>
   </div>
 );
 
 interface RecipeListProps {
   recipes: Recipe[];
+  tags: Tag[];
+  filters: RecipeFilters;
+  hasMore: boolean;
+  isLoading: boolean;
+  onFiltersChange: (filters: RecipeFilters) => void;
+  onLoadMore: () => void;
   onSelectRecipe: (id: string) => void;
   onOpenModal: () => void;
+  onOpenCookbook: () => void;
+  onOpenDuplicates: () => void;
 }
 
-export default function RecipeList({ recipes, onSelectRecipe, onOpenModal }: RecipeListProps) {
+export default function RecipeList({
+  recipes,
+  tags,
+  filters,
+  hasMore,
+  isLoading,
+  onFiltersChange,
+  onLoadMore,
+  onSelectRecipe,
+  onOpenModal,
+  onOpenCookbook,
+  onOpenDuplicates,
+}: RecipeListProps) {
+  const [searchText, setSearchText] = useState(filters.query);
+  const [ingredientText, setIngredientText] = useState('');
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    if (searchText.trim() === filters.query) return;
+    const timeout = setTimeout(() => onFiltersChange({ ...filters, query: searchText.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText, filters, onFiltersChange]);
+
+  const isFiltered = filters.query !== '' || filters.include.length > 0 || filters.exclude.length > 0
+    || filters.tags.length > 0 || filters.maxTime !== null;
+
+  // Only offer tags that are in use, grouped by kind
+  const filterableTags = useMemo(
+    () => tags
+      .filter(tag => (tag._count?.recipes ?? 0) > 0 || filters.tags.includes(tag.name))
+      .sort((a, b) => tagKindOrder.indexOf(a.kind) - tagKindOrder.indexOf(b.kind) || a.name.localeCompare(b.name)),
+    [tags, filters.tags]
+  );
+
+  const toggleTagFilter = (name: string) => {
+    onFiltersChange({
+      ...filters,
+      tags: filters.tags.includes(name) ? filters.tags.filter(n => n !== name) : [...filters.tags, name],
+    });
+  };
+
+  const addIngredientFilter = (kind: 'include' | 'exclude') => {
+    const name = ingredientText.trim().toLowerCase();
+    if (!name) return;
+
+    onFiltersChange({
+      ...filters,
+      include: kind === 'include' ? [...filters.include.filter(n => n !== name), name] : filters.include.filter(n => n !== name),
+      exclude: kind === 'exclude' ? [...filters.exclude.filter(n => n !== name), name] : filters.exclude.filter(n => n !== name),
+    });
+    setIngredientText('');
+  };
+
+  const removeIngredientFilter = (kind: 'include' | 'exclude', name: string) => {
+    onFiltersChange({ ...filters, [kind]: filters[kind].filter(n => n !== name) });
+  };
+
+  const clearFilters = () => {
+    setSearchText('');
+    onFiltersChange({ ...EMPTY_RECIPE_FILTERS, sort: filters.sort });
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-3 py-3 sm:px-4 sm:py-4">
       <div className="flex justify-between items-center mb-3 sm:mb-4">
         <h1 className="text-xl sm:text-2xl font-bold text-gray-800">My Recipes</h1>
-        <button
-          onClick={onOpenModal}
-          className="flex items-center gap-1.5 px-3 py-2 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 transition-colors shadow-sm"
+        <div className="flex items-center gap-2">
+          {recipes.length > 0 && (
+            <button
+              onClick={onOpenCookbook}
+              className="flex items-center gap-1.5 px-3 py-2 bg-white text-gray-700 text-sm font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors"
+            >
+              <BookOpenIcon className="w-4 h-4" /> <span className="hidden xs:inline">Cookbook PDF</span><span className="xs:hidden">PDF</span>
+            </button>
+          )}
+          {recipes.length > 1 && (
+            <button
+              onClick={onOpenDuplicates}
+              title="Find duplicate recipes"
+              className="flex items-center gap-1.5 px-3 py-2 bg-white text-gray-700 text-sm font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors"
+            >
+              <DocumentDuplicateIcon className="w-4 h-4" /> <span className="hidden sm:inline">Duplicates</span>
+            </button>
+          )}
+          <button
+            onClick={onOpenModal}
+            className="flex items-center gap-1.5 px-3 py-2 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 transition-colors shadow-sm"
+          >
+            <PlusIcon className="w-4 h-4" /> <span className="hidden xs:inline">Add Recipe</span><span className="xs:hidden">Add</span>
+          </button>
+        </div>
+      </div>
+      <div className="mb-3 sm:mb-4 space-y-2">
+        <div className="flex gap-1.5">
+          <input
+            type="search"
+            value={searchText}
+            onChange={e => setSearchText(e.target.value)}
+            placeholder="Search recipes, ingredients, steps..."
+            aria-label="Search recipes"
+            className="block flex-1 min-w-0"
+          />
+          <select
+            value={filters.sort}
+            onChange={e => onFiltersChange({ ...filters, sort: e.target.value as RecipeSort | '' })}
+            aria-label="Sort recipes"
+            className="text-sm"
+          >
+            {sortOptions.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.maxTime ?? ''}
+            onChange={e => onFiltersChange({ ...filters, maxTime: e.target.value ? Number(e.target.value) : null })}
+            aria-label="Total time"
+            className="text-sm"
+          >
+            {maxTimeOptions.map(option => (
+              <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <form
+          onSubmit={e => { e.preventDefault(); addIngredientFilter('include'); }}
+          className="flex gap-1.5"
         >
-          <PlusIcon className="w-4 h-4" /> <span className="hidden xs:inline">Add Recipe</span><span className="xs:hidden">Add</span>
-        </button>
+          <input
+            type="text"
+            value={ingredientText}
+            onChange={e => setIngredientText(e.target.value)}
+            placeholder="Filter by ingredient..."
+            aria-label="Ingredient filter"
+            className="block flex-1 min-w-0 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!ingredientText.trim()}
+            className="px-2.5 py-1.5 text-xs sm:text-sm font-medium text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            With
+          </button>
+          <button
+            type="button"
+            onClick={() => addIngredientFilter('exclude')}
+            disabled={!ingredientText.trim()}
+            className="px-2.5 py-1.5 text-xs sm:text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            Without
+          </button>
+        </form>
+        {filterableTags.length > 0 && (
+          <div className="flex gap-1.5 overflow-x-auto pb-1" role="group" aria-label="Filter by tag">
+            {filterableTags.map(tag => (
+              <TagBadge
+                key={tag.id}
+                tag={tag}
+                active={filters.tags.includes(tag.name)}
+                onClick={() => toggleTagFilter(tag.name)}
+              />
+            ))}
+          </div>
+        )}
+        {(filters.include.length > 0 || filters.exclude.length > 0 || filters.tags.length > 0) && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            {filters.include.map(name => (
+              <span key={`include-${name}`} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                with {name}
+                <button onClick={() => removeIngredientFilter('include', name)} aria-label={`Remove filter with ${name}`} className="p-0.5 rounded-full hover:bg-emerald-200">
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {filters.exclude.map(name => (
+              <span key={`exclude-${name}`} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                without {name}
+                <button onClick={() => removeIngredientFilter('exclude', name)} aria-label={`Remove filter without ${name}`} className="p-0.5 rounded-full hover:bg-red-200">
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <button onClick={clearFilters} className="text-xs font-medium text-gray-500 hover:text-gray-700 px-1.5">
+              Clear filters
+            </button>
+          </div>
+        )}
       </div>
       {recipes.length > 0 ? (
-        <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
-          {recipes.map(recipe => (
-            <RecipeCard key={recipe.id} recipe={recipe} onSelect={onSelectRecipe} />
-          ))}
+        <>
+          <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
+            {recipes.map(recipe => (
+              <RecipeCard key={recipe.id} recipe={recipe} onSelect={onSelectRecipe} />
+            ))}
+          </div>
+          {hasMore && (
+            <div className="flex justify-center mt-4">
+              <button
+                onClick={onLoadMore}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm font-medium text-emerald-700 bg-white border border-emerald-200 rounded-lg hover:bg-emerald-50 disabled:opacity-50 transition-colors"
+              >
+                {isLoading ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
+      ) : isLoading ? null : isFiltered ? (
+        <div className="text-center py-12 sm:py-16 bg-white rounded-lg border border-gray-200">
+          <ChefHatIcon className="mx-auto w-12 h-12 sm:w-16 sm:h-16 text-gray-300" />
+          <h3 className="mt-3 text-lg sm:text-xl font-semibold text-gray-900">No matching recipes</h3>
+          <p className="mt-1 text-sm text-gray-500">Try a different search or remove some filters</p>
         </div>
       ) : (
         <div className="text-center py-12 sm:py-16 bg-white rounded-lg border border-gray-200">
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { IngredientInput, NutritionInput, Recipe, RecipeFieldChange, RecipeRevision, TagInput } from '@/types';
+import { formatMinutes } from '@/lib/durations';
+import { formatIngredientLine } from '@/lib/ingredient-parser';
+import { NUTRIENTS, formatNutrient } from '@/lib/nutrition';
+import { XMarkIcon } from './icons';
+import Spinner from './Spinner';
+
+interface RevisionHistoryModalProps {
+  recipe: Recipe;
+  onClose: () => void;
+  onRestore: (revisionId: string) => Promise<void>;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  servings: 'Servings',
+  prepTime: 'Prep time',
+  cookTime: 'Cook time',
+  totalTime: 'Total time',
+  notes: 'Notes',
+  sourceUrl: 'Source URL',
+  alternateSourceUrls: 'Other sources',
+  imageUrls: 'Images',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  instructionSections: 'Step sections',
+  tags: 'Tags',
+  nutrition: 'Nutrition',
+};
+
+const sourceLabels: Record<string, string> = {
+  edit: 'Edited',
+  restore: 'Restored an earlier version',
+  backup: 'Restored from a backup',
+  merge: 'Merged with a duplicate',
+};
+
+/**
+ * Render a field value as lines of text, so list fields can be compared line by line
+ */
+function valueLines(field: RecipeFieldChange['field'], value: unknown): string[] {
+  if (value === null || value === undefined || value === '') return [];
+
+  switch (field) {
+    case 'ingredients':
+      return (value as IngredientInput[]).map(ing => `${ing.section ? `[${ing.section}] ` : ''}${formatIngredientLine(ing)}`);
+    case 'instructions':
+      return (value as string[]).map((text, i) => `${i + 1}. ${text}`);
+    case 'instructionSections':
+      return (value as (string | null)[]).map((section, i) => `${i + 1}. ${section ?? 'No section'}`);
+    case 'tags':
+      return (value as TagInput[]).map(tag => tag.name);
+    case 'imageUrls':
+      return value as string[];
+    case 'nutrition':
+      return NUTRIENTS.flatMap(({ key, label, unit }) => {
+        const amount = (value as NutritionInput)[key];
+        return typeof amount === 'number' ? [`${label}: ${formatNutrient(amount, unit)}`] : [];
+      });
+    case 'prepTime':
+    case 'cookTime':
+    case 'totalTime':
+      return [formatMinutes(value as number)];
+    default:
+      return [String(value)];
+  }
+}
+
+const ChangeDiff: React.FC<{ change: RecipeFieldChange }> = ({ change }) => {
+  const before = valueLines(change.field, change.before);
+  const after = valueLines(change.field, change.after);
+  const removed = before.filter(line => !after.includes(line));
+  const added = after.filter(line => !before.includes(line));
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-700">{fieldLabels[change.field] ?? change.field}</h4>
+      <ul className="mt-1 space-y-0.5 text-xs">
+        {removed.map((line, i) => (
+          <li key={`-${i}`} className="px-2 py-0.5 rounded bg-red-50 text-red-700 line-through break-words">{line}</li>
+        ))}
+        {added.map((line, i) => (
+          <li key={`+${i}`} className="px-2 py-0.5 rounded bg-emerald-50 text-emerald-800 break-words">{line}</li>
+        ))}
+        {removed.length === 0 && added.length === 0 && (
+          <li className="px-2 py-0.5 text-gray-500">Reordered</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ recipe, onClose, onRestore }) => {
+  const [revisions, setRevisions] = useState<RecipeRevision[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [changes, setChanges] = useState<Record<string, RecipeFieldChange[]>>({});
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const response = await fetch(`/api/recipes/${recipe.id}/revisions`);
+        if (response.ok) {
+          setRevisions(await response.json());
+        } else {
+          setRevisions([]);
+        }
+      } catch (error) {
+        console.error('Error fetching revisions:', error);
+        setRevisions([]);
+      }
+    };
+    fetchRevisions();
+  }, [recipe.id, recipe.updatedAt]);
+
+  const handleToggle = async (revisionId: string) => {
+    if (expandedId === revisionId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(revisionId);
+    if (changes[revisionId]) return;
+
+    try {
+      const response = await fetch(`/api/recipes/${recipe.id}/revisions/${revisionId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setChanges(prev => ({ ...prev, [revisionId]: data.changes }));
+      }
+    } catch (error) {
+      console.error('Error fetching revision:', error);
+    }
+  };
+
+  const handleRestore = async (revision: RecipeRevision) => {
+    const when = new Date(revision.createdAt).toLocaleString();
+    if (!window.confirm(`Restore "${recipe.title}" to how it was before the change on ${when}?`)) return;
+
+    setRestoringId(revision.id);
+    await onRestore(revision.id);
+    setRestoringId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-end sm:items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl w-full sm:max-w-2xl flex flex-col max-h-[95vh] sm:max-h-[90vh]">
+        <div className="flex items-center justify-between px-4 py-3 border-b sticky top-0 bg-white rounded-t-2xl z-10 flex-shrink-0">
+          <h2 className="text-base sm:text-lg font-bold text-gray-800">History</h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors">
+            <XMarkIcon className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-grow px-4 py-3 overflow-y-auto">
+          {revisions === null ? (
+            <Spinner message="Loading history..." />
+          ) : revisions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">This recipe has not been changed since it was added.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {revisions.map(revision => (
+                <li key={revision.id} className="py-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <button onClick={() => handleToggle(revision.id)} className="flex-1 min-w-0 text-left">
+                      <div className="text-sm font-medium text-gray-800">
+                        {sourceLabels[revision.source] ?? revision.source}
+                        <span className="ml-2 font-normal text-gray-500">{new Date(revision.createdAt).toLocaleString()}</span>
+                      </div>
+                      <div className="mt-0.5 text-xs text-gray-500 truncate">
+                        Changed: {revision.changedFields.map(field => fieldLabels[field] ?? field).join(', ')}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      className="flex-shrink-0 px-3 py-1.5 text-xs font-medium rounded-lg bg-emerald-100 text-emerald-700 hover:bg-emerald-200 disabled:opacity-50 transition-colors"
+                    >
+                      {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </div>
+                  {expandedId === revision.id && (
+                    <div className="mt-3 space-y-3">
+                      {changes[revision.id] ? (
+                        changes[revision.id].map(change => <ChangeDiff key={change.field} change={change} />)
+                      ) : (
+                        <p className="text-xs text-gray-500">Loading changes...</p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistoryModal;
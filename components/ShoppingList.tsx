@@ -1,63 +1,313 @@
 'use client';
 
-import React, { useMemo } from 'react';
-import type { ShoppingListItem } from '@/types';
-import { ShoppingCartIcon } from './icons';
+import React, { useMemo, useState } from 'react';
+import type { ShoppingListItem, Store } from '@/types';
+import { GROCERY_CATEGORIES, sortCategories } from '@/lib/grocery-categories';
+import { groupShoppingItemsByAisle } from '@/lib/shopping-aggregation';
+import { ShoppingCartIcon, PlusIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+
+type GroupBy = 'recipe' | 'aisle';
+
+const groupByOptions: { id: GroupBy; label: string }[] = [
+  { id: 'recipe', label: 'By recipe' },
+  { id: 'aisle', label: 'By aisle' },
+];
 
 interface ShoppingListProps {
   list: ShoppingListItem[];
+  stores: Store[];
+  selectedStore: Store | null;
+  categoryOverrides: Record<string, string>;
+  onSetItemsChecked: (items: ShoppingListItem[], checked: boolean) => void;
+  onAddItem: (name: string, quantity: string) => Promise<void>;
+  onClearChecked: () => void;
   onClear: () => void;
+  onSelectStore: (storeId: string | null) => void;
+  onCreateStore: (name: string) => Promise<void>;
+  onUpdateAisleOrder: (store: Store, aisleOrder: string[]) => void;
+  onSetCategory: (name: string, category: string) => void;
 }
 
-export default function ShoppingList({ list, onClear }: ShoppingListProps) {
+const OTHER_ITEMS = 'Other items';
+const NEW_STORE = '__new__';
+
+export default function ShoppingList({
+  list,
+  stores,
+  selectedStore,
+  categoryOverrides,
+  onSetItemsChecked,
+  onAddItem,
+  onClearChecked,
+  onClear,
+  onSelectStore,
+  onCreateStore,
+  onUpdateAisleOrder,
+  onSetCategory,
+}: ShoppingListProps) {
+  const [newItemName, setNewItemName] = useState('');
+  const [newItemQuantity, setNewItemQuantity] = useState('');
+  const [isAddingItem, setIsAddingItem] = useState(false);
+  const [groupBy, setGroupBy] = useState<GroupBy>('recipe');
+  const [isEditingAisles, setIsEditingAisles] = useState(false);
+
   const groupedList = useMemo(() => {
     return list.reduce((acc, item) => {
-      (acc[item.recipeTitle] = acc[item.recipeTitle] || []).push(item);
+      const title = item.recipeTitle || OTHER_ITEMS;
+      (acc[title] = acc[title] || []).push(item);
       return acc;
     }, {} as Record<string, ShoppingListItem[]>);
   }, [list]);
 
+  const aisles = useMemo(
+    () => groupShoppingItemsByAisle(list, categoryOverrides, selectedStore?.aisleOrder),
+    [list, categoryOverrides, selectedStore]
+  );
+
+  const aisleOrder = useMemo(
+    () => sortCategories([...GROCERY_CATEGORIES], selectedStore?.aisleOrder),
+    [selectedStore]
+  );
+
+  const hasCheckedItems = list.some(item => item.checked);
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItemName.trim()) return;
+
+    setIsAddingItem(true);
+    await onAddItem(newItemName.trim(), newItemQuantity.trim());
+    setNewItemName('');
+    setNewItemQuantity('');
+    setIsAddingItem(false);
+  };
+
+  const handleStoreChange = async (value: string) => {
+    if (value !== NEW_STORE) {
+      onSelectStore(value || null);
+      return;
+    }
+
+    const name = window.prompt('Store name');
+    if (name?.trim()) {
+      await onCreateStore(name.trim());
+      setIsEditingAisles(true);
+    }
+  };
+
+  const moveAisle = (index: number, direction: -1 | 1) => {
+    if (!selectedStore) return;
+    const target = index + direction;
+    if (target < 0 || target >= aisleOrder.length) return;
+
+    const reordered = [...aisleOrder];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onUpdateAisleOrder(selectedStore, reordered);
+  };
+
+  const renderItem = (item: ShoppingListItem) => (
+    <li key={item.id} className="flex items-center">
+      <input
+        id={`item-${item.id}`}
+        type="checkbox"
+        checked={item.checked}
+        onChange={() => onSetItemsChecked([item], !item.checked)}
+        className="h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500 focus:ring-2"
+      />
+      <label
+        htmlFor={`item-${item.id}`}
+        className={`ml-2.5 block text-sm cursor-pointer ${item.checked ? 'text-gray-400 line-through' : 'text-gray-900'}`}
+      >
+        <span className="font-medium">{item.name}</span>
+        {item.quantity && <span className={item.checked ? '' : 'text-gray-500'}> ({item.quantity})</span>}
+      </label>
+    </li>
+  );
+
   return (
     <div className="max-w-2xl mx-auto px-3 py-3 sm:px-4 sm:py-4">
       <div className="flex justify-between items-center mb-3 sm:mb-4">
         <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Shopping List</h1>
         {list.length > 0 && (
-          <button
-            onClick={onClear}
-            className="text-xs sm:text-sm font-medium text-red-600 hover:text-red-700 px-2 py-1 hover:bg-red-50 rounded-lg transition-colors"
-          >
-            Clear All
-          </button>
+          <div className="flex items-center gap-1">
+            {hasCheckedItems && (
+              <button
+                onClick={onClearChecked}
+                className="text-xs sm:text-sm font-medium text-gray-600 hover:text-gray-800 px-2 py-1 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Clear Checked
+              </button>
+            )}
+            <button
+              onClick={onClear}
+              className="text-xs sm:text-sm font-medium text-red-600 hover:text-red-700 px-2 py-1 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              Clear All
+            </button>
+          </div>
         )}
       </div>
-      <div className="bg-white rounded-lg border border-gray-100 p-4">
-        {list.length > 0 ? (
-          <div className="space-y-4">
-            {Object.entries(groupedList).map(([title, items]) => (
-              <div key={title}>
-                <h2 className="text-sm sm:text-base font-semibold text-emerald-700 border-b border-emerald-200 pb-1.5 mb-2">
-                  {title}
-                </h2>
-                <ul className="space-y-1.5">
-                  {items.map((item, index) => (
-                    <li key={`${title}-${index}`} className="flex items-center">
-                      <input
-                        id={`${title}-${index}`}
-                        type="checkbox"
-                        className="h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500 focus:ring-2"
-                      />
-                      <label
-                        htmlFor={`${title}-${index}`}
-                        className="ml-2.5 block text-sm text-gray-900 cursor-pointer"
-                      >
-                        <span className="font-medium">{item.name}</span> <span className="text-gray-500">({item.quantity})</span>
-                      </label>
-                    </li>
-                  ))}
-                </ul>
-              </div>
+      <form onSubmit={handleAddItem} className="flex gap-1.5 mb-3">
+        <input
+          type="text"
+          value={newItemQuantity}
+          onChange={e => setNewItemQuantity(e.target.value)}
+          placeholder="Qty"
+          className="block w-1/4 min-w-0"
+        />
+        <input
+          type="text"
+          value={newItemName}
+          onChange={e => setNewItemName(e.target.value)}
+          placeholder="Add an item..."
+          className="block flex-1 min-w-0"
+        />
+        <button
+          type="submit"
+          disabled={isAddingItem || !newItemName.trim()}
+          className="flex items-center gap-1 px-3 py-2 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 disabled:bg-gray-400 transition-colors"
+        >
+          <PlusIcon className="w-4 h-4" /> <span className="hidden xs:inline">Add</span>
+        </button>
+      </form>
+      {list.length > 0 && (
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+          <div className="flex gap-0.5 bg-gray-100 rounded-lg p-0.5" role="group" aria-label="Group items">
+            {groupByOptions.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setGroupBy(option.id)}
+                className={`px-2 py-0.5 rounded-md text-xs font-medium transition-colors ${
+                  groupBy === option.id
+                    ? 'bg-white text-emerald-700 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                {option.label}
+              </button>
             ))}
           </div>
+          {groupBy === 'aisle' && (
+            <div className="flex items-center gap-1.5">
+              <select
+                value={selectedStore?.id ?? ''}
+                onChange={e => handleStoreChange(e.target.value)}
+                aria-label="Store"
+                className="text-xs sm:text-sm py-1"
+              >
+                <option value="">Default aisle order</option>
+                {stores.map(store => (
+                  <option key={store.id} value={store.id}>{store.name}</option>
+                ))}
+                <option value={NEW_STORE}>+ New store...</option>
+              </select>
+              {selectedStore && (
+                <button
+                  onClick={() => setIsEditingAisles(prev => !prev)}
+                  className="text-xs sm:text-sm font-medium text-emerald-700 hover:text-emerald-800 px-2 py-1 hover:bg-emerald-50 rounded-lg transition-colors"
+                >
+                  {isEditingAisles ? 'Done' : 'Edit aisles'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      {groupBy === 'aisle' && selectedStore && isEditingAisles && list.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-100 p-3 mb-3">
+          <h2 className="text-sm font-semibold text-gray-800 mb-2">Aisle order at {selectedStore.name}</h2>
+          <ol className="space-y-1">
+            {aisleOrder.map((category, index) => (
+              <li key={category} className="flex items-center justify-between text-sm text-gray-700">
+                <span>{index + 1}. {category}</span>
+                <span className="flex gap-0.5">
+                  <button
+                    onClick={() => moveAisle(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${category} up`}
+                    className="p-1 text-gray-500 hover:text-emerald-700 hover:bg-gray-100 rounded disabled:opacity-30"
+                  >
+                    <ArrowUpIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveAisle(index, 1)}
+                    disabled={index === aisleOrder.length - 1}
+                    aria-label={`Move ${category} down`}
+                    className="p-1 text-gray-500 hover:text-emerald-700 hover:bg-gray-100 rounded disabled:opacity-30"
+                  >
+                    <ArrowDownIcon className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      <div className="bg-white rounded-lg border border-gray-100 p-4">
+        {list.length > 0 ? (
+          groupBy === 'recipe' ? (
+            <div className="space-y-4">
+              {Object.entries(groupedList).map(([title, items]) => (
+                <div key={title}>
+                  <h2 className="text-sm sm:text-base font-semibold text-emerald-700 border-b border-emerald-200 pb-1.5 mb-2">
+                    {title}
+                  </h2>
+                  <ul className="space-y-1.5">
+                    {items.map(renderItem)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {aisles.map(aisle => (
+                <div key={aisle.category}>
+                  <h2 className="text-sm sm:text-base font-semibold text-emerald-700 border-b border-emerald-200 pb-1.5 mb-2">
+                    {aisle.category}
+                  </h2>
+                  <ul className="space-y-2">
+                    {aisle.items.map(merged => (
+                      <li key={merged.key} className="flex items-start">
+                        <input
+                          id={`merged-${merged.key}`}
+                          type="checkbox"
+                          checked={merged.checked}
+                          onChange={() => onSetItemsChecked(merged.items, !merged.checked)}
+                          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500 focus:ring-2"
+                        />
+                        <div className="ml-2.5 flex-1 min-w-0">
+                          <label
+                            htmlFor={`merged-${merged.key}`}
+                            className={`block text-sm cursor-pointer ${merged.checked ? 'text-gray-400 line-through' : 'text-gray-900'}`}
+                          >
+                            <span className="font-medium">{merged.name}</span>
+                            {merged.quantity && <span className={merged.checked ? '' : 'text-gray-500'}> ({merged.quantity})</span>}
+                          </label>
+                          {merged.items.length > 1 && (
+                            <p className="text-xs text-gray-400">
+                              {merged.items
+                                .map(item => `${item.recipeTitle || OTHER_ITEMS}${item.quantity ? `: ${item.quantity}` : ''}`)
+                                .join(' · ')}
+                            </p>
+                          )}
+                        </div>
+                        <select
+                          value={merged.category}
+                          onChange={e => onSetCategory(merged.name, e.target.value)}
+                          aria-label={`Category for ${merged.name}`}
+                          className="ml-2 text-xs py-0.5 text-gray-500"
+                        >
+                          {GROCERY_CATEGORIES.map(category => (
+                            <option key={category} value={category}>{category}</option>
+                          ))}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )
         ) : (
           <div className="text-center py-10 sm:py-12">
             <ShoppingCartIcon className="mx-auto w-10 h-10 sm:w-12 sm:h-12 text-gray-300" />
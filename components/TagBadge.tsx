@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import type { TagInput } from '@/types';
+import { XMarkIcon } from './icons';
+
+interface TagBadgeProps {
+  tag: TagInput;
+  active?: boolean;
+  onClick?: () => void;
+  onRemove?: () => void;
+}
+
+// Categories, cuisines and plain tags get their own colours
+const kindClasses: Record<string, { idle: string; active: string }> = {
+  category: { idle: 'bg-amber-50 text-amber-800 hover:bg-amber-100', active: 'bg-amber-500 text-white' },
+  cuisine: { idle: 'bg-sky-50 text-sky-800 hover:bg-sky-100', active: 'bg-sky-600 text-white' },
+  tag: { idle: 'bg-gray-100 text-gray-700 hover:bg-gray-200', active: 'bg-gray-700 text-white' },
+};
+
+const TagBadge: React.FC<TagBadgeProps> = ({ tag, active = false, onClick, onRemove }) => {
+  const classes = kindClasses[tag.kind ?? 'tag'] ?? kindClasses.tag;
+  const colour = active ? classes.active : classes.idle;
+
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full text-xs font-medium capitalize transition-colors ${colour} ${onRemove ? 'pl-2.5 pr-1 py-0.5' : 'px-2.5 py-0.5'}`}>
+      {onClick ? (
+        <button type="button" onClick={onClick} aria-pressed={active}>{tag.name}</button>
+      ) : (
+        tag.name
+      )}
+      {onRemove && (
+        <button type="button" onClick={onRemove} aria-label={`Remove ${tag.name}`} className="p-0.5 rounded-full hover:bg-black/10">
+          <XMarkIcon className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default TagBadge;
@@ -0,0 +1,335 @@
+/**
+ * Library backup and restore
+ * A backup is a zip with a manifest, one JSON file per recipe and the images
+ * the recipes use, so a library can be moved without access to the database
+ * or blob storage it came from.
+ *
+ * Layout:
+ *   manifest.json          { format, version, createdAt, recipeCount }
+ *   recipes/<id>.json      BackupRecipe
+ *   images/<id>-<n>.<ext>  Image files referenced from the recipe's images
+ */
+
+import { Zip, ZipDeflate, ZipPassThrough, strFromU8, strToU8, unzipSync } from 'fflate';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { downloadImage, uploadImageData } from './blob';
+import { isUrlAccessible } from './extraction-utils';
+import { IngredientSchema, NutritionSchema, ProvenanceSchema, TagSchema } from './recipe-validation';
+import { createRecipe, recipeInclude, type RecipeWithRelations } from './recipe-store';
+import { toSnapshot, updateRecipeWithRevision } from './recipe-revisions';
+import type { RecipeInput } from '@/types';
+
+export const BACKUP_FORMAT = 'myrecipebook-backup';
+export const BACKUP_VERSION = 1;
+
+export const CONFLICT_STRATEGIES = ['skip', 'overwrite', 'duplicate'] as const;
+
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+// Recipes are read from the database in pages of this size while streaming
+const BACKUP_PAGE_SIZE = 50;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+/**
+ * Error for archives that cannot be restored at all, reported to the client as a 400
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const BackupImageSchema = z.object({
+  /** Where the image was stored when the backup was made */
+  url: z.string(),
+  /** Path of the image inside the archive, if it could be downloaded */
+  file: z.string().optional(),
+});
+
+const BackupRecipeSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+  title: z.string().min(1, 'Recipe title is required'),
+  description: z.string().nullable().default(null),
+  servings: z.number().int().positive().default(4),
+  prepTime: z.number().int().positive().nullable().default(null),
+  cookTime: z.number().int().positive().nullable().default(null),
+  totalTime: z.number().int().positive().nullable().default(null),
+  notes: z.string().nullable().default(null),
+  sourceUrl: z.string().nullable().default(null),
+  alternateSourceUrls: z.array(z.string()).default([]),
+  ingredients: z.array(IngredientSchema.pick({ name: true, quantity: true, preparation: true, section: true })),
+  instructions: z.array(z.string()),
+  instructionSections: z.array(z.string().nullable()).optional(),
+  tags: z.array(TagSchema).default([]),
+  nutrition: NutritionSchema.nullable().default(null),
+  // Provenance that doesn't check out is dropped rather than failing the recipe
+  provenance: ProvenanceSchema.nullable().default(null).catch(null),
+  images: z.array(BackupImageSchema).default([]),
+});
+
+export type BackupRecipe = z.infer<typeof BackupRecipeSchema>;
+
+export interface RestoreResult {
+  title: string;
+  status: 'created' | 'overwritten' | 'duplicated' | 'skipped' | 'failed';
+  recipeId?: string;
+  error?: string;
+}
+
+/**
+ * Write one recipe and its images to the archive
+ */
+async function addRecipeToArchive(zip: Zip, recipe: RecipeWithRelations) {
+  const { imageUrls, ...snapshot } = toSnapshot(recipe);
+  const images: BackupRecipe['images'] = [];
+
+  for (const [index, url] of imageUrls.entries()) {
+    const image = await downloadImage(url);
+    if (!image) {
+      images.push({ url });
+      continue;
+    }
+
+    const file = `images/${recipe.id}-${index}.${IMAGE_EXTENSIONS[image.contentType] ?? 'jpg'}`;
+    // Images are already compressed
+    const entry = new ZipPassThrough(file);
+    zip.add(entry);
+    entry.push(image.data, true);
+    // Inline images are only kept as files
+    images.push({ url: url.startsWith('data:') ? '' : url, file });
+  }
+
+  const backupRecipe = {
+    id: recipe.id,
+    createdAt: recipe.createdAt,
+    updatedAt: recipe.updatedAt,
+    ...snapshot,
+    provenance: recipe.provenance,
+    images,
+  };
+
+  const entry = new ZipDeflate(`recipes/${recipe.id}.json`, { level: 6 });
+  zip.add(entry);
+  entry.push(strToU8(JSON.stringify(backupRecipe, null, 2)), true);
+}
+
+/**
+ * Stream a backup of every recipe as a zip archive
+ * Recipes are read a page at a time and each recipe, with its images, is only
+ * added once the client has read what came before, so the download starts
+ * straight away and memory stays flat however large the library is.
+ * @returns Zip archive stream
+ */
+export function createBackupStream(): ReadableStream<Uint8Array> {
+  let zip: Zip;
+  let page: RecipeWithRelations[] = [];
+  let cursor: string | undefined;
+  let lastPage = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+
+      try {
+        const recipeCount = await prisma.recipe.count();
+        const manifest = new ZipDeflate('manifest.json');
+        zip.add(manifest);
+        manifest.push(strToU8(JSON.stringify({
+          format: BACKUP_FORMAT,
+          version: BACKUP_VERSION,
+          createdAt: new Date().toISOString(),
+          recipeCount,
+        }, null, 2)), true);
+      } catch (error) {
+        console.error('Error writing backup:', error);
+        zip.terminate();
+        controller.error(error);
+      }
+    },
+    // Called whenever the client has read enough; adds one recipe at a time
+    async pull(controller) {
+      try {
+        if (page.length === 0 && !lastPage) {
+          page = await prisma.recipe.findMany({
+            include: recipeInclude,
+            orderBy: { id: 'asc' },
+            take: BACKUP_PAGE_SIZE,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+          });
+          lastPage = page.length < BACKUP_PAGE_SIZE;
+          if (page.length > 0) cursor = page[page.length - 1].id;
+        }
+
+        const recipe = page.shift();
+        if (recipe) {
+          await addRecipeToArchive(zip, recipe);
+        } else {
+          zip.end();
+        }
+      } catch (error) {
+        console.error('Error writing backup:', error);
+        zip.terminate();
+        controller.error(error);
+      }
+    },
+    cancel() {
+      zip.terminate();
+    },
+  });
+}
+
+/**
+ * Open a backup archive
+ * @param data Archive contents
+ * @returns The recipes in the archive (or why each could not be read) and the archive's files
+ * @throws BackupError if the file is not a backup made by this app
+ */
+export function readBackupArchive(data: Uint8Array) {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new BackupError('File is not a zip archive');
+  }
+
+  let manifest: { format?: string; version?: number };
+  try {
+    manifest = JSON.parse(strFromU8(files['manifest.json']));
+  } catch {
+    throw new BackupError('Archive has no backup manifest');
+  }
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new BackupError('Archive is not a recipe book backup');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new BackupError('Backup was made by a newer version of the app');
+  }
+
+  const recipes = Object.keys(files)
+    .filter((name) => /^recipes\/[^/]+\.json$/.test(name))
+    .sort()
+    .map((fileName) => {
+      try {
+        const result = BackupRecipeSchema.safeParse(JSON.parse(strFromU8(files[fileName])));
+        if (!result.success) {
+          const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+          return { fileName, recipe: null, error: issues };
+        }
+        return { fileName, recipe: result.data, error: undefined };
+      } catch {
+        return { fileName, recipe: null, error: 'Recipe file cannot be read' };
+      }
+    });
+
+  return { recipes, files };
+}
+
+/**
+ * Work out the image URLs for a restored recipe
+ * Images that are still reachable at their original URL are reused; the rest
+ * are uploaded from the archive.
+ */
+async function restoreImages(recipe: BackupRecipe, files: Record<string, Uint8Array>): Promise<string[]> {
+  const imageUrls: string[] = [];
+
+  for (const image of recipe.images) {
+    if (/^https?:\/\//i.test(image.url) && await isUrlAccessible(image.url)) {
+      imageUrls.push(image.url);
+      continue;
+    }
+
+    const data = image.file ? files[image.file] : undefined;
+    if (!image.file || !data) continue;
+
+    const extension = image.file.split('.').pop() ?? 'jpg';
+    const contentType = Object.entries(IMAGE_EXTENSIONS).find(([, ext]) => ext === extension)?.[0] ?? 'image/jpeg';
+    try {
+      imageUrls.push(await uploadImageData(data, `recipe-${recipe.id}-${Date.now()}.${extension}`, contentType));
+    } catch (error) {
+      console.error(`Error uploading image for ${recipe.title}:`, error);
+    }
+  }
+
+  return imageUrls;
+}
+
+/**
+ * Restore one recipe from a backup
+ * A recipe conflicts with an existing one that has the same id or, failing
+ * that, the same source URL.
+ * @param recipe Recipe from the archive
+ * @param files Files in the archive
+ * @param strategy What to do on a conflict: keep the existing recipe, replace it
+ * (its previous version is kept as a revision) or add the backup as a new recipe
+ * @returns What happened to the recipe
+ */
+export async function restoreBackupRecipe(
+  recipe: BackupRecipe,
+  files: Record<string, Uint8Array>,
+  strategy: ConflictStrategy
+): Promise<RestoreResult> {
+  const existing = await prisma.recipe.findUnique({
+    where: { id: recipe.id },
+    select: { id: true },
+  }) ?? (recipe.sourceUrl
+    ? await prisma.recipe.findFirst({
+        where: { sourceUrl: recipe.sourceUrl },
+        select: { id: true },
+      })
+    : null);
+
+  if (existing && strategy === 'skip') {
+    return { title: recipe.title, status: 'skipped', recipeId: existing.id };
+  }
+
+  const input: RecipeInput = {
+    title: recipe.title,
+    description: recipe.description ?? undefined,
+    servings: recipe.servings,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    totalTime: recipe.totalTime,
+    notes: recipe.notes ?? undefined,
+    sourceUrl: recipe.sourceUrl ?? undefined,
+    alternateSourceUrls: recipe.alternateSourceUrls,
+    imageUrls: await restoreImages(recipe, files),
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    instructionSections: recipe.instructionSections,
+    tags: recipe.tags,
+    nutrition: recipe.nutrition,
+    provenance: recipe.provenance,
+  };
+
+  if (existing && strategy === 'overwrite') {
+    const updated = await updateRecipeWithRevision(existing.id, input, 'backup');
+    return { title: recipe.title, status: 'overwritten', recipeId: updated?.id ?? existing.id };
+  }
+
+  if (existing) {
+    const created = await createRecipe(input);
+    return { title: recipe.title, status: 'duplicated', recipeId: created.id };
+  }
+
+  // New to this library: keep the original id so restoring again finds it
+  const created = await createRecipe(input, { id: recipe.id, createdAt: recipe.createdAt });
+  return { title: recipe.title, status: 'created', recipeId: created.id };
+}
@@ -14,7 +14,11 @@ export async function uploadImageFromUrl(url: string, filename: string): Promise
   return uploadImage(file);
 }
 
-export async function uploadBase64Image(base64Data: string, filename: string): Promise<string> {
+export async function uploadBase64Image(
+  base64Data: string,
+  filename: string,
+  contentType = 'image/png'
+): Promise<string> {
   // Handle both data URLs and raw base64
   const base64String = base64Data.includes('base64,')
     ? base64Data.split('base64,')[1]
@@ -23,15 +27,40 @@ export async function uploadBase64Image(base64Data: string, filename: string): P
   // Convert base64 to buffer
   const buffer = Buffer.from(base64String, 'base64');
 
+  return uploadImageData(buffer, filename, contentType);
+}
+
+export async function uploadImageData(data: Uint8Array, filename: string, contentType: string): Promise<string> {
   // Upload to Vercel Blob
-  const blob = await put(filename, buffer, {
+  const blob = await put(filename, Buffer.from(data), {
     access: 'public',
-    contentType: 'image/png',
+    contentType,
   });
 
   return blob.url;
 }
 
+/**
+ * Download an image, including images still stored inline as data URLs
+ * @returns Image bytes and content type, or null if it cannot be fetched
+ */
+export async function downloadImage(url: string): Promise<{ data: Uint8Array; contentType: string } | null> {
+  try {
+    const dataUrl = url.match(/^data:([^;,]+);base64,(.*)$/);
+    if (dataUrl) {
+      return { data: new Uint8Array(Buffer.from(dataUrl[2], 'base64')), contentType: dataUrl[1] };
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(15000) });
+    if (!response.ok) return null;
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() || 'image/jpeg';
+    return { data: new Uint8Array(await response.arrayBuffer()), contentType };
+  } catch (error) {
+    console.error(`Error downloading image ${url.slice(0, 100)}:`, error);
+    return null;
+  }
+}
+
 export async function deleteImage(url: string): Promise<void> {
   try {
     await del(url);
@@ -0,0 +1,337 @@
+/**
+ * PDF cookbook
+ * Renders a set of recipes into one PDF: a title page, a table of contents
+ * and one recipe per page (or more, for long recipes), with ingredients and
+ * steps in two columns and page numbers in the footer
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import { downloadImage } from './blob';
+import { formatMinutes } from './durations';
+import { formatIngredientLine, normalizeFractions } from './ingredient-parser';
+import { groupIntoSections } from './recipe-sections';
+import type { RecipeWithRelations } from './recipe-store';
+
+export interface CookbookOptions {
+  title: string;
+  /** Add each recipe's first image */
+  includeImages: boolean;
+}
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 24;
+const INGREDIENT_COLUMN_WIDTH = Math.round(CONTENT_WIDTH * 0.36);
+const FOOTER_HEIGHT = 24;
+const MAX_IMAGE_HEIGHT = 200;
+const TOC_ENTRIES_PER_PAGE = 34;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.42, 0.42, 0.42);
+const ACCENT_COLOR = rgb(0.06, 0.73, 0.51);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+/**
+ * Replace characters the standard PDF fonts cannot encode
+ * Accents are dropped ("é" stays, it is in WinAnsi, but "ő" becomes "o"),
+ * fractions such as "⅓" become "1/3" and anything else becomes "?".
+ */
+function encodable(text: string, font: PDFFont): string {
+  let supported = characterSets.get(font);
+  if (!supported) {
+    supported = new Set(font.getCharacterSet());
+    characterSets.set(font, supported);
+  }
+  const isSupported = (char: string) => supported.has(char.codePointAt(0) ?? 0);
+
+  return Array.from(text.replace(/\s+/g, ' '))
+    .map((char) => {
+      if (isSupported(char)) return char;
+      const stripped = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      if (stripped && Array.from(stripped).every(isSupported)) return stripped;
+      const fraction = normalizeFractions(char);
+      return fraction !== char ? fraction : '?';
+    })
+    .join('');
+}
+
+/**
+ * Break text into lines that fit a width, breaking long words if needed
+ */
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of encodable(text, font).split(' ').filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    // A single word wider than the column (usually a URL)
+    line = '';
+    for (const char of word) {
+      if (line && font.widthOfTextAtSize(line + char, size) > width) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Embed a recipe's first image, if it is a JPEG or PNG that can be downloaded
+ */
+async function embedImage(doc: PDFDocument, url: string | undefined): Promise<PDFImage | null> {
+  if (!url) return null;
+  const image = await downloadImage(url);
+  if (!image) return null;
+
+  try {
+    // Check the file signature, content types are not always right
+    if (image.data[0] === 0xff && image.data[1] === 0xd8) return await doc.embedJpg(image.data);
+    if (image.data[0] === 0x89 && image.data[1] === 0x50) return await doc.embedPng(image.data);
+  } catch (error) {
+    console.error(`Error embedding image ${url.slice(0, 100)}:`, error);
+  }
+  return null;
+}
+
+/**
+ * A column of text that continues on the next page when it runs out of room.
+ * Both columns of a recipe share its pages, so a page is only added when
+ * neither column has created it yet.
+ */
+class Column {
+  pageIndex = 0;
+  y: number;
+
+  constructor(
+    private pages: PDFPage[],
+    private addPage: () => PDFPage,
+    private x: number,
+    private width: number,
+    top: number
+  ) {
+    this.y = top;
+  }
+
+  private ensureRoom(height: number) {
+    if (this.y - height >= MARGIN + FOOTER_HEIGHT) return;
+    this.pageIndex++;
+    if (!this.pages[this.pageIndex]) this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN - 24;
+  }
+
+  /**
+   * Write wrapped text
+   * @param indent Indent for every line, with the prefix (a bullet or step number) hanging in it
+   */
+  text(text: string, font: PDFFont, size: number, options: { color?: ReturnType<typeof rgb>; indent?: number; prefix?: string; spacing?: number } = {}) {
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.35;
+    const lines = wrapText(text, font, size, this.width - indent);
+
+    lines.forEach((line, index) => {
+      this.ensureRoom(lineHeight);
+      const page = this.pages[this.pageIndex];
+      if (index === 0 && options.prefix) {
+        page.drawText(options.prefix, { x: this.x, y: this.y - size, size, font, color: options.color ?? TEXT_COLOR });
+      }
+      page.drawText(line, { x: this.x + indent, y: this.y - size, size, font, color: options.color ?? TEXT_COLOR });
+      this.y -= lineHeight;
+    });
+
+    this.y -= options.spacing ?? 0;
+  }
+
+  heading(text: string, fonts: Fonts) {
+    this.ensureRoom(40);
+    this.text(text, fonts.bold, 12, { color: ACCENT_COLOR, spacing: 4 });
+  }
+}
+
+/**
+ * Lay out one recipe, starting on a new page
+ * @returns The number of pages the recipe used
+ */
+function drawRecipe(doc: PDFDocument, recipe: RecipeWithRelations, image: PDFImage | null, fonts: Fonts): number {
+  const pages: PDFPage[] = [];
+  const addPage = () => {
+    const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    if (pages.length > 0) {
+      page.drawText(encodable(`${recipe.title} (continued)`, fonts.italic), {
+        x: MARGIN, y: PAGE_HEIGHT - MARGIN - 10, size: 9, font: fonts.italic, color: MUTED_COLOR,
+      });
+    }
+    pages.push(page);
+    return page;
+  };
+  addPage();
+
+  const header = new Column(pages, addPage, MARGIN, CONTENT_WIDTH, PAGE_HEIGHT - MARGIN);
+  header.text(recipe.title, fonts.bold, 20, { spacing: 4 });
+  if (recipe.description) {
+    header.text(recipe.description, fonts.italic, 10, { color: MUTED_COLOR, spacing: 4 });
+  }
+
+  const details = [
+    `Serves ${recipe.servings}`,
+    recipe.prepTime ? `Prep ${formatMinutes(recipe.prepTime)}` : null,
+    recipe.cookTime ? `Cook ${formatMinutes(recipe.cookTime)}` : null,
+    recipe.totalTime ? `Total ${formatMinutes(recipe.totalTime)}` : null,
+  ].filter(Boolean);
+  header.text(details.join('  ·  '), fonts.regular, 9, { color: MUTED_COLOR, spacing: 10 });
+
+  if (image) {
+    const scale = Math.min(CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    pages[header.pageIndex].drawImage(image, { x: MARGIN, y: header.y - height, width, height });
+    header.y -= height + 14;
+  }
+
+  const ingredients = new Column(pages, addPage, MARGIN, INGREDIENT_COLUMN_WIDTH, header.y);
+  ingredients.heading('Ingredients', fonts);
+  for (const section of groupIntoSections(recipe.ingredients, (ingredient) => ingredient.section)) {
+    if (section.name) {
+      ingredients.text(section.name, fonts.bold, 9.5, { spacing: 3 });
+    }
+    for (const ingredient of section.items) {
+      ingredients.text(formatIngredientLine(ingredient), fonts.regular, 9.5, { indent: 10, prefix: '•', spacing: 3 });
+    }
+  }
+
+  const steps = new Column(
+    pages,
+    addPage,
+    MARGIN + INGREDIENT_COLUMN_WIDTH + COLUMN_GAP,
+    CONTENT_WIDTH - INGREDIENT_COLUMN_WIDTH - COLUMN_GAP,
+    header.y
+  );
+  steps.heading('Instructions', fonts);
+  for (const section of groupIntoSections(recipe.instructions, (instruction) => instruction.section)) {
+    if (section.name) {
+      steps.text(section.name, fonts.bold, 9.5, { spacing: 4 });
+    }
+    for (const instruction of section.items) {
+      steps.text(instruction.text, fonts.regular, 9.5, { indent: 16, prefix: `${instruction.step}.`, spacing: 5 });
+    }
+  }
+
+  if (recipe.notes) {
+    // Notes go below whichever column ends last
+    const last = ingredients.pageIndex === steps.pageIndex
+      ? (ingredients.y < steps.y ? ingredients : steps)
+      : (ingredients.pageIndex > steps.pageIndex ? ingredients : steps);
+    const notes = new Column(pages, addPage, MARGIN, CONTENT_WIDTH, last.y - 10);
+    notes.pageIndex = last.pageIndex;
+    notes.heading('Notes', fonts);
+    for (const paragraph of recipe.notes.split(/\n+/)) {
+      notes.text(paragraph, fonts.regular, 9.5, { spacing: 3 });
+    }
+  }
+
+  if (recipe.sourceUrl) {
+    const page = pages[pages.length - 1];
+    const source = wrapText(`Source: ${recipe.sourceUrl}`, fonts.regular, 8, CONTENT_WIDTH)[0];
+    page.drawText(source, { x: MARGIN, y: MARGIN + FOOTER_HEIGHT - 8, size: 8, font: fonts.regular, color: MUTED_COLOR });
+  }
+
+  return pages.length;
+}
+
+/**
+ * Render recipes into a PDF cookbook
+ * @param recipes Recipes in the order they should appear
+ * @param options Cookbook title and whether to include images
+ * @returns PDF file contents
+ */
+export async function renderCookbookPdf(recipes: RecipeWithRelations[], options: CookbookOptions): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(options.title);
+  doc.setCreator('My Recipe Book');
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+  };
+
+  // Title page
+  const cover = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const titleLines = wrapText(options.title, fonts.bold, 32, CONTENT_WIDTH);
+  titleLines.forEach((line, index) => {
+    cover.drawText(line, { x: MARGIN, y: PAGE_HEIGHT / 2 + 40 - index * 40, size: 32, font: fonts.bold, color: TEXT_COLOR });
+  });
+  cover.drawRectangle({ x: MARGIN, y: PAGE_HEIGHT / 2 + 20 - titleLines.length * 40, width: 80, height: 4, color: ACCENT_COLOR });
+  cover.drawText(`${recipes.length} ${recipes.length === 1 ? 'recipe' : 'recipes'}`, {
+    x: MARGIN, y: PAGE_HEIGHT / 2 - titleLines.length * 40, size: 12, font: fonts.regular, color: MUTED_COLOR,
+  });
+
+  // Recipes are laid out first, since the table of contents needs their page numbers
+  const tocPageCount = Math.max(1, Math.ceil(recipes.length / TOC_ENTRIES_PER_PAGE));
+  const entries: Array<{ title: string; page: number }> = [];
+  let pageNumber = 1 + tocPageCount + 1;
+
+  for (const recipe of recipes) {
+    const image = options.includeImages ? await embedImage(doc, recipe.imageUrls[0]) : null;
+    entries.push({ title: recipe.title, page: pageNumber });
+    pageNumber += drawRecipe(doc, recipe, image, fonts);
+  }
+
+  // Table of contents, inserted after the title page
+  for (let tocIndex = 0; tocIndex < tocPageCount; tocIndex++) {
+    const page = doc.insertPage(1 + tocIndex, [PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+    if (tocIndex === 0) {
+      page.drawText('Contents', { x: MARGIN, y: y - 20, size: 20, font: fonts.bold, color: TEXT_COLOR });
+      y -= 44;
+    }
+
+    for (const entry of entries.slice(tocIndex * TOC_ENTRIES_PER_PAGE, (tocIndex + 1) * TOC_ENTRIES_PER_PAGE)) {
+      const number = String(entry.page);
+      const numberWidth = fonts.regular.widthOfTextAtSize(number, 11);
+      const title = wrapText(entry.title, fonts.regular, 11, CONTENT_WIDTH - numberWidth - 40)[0] ?? '';
+      const titleWidth = fonts.regular.widthOfTextAtSize(title, 11);
+
+      page.drawText(title, { x: MARGIN, y: y - 11, size: 11, font: fonts.regular, color: TEXT_COLOR });
+      page.drawLine({
+        start: { x: MARGIN + titleWidth + 6, y: y - 11 },
+        end: { x: PAGE_WIDTH - MARGIN - numberWidth - 6, y: y - 11 },
+        thickness: 0.5,
+        color: MUTED_COLOR,
+        dashArray: [1, 3],
+      });
+      page.drawText(number, { x: PAGE_WIDTH - MARGIN - numberWidth, y: y - 11, size: 11, font: fonts.regular, color: TEXT_COLOR });
+      y -= 18;
+    }
+  }
+
+  // Page numbers on every page but the title page
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    if (index === 0) return;
+    const label = `${index + 1}`;
+    const width = fonts.regular.widthOfTextAtSize(label, 9);
+    page.drawText(label, { x: (PAGE_WIDTH - width) / 2, y: MARGIN / 2, size: 9, font: fonts.regular, color: MUTED_COLOR });
+  });
+
+  return doc.save();
+}
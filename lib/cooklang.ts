@@ -0,0 +1,435 @@
+/**
+ * Cooklang import and export
+ * Reads and writes recipes in the Cooklang text format (https://cooklang.org),
+ * where ingredients, cookware and timers are marked up inside the steps:
+ *
+ *   >> servings: 4
+ *   Fry @onion{1}(finely chopped) in @olive oil{2%tbsp} in a #large pan{}
+ *   for ~{5%minutes}.
+ */
+
+import { normalizeFractions, splitLeadingAmount } from './ingredient-parser';
+import { formatMinutes } from './durations';
+import { splitFrontMatter } from './front-matter';
+import { groupIntoSections, normalizeSectionName } from './recipe-sections';
+import type { RecipeWithRelations } from './recipe-store';
+import type { TagInput } from '@/types';
+
+export interface CooklangIngredient {
+  name: string;
+  /** Amount and unit as text, e.g. "2 tbsp"; empty when none is given */
+  quantity: string;
+  preparation: string | null;
+  /** Section of the step the ingredient is first mentioned in */
+  section?: string | null;
+}
+
+export interface CooklangRecipe {
+  /** Metadata keys in lowercase; repeated keys and lists are joined with ", " */
+  metadata: Record<string, string>;
+  ingredients: CooklangIngredient[];
+  cookware: string[];
+  /** Step text with the markup replaced by the plain names and durations */
+  steps: string[];
+  /** Section of each step, from "= Section" lines */
+  stepSections: (string | null)[];
+  /** Lines starting with ">" */
+  notes: string[];
+}
+
+type StepToken =
+  | { kind: 'text'; text: string }
+  | { kind: 'ingredient'; ingredient: CooklangIngredient }
+  | { kind: 'cookware'; name: string }
+  | { kind: 'timer'; name: string; quantity: string };
+
+// A single-word name ends at whitespace or punctuation
+const WORD_NAME_REGEX = /^[\p{L}\p{N}_'-]+/u;
+
+// Start of the step recipeToCooklang writes for ingredients no step mentions
+const UNMENTIONED_STEP_PREFIX = 'You will need ';
+
+/**
+ * Read a name and optional {...} after an @, # or ~ marker
+ * Multi-word names need braces ("@olive oil{}"); without them the name is a single word.
+ * @returns The name, the text inside the braces (null without braces) and the length consumed
+ */
+function readMarkup(text: string): { name: string; amount: string | null; length: number } | null {
+  const brace = text.indexOf('{');
+  if (brace !== -1) {
+    const name = text.slice(0, brace);
+    const close = text.indexOf('}', brace);
+    if (close !== -1 && !/[@#~{}\n]/.test(name)) {
+      return { name: name.trim(), amount: text.slice(brace + 1, close).trim(), length: close + 1 };
+    }
+  }
+
+  const word = text.match(WORD_NAME_REGEX);
+  return word ? { name: word[0], amount: null, length: word[0].length } : null;
+}
+
+/**
+ * Turn the text inside an ingredient or timer's braces into "amount unit"
+ * Examples: "2%tbsp" -> "2 tbsp", "=1%tsp" -> "1 tsp" (fixed amounts), "3" -> "3"
+ */
+function braceQuantity(amount: string | null): string {
+  if (!amount) return '';
+  const [quantity, unit = ''] = amount.split('%');
+  return `${quantity.replace(/^=|\*$/g, '').trim()} ${unit.trim()}`.trim();
+}
+
+/**
+ * Split a step into text and markup
+ */
+function tokenizeStep(step: string): StepToken[] {
+  const tokens: StepToken[] = [];
+  let text = '';
+  let i = 0;
+
+  const flushText = () => {
+    if (text) tokens.push({ kind: 'text', text });
+    text = '';
+  };
+
+  while (i < step.length) {
+    const char = step[i];
+
+    if (char === '\\' && /[@#~=>]/.test(step[i + 1] ?? '')) {
+      text += step[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '@' || char === '#' || char === '~') {
+      // Ingredient modifiers: optional (?), hidden (-), reference (&), new (+)
+      const modifiers = char === '@' ? (step.slice(i + 1).match(/^[?\-&+]+/)?.[0].length ?? 0) : 0;
+      const markup = readMarkup(step.slice(i + 1 + modifiers));
+
+      if (markup && (markup.name || (char === '~' && markup.amount !== null))) {
+        flushText();
+        i += 1 + modifiers + markup.length;
+
+        if (char === '@') {
+          let preparation: string | null = null;
+          const note = step.slice(i).match(/^\(([^)]*)\)/);
+          if (note && markup.amount !== null) {
+            preparation = note[1].trim() || null;
+            i += note[0].length;
+          }
+          tokens.push({
+            kind: 'ingredient',
+            ingredient: { name: markup.name, quantity: braceQuantity(markup.amount), preparation },
+          });
+        } else if (char === '#') {
+          tokens.push({ kind: 'cookware', name: markup.name });
+        } else {
+          tokens.push({ kind: 'timer', name: markup.name, quantity: braceQuantity(markup.amount) });
+        }
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * Render step tokens as plain text
+ */
+function renderStep(tokens: StepToken[]): string {
+  return tokens
+    .map((token) => {
+      switch (token.kind) {
+        case 'text':
+          return token.text;
+        case 'ingredient':
+          return token.ingredient.name;
+        case 'cookware':
+          return token.name;
+        case 'timer':
+          return token.quantity || token.name;
+      }
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether a step is the list of unmentioned ingredients recipeToCooklang writes:
+ * "You will need @flour{2%cups}, @salt{}."
+ */
+function isUnmentionedStep(tokens: StepToken[]): boolean {
+  const [first, ...rest] = tokens;
+  return first?.kind === 'text' && first.text === UNMENTIONED_STEP_PREFIX && rest.length > 0 &&
+    rest.every((token, index) => index % 2 === 0
+      ? token.kind === 'ingredient'
+      : token.kind === 'text' && token.text === (index === rest.length - 1 ? '.' : ', '));
+}
+
+/**
+ * Add a metadata value, joining repeated keys
+ */
+function addMetadata(metadata: Record<string, string>, key: string, value: string) {
+  const name = key.trim().toLowerCase().replace(/[._]/g, ' ').replace(/\s+/g, ' ');
+  const trimmed = value.trim().replace(/^(["'])(.*)\1$/, '$2');
+  if (!name || !trimmed) return;
+  metadata[name] = metadata[name] ? `${metadata[name]}, ${trimmed}` : trimmed;
+}
+
+/**
+ * Parse a Cooklang recipe
+ * Each paragraph is a step. ">> key: value" lines and YAML front matter are
+ * metadata, "> " lines are notes, "-- " and "[- -]" are comments, and "= Section"
+ * lines end the current step and start a section. The list of unmentioned
+ * ingredients written by recipeToCooklang only adds its ingredients, not a step.
+ * @param text Contents of a .cook file
+ * @returns Parsed recipe
+ */
+export function parseCooklang(text: string): CooklangRecipe {
+  const metadata: Record<string, string> = {};
+  const ingredients: CooklangIngredient[] = [];
+  const cookware: string[] = [];
+  const steps: string[] = [];
+  const stepSections: (string | null)[] = [];
+  const notes: string[] = [];
+  let section: string | null = null;
+
+  const { data, body } = splitFrontMatter(text);
+  for (const [key, value] of Object.entries(data)) {
+    for (const item of [value].flat()) addMetadata(metadata, key, item);
+  }
+  const lines = body.replace(/\[-[\s\S]*?-\]/g, '').split('\n');
+
+  let stepLines: string[] = [];
+  const endStep = () => {
+    if (stepLines.length === 0) return;
+    const tokens = tokenizeStep(stepLines.join(' '));
+    stepLines = [];
+
+    for (const token of tokens) {
+      if (token.kind === 'cookware' && !cookware.includes(token.name)) {
+        cookware.push(token.name);
+      }
+      if (token.kind !== 'ingredient') continue;
+
+      // Repeated mentions only add a line when they bring a new amount
+      const { ingredient } = token;
+      const existing = ingredients.find((i) => i.name.toLowerCase() === ingredient.name.toLowerCase());
+      if (existing && !existing.quantity) {
+        existing.quantity = ingredient.quantity;
+        existing.preparation ??= ingredient.preparation;
+      } else if (!existing || ingredient.quantity) {
+        ingredients.push({ ...ingredient, section });
+      }
+    }
+
+    const step = isUnmentionedStep(tokens) ? '' : renderStep(tokens);
+    if (step) {
+      steps.push(step);
+      stepSections.push(section);
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/(^|\s)--.*$/, '').trim();
+
+    const meta = line.match(/^>>\s*([^:]+):(.*)$/);
+    if (meta) {
+      addMetadata(metadata, meta[1], meta[2]);
+    } else if (line.startsWith('>')) {
+      notes.push(line.replace(/^>\s?/, ''));
+    } else if (line.startsWith('=')) {
+      endStep();
+      section = normalizeSectionName(line);
+    } else if (!line) {
+      endStep();
+    } else {
+      stepLines.push(line);
+    }
+  }
+  endStep();
+
+  return { metadata, ingredients, cookware, steps, stepSections, notes };
+}
+
+/**
+ * Split a metadata list such as "soup, winter"
+ */
+function metadataList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Map a parsed Cooklang recipe onto raw recipe data for sanitizeRecipeData
+ * @param recipe Parsed recipe
+ * @param fileName Name of the .cook file, used as the title when the metadata has none
+ * @returns Raw recipe data plus the notes, which are not part of validated recipe data
+ */
+export function cooklangToRecipeData(recipe: CooklangRecipe, fileName?: string) {
+  const meta = (...keys: string[]) => keys.map((key) => recipe.metadata[key]).find(Boolean);
+
+  const sourceUrl = meta('source url', 'source', 'url');
+  const tags: TagInput[] = [
+    ...metadataList(meta('course', 'category')).map((name) => ({ name, kind: 'category' as const })),
+    ...metadataList(meta('cuisine')).map((name) => ({ name, kind: 'cuisine' as const })),
+    ...metadataList(meta('tags', 'keywords')).map((name) => ({ name, kind: 'tag' as const })),
+  ];
+
+  return {
+    title: meta('title', 'name') ?? fileName?.replace(/\.cook$/i, ''),
+    // A description is required
+    description: meta('description', 'introduction') || 'Imported from Cooklang',
+    servings: meta('servings', 'serves', 'yield')?.match(/\d+/)?.[0],
+    prepTime: meta('prep time', 'time prep'),
+    cookTime: meta('cook time', 'time cook'),
+    totalTime: meta('total time', 'time', 'duration', 'time required'),
+    ingredients: recipe.ingredients,
+    instructions: recipe.steps.map((text, index) => ({ text, section: recipe.stepSections[index] })),
+    imageUrls: (meta('image', 'images') ?? '').split(/[\s,]+/).filter((url) => /^https?:\/\//i.test(url)),
+    sourceUrl: sourceUrl && /^https?:\/\//i.test(sourceUrl) ? sourceUrl : undefined,
+    tags,
+    notes: recipe.notes.join('\n').trim() || undefined,
+  };
+}
+
+// Durations written in steps, marked up as timers on export
+const TIMER_REGEX = /(\d+(?:\.\d+)?(?:\s*(?:-|to)\s*\d+(?:\.\d+)?)?)\s*(seconds?|secs?|minutes?|mins?|hours?|hrs?)\b/gi;
+
+/**
+ * Escape step text so it is not read as markup
+ */
+function escapeText(text: string): string {
+  return text.replace(/[@#~]/g, '\\$&');
+}
+
+/**
+ * Escape the start of a step so it is not read as a section ("=") or note (">") line
+ */
+function escapeLineStart(line: string): string {
+  return line.replace(/^[=>]/, '\\$&');
+}
+
+/**
+ * Write an ingredient's quantity in Cooklang form, e.g. "2 cups" -> "2%cups"
+ */
+function cooklangQuantity(quantity: string): string {
+  const text = normalizeFractions(quantity.replace(/[{}%]/g, ''));
+  const leading = splitLeadingAmount(text);
+  if (!leading || !leading.remainder) return text;
+  return `${text.slice(0, text.length - leading.remainder.length).trim()}%${leading.remainder}`;
+}
+
+/**
+ * Write an ingredient as Cooklang markup
+ * @param name Name as it appears in the step
+ */
+function ingredientMarkup(name: string, ingredient: RecipeWithRelations['ingredients'][number]): string {
+  const preparation = ingredient.preparation?.replace(/[()]/g, '').trim();
+  return `@${name.replace(/[{}@#~]/g, '')}{${cooklangQuantity(ingredient.quantity)}}${preparation ? `(${preparation})` : ''}`;
+}
+
+/**
+ * Mark up the first mention of an ingredient in a step
+ * Only plain text segments are searched, so ingredients already marked up are left alone.
+ * @returns True if the ingredient was found
+ */
+function markIngredient(segments: Array<{ text: string; markup: boolean }>, ingredient: RecipeWithRelations['ingredients'][number]): boolean {
+  const name = ingredient.name.trim();
+  if (!name) return false;
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escaped})`, 'iu');
+
+  for (const [index, segment] of segments.entries()) {
+    if (segment.markup) continue;
+    const match = segment.text.match(pattern);
+    if (!match || match.index === undefined) continue;
+
+    const start = match.index + match[1].length;
+    const end = start + match[2].length;
+    segments.splice(
+      index,
+      1,
+      { text: segment.text.slice(0, start), markup: false },
+      { text: ingredientMarkup(match[2], ingredient), markup: true },
+      { text: segment.text.slice(end), markup: false }
+    );
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Write the metadata line for a key, skipping empty values
+ */
+function metadataLine(key: string, value: string | number | null | undefined): string[] {
+  if (value === null || value === undefined || value === '') return [];
+  return [`>> ${key}: ${String(value).replace(/\s+/g, ' ').trim()}`];
+}
+
+/**
+ * Write a recipe as Cooklang
+ * Each ingredient is marked up at its first mention in the steps. Ingredients the
+ * steps never mention are listed in an extra first step, since Cooklang has no
+ * separate ingredient list; parseCooklang reads it back as ingredients only. Durations in the steps become timers. Nutrition is
+ * not written; Cooklang has no standard for it. Step sections are written as
+ * "= Section" lines; ingredient sections are not, as ingredients only appear in steps.
+ * @param recipe Recipe with its relations
+ * @returns Contents of a .cook file
+ */
+export function recipeToCooklang(recipe: RecipeWithRelations): string {
+  const tagNames = (kind: string) => recipe.tags.filter((tag) => tag.kind === kind).map((tag) => tag.name).join(', ');
+
+  const steps = recipe.instructions.map((instruction) => [
+    { text: instruction.text.replace(/\s+/g, ' ').trim(), markup: false },
+  ]);
+
+  // Longer names first, so "olive oil" is found before "oil"
+  const unmentioned = [...recipe.ingredients]
+    .sort((a, b) => b.name.length - a.name.length)
+    .filter((ingredient) => !steps.some((segments) => markIngredient(segments, ingredient)));
+
+  const stepText = steps.map((segments) =>
+    segments
+      .map((segment) => segment.markup
+        ? segment.text
+        : escapeText(segment.text).replace(TIMER_REGEX, (_, amount: string, unit: string) => `~{${amount.replace(/\s+/g, ' ')}%${unit}}`))
+      .join('')
+  ).map(escapeLineStart);
+
+  const body = groupIntoSections(stepText, (_, index) => recipe.instructions[index].section)
+    .flatMap((section) => (section.name ? [`= ${section.name}`, ...section.items] : section.items));
+
+  if (unmentioned.length > 0) {
+    const list = recipe.ingredients
+      .filter((ingredient) => unmentioned.includes(ingredient))
+      .map((ingredient) => ingredientMarkup(ingredient.name, ingredient));
+    body.unshift(`${UNMENTIONED_STEP_PREFIX}${list.join(', ')}.`);
+  }
+
+  const metadata = [
+    ...metadataLine('title', recipe.title),
+    ...metadataLine('description', recipe.description),
+    ...metadataLine('servings', recipe.servings),
+    ...metadataLine('prep time', recipe.prepTime ? formatMinutes(recipe.prepTime) : null),
+    ...metadataLine('cook time', recipe.cookTime ? formatMinutes(recipe.cookTime) : null),
+    ...metadataLine('total time', recipe.totalTime ? formatMinutes(recipe.totalTime) : null),
+    ...metadataLine('course', tagNames('category')),
+    ...metadataLine('cuisine', tagNames('cuisine')),
+    ...metadataLine('tags', tagNames('tag')),
+    ...metadataLine('source', recipe.sourceUrl),
+    ...recipe.imageUrls.filter((url) => /^https?:\/\//i.test(url)).flatMap((url) => metadataLine('image', url)),
+  ];
+
+  const notes = recipe.notes
+    ? recipe.notes.split('\n').map((line) => `> ${line}`.trimEnd())
+    : [];
+
+  return [metadata.join('\n'), ...body, ...(notes.length > 0 ? [notes.join('\n')] : [])]
+    .filter(Boolean)
+    .join('\n\n') + '\n';
+}
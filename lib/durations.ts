@@ -0,0 +1,110 @@
+/**
+ * Recipe durations
+ * Parses ISO 8601 durations (as used by schema.org) and free text into minutes,
+ * and formats minutes for display
+ */
+
+export interface RecipeTimes {
+  prepTime: number | null;
+  cookTime: number | null;
+  totalTime: number | null;
+}
+
+// PT1H30M, P1DT2H, PT45M, PT0.5H
+const ISO_DURATION_REGEX = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+// "1 hour 30 minutes", "1 hr 20 mins", "45 min", "2h"
+const TEXT_DURATION_REGEX = /(\d+(?:\.\d+)?)\s*(days?|d|hours?|hrs?|h|minutes?|mins?|m)\b/gi;
+
+// Anything longer than a week is a parsing mistake, not a recipe
+const MAX_MINUTES = 7 * 24 * 60;
+
+/**
+ * Parse an ISO 8601 duration into minutes
+ * Examples: "PT1H30M" -> 90, "PT20M" -> 20, "P1D" -> 1440
+ * @param value ISO 8601 duration
+ * @returns Whole minutes, or null if the value is not an ISO duration
+ */
+export function parseIsoDuration(value: string): number | null {
+  const match = value.trim().match(ISO_DURATION_REGEX);
+  if (!match || value.trim().toUpperCase() === 'P' || value.trim().toUpperCase() === 'PT') return null;
+
+  const [, days, hours, minutes, seconds] = match.map((part) => (part ? parseFloat(part) : 0));
+  return Math.round(days * 24 * 60 + hours * 60 + minutes + seconds / 60);
+}
+
+/**
+ * Format minutes as an ISO 8601 duration
+ * Examples: 90 -> "PT1H30M", 20 -> "PT20M", 120 -> "PT2H"
+ * @param minutes Duration in minutes
+ * @returns ISO 8601 duration
+ */
+export function formatIsoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+/**
+ * Convert a duration given in any common form into minutes
+ * Accepts numbers (already minutes), numeric strings, ISO 8601 durations and
+ * free text such as "1 hour 15 minutes".
+ * @param value Raw duration
+ * @returns Whole minutes, or null if the value cannot be understood
+ */
+export function toMinutes(value: unknown): number | null {
+  let minutes: number | null = null;
+
+  if (typeof value === 'number') {
+    minutes = Math.round(value);
+  } else if (typeof value === 'string' && value.trim()) {
+    const text = value.trim();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      minutes = Math.round(parseFloat(text));
+    } else if (/^P/i.test(text)) {
+      minutes = parseIsoDuration(text);
+    } else {
+      let total = 0;
+      let matched = false;
+      for (const [, amount, unit] of text.matchAll(TEXT_DURATION_REGEX)) {
+        const factor = /^d/i.test(unit) ? 24 * 60 : /^h/i.test(unit) ? 60 : 1;
+        total += parseFloat(amount) * factor;
+        matched = true;
+      }
+      minutes = matched ? Math.round(total) : null;
+    }
+  }
+
+  if (minutes === null || !Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_MINUTES) {
+    return null;
+  }
+  return minutes;
+}
+
+/**
+ * Clean up prep, cook and total time, filling in the total from prep and cook
+ * time when it is missing
+ * @param times Raw times in any form understood by toMinutes
+ * @returns Times in minutes
+ */
+export function resolveRecipeTimes(times: { prepTime?: unknown; cookTime?: unknown; totalTime?: unknown }): RecipeTimes {
+  const prepTime = toMinutes(times.prepTime);
+  const cookTime = toMinutes(times.cookTime);
+  const totalTime = toMinutes(times.totalTime)
+    ?? (prepTime !== null || cookTime !== null ? (prepTime ?? 0) + (cookTime ?? 0) : null);
+
+  return { prepTime, cookTime, totalTime };
+}
+
+/**
+ * Format minutes for display
+ * Examples: 45 -> "45 min", 90 -> "1 hr 30 min", 120 -> "2 hr"
+ * @param minutes Duration in minutes
+ * @returns Human-readable duration
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+}
@@ -0,0 +1,85 @@
+/**
+ * Extraction cache
+ * Keeps what extractRecipeFromUrl read from each page for a week, so importing
+ * the same URL again skips fetching the page and running the AI
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ParsedRecipeData } from './structured-data-parser';
+
+/**
+ * Tiers of extractRecipeFromUrl, in the order they are tried
+ * "ai-page" is the AI reading the fetched page, "ai-search" the AI finding the
+ * page itself.
+ */
+export const EXTRACTION_TIERS = ['site', 'json-ld', 'microdata', 'ai-page', 'ai-search'] as const;
+
+export type ExtractionTier = (typeof EXTRACTION_TIERS)[number];
+
+export const EXTRACTION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedExtraction {
+  data: ParsedRecipeData;
+  tier: ExtractionTier;
+  warnings: string[];
+  createdAt: Date;
+}
+
+/**
+ * Get the cached extraction for a page
+ * @param url URL as returned by normalizeUrl
+ * @returns The cached extraction, or null if there is none or it has expired
+ */
+export async function getCachedExtraction(url: string): Promise<CachedExtraction | null> {
+  try {
+    const entry = await prisma.extractionCache.findUnique({ where: { url } });
+    if (!entry || entry.expiresAt <= new Date()) return null;
+
+    return {
+      data: entry.data as unknown as ParsedRecipeData,
+      tier: entry.tier as ExtractionTier,
+      warnings: entry.warnings,
+      createdAt: entry.createdAt,
+    };
+  } catch (error) {
+    // The cache only saves time, so extraction goes on without it
+    console.error('Error reading extraction cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Cache the extraction for a page, replacing an earlier one
+ * Expired entries are removed at the same time.
+ * @param url URL as returned by normalizeUrl
+ * @param extraction Fetched HTML, if any, the parsed recipe, the tier that found it
+ * and warnings from reading the page
+ */
+export async function cacheExtraction(
+  url: string,
+  extraction: { html?: string | null; data: ParsedRecipeData; tier: ExtractionTier; warnings?: string[] }
+): Promise<void> {
+  const now = new Date();
+  const values = {
+    html: extraction.html ?? null,
+    data: extraction.data as unknown as Prisma.InputJsonValue,
+    tier: extraction.tier,
+    warnings: extraction.warnings ?? [],
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + EXTRACTION_CACHE_TTL_MS),
+  };
+
+  try {
+    await prisma.$transaction([
+      prisma.extractionCache.deleteMany({ where: { expiresAt: { lte: now } } }),
+      prisma.extractionCache.upsert({
+        where: { url },
+        create: { url, ...values },
+        update: values,
+      }),
+    ]);
+  } catch (error) {
+    console.error('Error writing extraction cache:', error);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Extraction provenance
+ * Records how a generated recipe was made (the method that found it, which
+ * fields came from the page and which from the AI, warnings, timings and
+ * models), so recipes the AI may have made up can be flagged for review
+ */
+
+import type { ProvenanceMethod, RecipeProvenance } from '@/types';
+import { canonicalIngredientName } from './grocery-categories';
+
+export const PROVENANCE_METHODS = [
+  'site', 'json-ld', 'microdata', 'ai-page', 'ai-search', 'youtube', 'image',
+] as const satisfies readonly ProvenanceMethod[];
+
+// Methods where the AI wrote the recipe rather than it being read from markup
+export const AI_WRITTEN_METHODS: readonly ProvenanceMethod[] = ['ai-page', 'ai-search', 'youtube', 'image'];
+
+// Methods where the AI had no page text to work from, so it may have invented the recipe
+export const AI_INVENTED_METHODS: readonly ProvenanceMethod[] = ['ai-search', 'image'];
+
+// Recipe fields reported in parsedFields and aiFields
+const PROVENANCE_FIELDS = [
+  'title', 'description', 'servings', 'prepTime', 'cookTime', 'totalTime',
+  'ingredients', 'instructions', 'tags', 'nutrition',
+] as const;
+
+/**
+ * List the recipe fields that have a value
+ * @param data Recipe data as extracted, before defaults are filled in
+ */
+export function filledFields(data: Record<string, unknown>): string[] {
+  return PROVENANCE_FIELDS.filter((field) => {
+    const value = data[field];
+    if (Array.isArray(value)) return value.length > 0;
+    return value !== null && value !== undefined && value !== '';
+  });
+}
+
+/**
+ * Run one stage of an extraction and record how long it took
+ * @param timings Timings of the extraction so far, appended to
+ * @param stage Stage name, e.g. "fetch" or "json-ld"
+ * @param run The stage
+ * @returns What the stage returned
+ */
+export async function timeStage<T>(
+  timings: RecipeProvenance['timings'],
+  stage: string,
+  run: () => T | Promise<T>
+): Promise<T> {
+  const start = Date.now();
+  try {
+    return await run();
+  } finally {
+    timings.push({ stage, ms: Date.now() - start });
+  }
+}
+
+/**
+ * Check an extracted recipe for gaps that validation lets through
+ * @param data Recipe data as extracted, before defaults are filled in
+ * @returns Warnings to show with the recipe
+ */
+export function recipeWarnings(data: {
+  servings?: unknown;
+  prepTime?: number | null;
+  cookTime?: number | null;
+  totalTime?: number | null;
+  ingredients?: { quantity?: string | null }[];
+  instructions?: unknown[];
+}): string[] {
+  const warnings: string[] = [];
+
+  const servings = parseInt(String(data.servings), 10);
+  if (isNaN(servings) || servings <= 0) {
+    warnings.push('Servings were not given, so 4 was assumed');
+  }
+  if (!data.prepTime && !data.cookTime && !data.totalTime) {
+    warnings.push('No cooking times were found');
+  }
+
+  const withoutQuantity = (data.ingredients ?? []).filter((ingredient) => !ingredient.quantity?.trim()).length;
+  if (withoutQuantity > 0) {
+    warnings.push(`${withoutQuantity} ${withoutQuantity === 1 ? 'ingredient has' : 'ingredients have'} no quantity`);
+  }
+  if ((data.instructions ?? []).length === 1) {
+    warnings.push('The method is a single step, so steps may have been run together');
+  }
+
+  return warnings;
+}
+
+/**
+ * Find ingredients the AI returned that do not appear in the page text
+ * Only the last word of each canonical name is looked for ("yellow onion" ->
+ * "onion"), which still catches ingredients that were made up.
+ * @param ingredients Ingredients written by the AI
+ * @param pageText Text of the page the AI read
+ * @returns A warning naming the missing ingredients, or null if all were found
+ */
+export function unmatchedIngredientsWarning(ingredients: { name: string }[], pageText: string): string | null {
+  const text = pageText.toLowerCase();
+  const missing = ingredients
+    .filter((ingredient) => {
+      const headWord = canonicalIngredientName(ingredient.name).split(' ').pop();
+      return headWord && !text.includes(headWord);
+    })
+    .map((ingredient) => ingredient.name);
+
+  return missing.length > 0 ? `Not found on the page: ${missing.join(', ')}` : null;
+}
+
+/**
+ * Check whether a recipe should be flagged for review
+ * Recipes the AI invented always are; other recipes the AI wrote are when
+ * there were warnings. Marking the recipe as reviewed clears the flag.
+ * @param provenance Provenance of the recipe
+ */
+export function needsReview(provenance: RecipeProvenance): boolean {
+  if (provenance.reviewedAt) return false;
+  if (AI_INVENTED_METHODS.includes(provenance.method)) return true;
+  return AI_WRITTEN_METHODS.includes(provenance.method) && provenance.warnings.length > 0;
+}
@@ -10,7 +10,9 @@ export class RecipeExtractionError extends Error {
     message: string,
     public code: 'NETWORK_ERROR' | 'NO_RECIPE_FOUND' | 'PARSING_ERROR' | 'API_LIMIT' | 'TIMEOUT' | 'VALIDATION_ERROR',
     public url?: string,
-    public cause?: Error
+    public cause?: Error,
+    /** HTTP status of a page that could not be fetched */
+    public status?: number
   ) {
     super(message);
     this.name = 'RecipeExtractionError';
@@ -22,12 +24,20 @@ export class RecipeExtractionError extends Error {
  * @param fn Function to retry
  * @param maxRetries Maximum number of retry attempts (default: 3)
  * @param initialDelay Initial delay in ms (default: 1000)
+ * @param options.signal Stops retrying once aborted
+ * @param options.onRetry Called before each retry with the attempt about to be made
+ * @param options.shouldRetry Only errors it accepts are retried; all are by default
  * @returns Result of the function
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  initialDelay: number = 1000
+  initialDelay: number = 1000,
+  options: {
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, maxRetries: number, error: Error) => void;
+    shouldRetry?: (error: Error) => boolean;
+  } = {}
 ): Promise<T> {
   let lastError: Error;
 
@@ -44,14 +54,15 @@ export async function withRetry<T>(
         }
       }
 
-      // If this is the last attempt, throw the error
-      if (attempt === maxRetries - 1) {
+      // If this is the last attempt, or nobody is waiting for the result, throw the error
+      if (attempt === maxRetries - 1 || options.signal?.aborted || options.shouldRetry?.(lastError) === false) {
         throw lastError;
       }
 
       // Wait before retrying with exponential backoff
       const delay = initialDelay * Math.pow(2, attempt);
       console.log(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms...`);
+      options.onRetry?.(attempt + 2, maxRetries, lastError);
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
@@ -64,42 +75,57 @@ export async function withRetry<T>(
  * @param promise Promise to wrap
  * @param timeoutMs Timeout in milliseconds (default: 30000)
  * @param errorMessage Custom error message
+ * @param url Page being fetched, recorded on the timeout error
  * @returns Result of the promise
  */
 export async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number = 30000,
-  errorMessage: string = 'Request timeout'
+  errorMessage: string = 'Request timeout',
+  url?: string
 ): Promise<T> {
   return Promise.race([
     promise,
     new Promise<T>((_, reject) =>
       setTimeout(
-        () => reject(new RecipeExtractionError(errorMessage, 'TIMEOUT')),
+        () => reject(new RecipeExtractionError(errorMessage, 'TIMEOUT', url)),
         timeoutMs
       )
     )
   ]);
 }
 
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAM_REGEX = /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|igshid|si|_ga|_gl|ref_src)$/i;
+
 /**
  * Normalize a URL to ensure it's valid
+ * Tracking parameters and the fragment are removed, so links to the same page
+ * shared from different places give the same URL.
  * @param url URL to normalize
  * @returns Normalized URL
  */
 export function normalizeUrl(url: string): string {
+  url = url.trim();
+
   // Add protocol if missing
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
     url = 'https://' + url;
   }
 
   // Validate URL
+  let parsed: URL;
   try {
-    new URL(url);
-    return url;
+    parsed = new URL(url);
   } catch {
     throw new RecipeExtractionError('Invalid URL format', 'VALIDATION_ERROR', url);
   }
+
+  for (const key of Array.from(parsed.searchParams.keys())) {
+    if (TRACKING_PARAM_REGEX.test(key)) parsed.searchParams.delete(key);
+  }
+  parsed.hash = '';
+  return parsed.toString();
 }
 
 /**
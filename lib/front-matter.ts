@@ -0,0 +1,102 @@
+/**
+ * YAML front matter
+ * Reads and writes the subset of YAML that recipe files use between "---"
+ * lines: "key: value" pairs, quoted strings, and lists written either as
+ * "- item" lines or inline as "[a, b]"
+ */
+
+export type FrontMatter = Record<string, string | string[]>;
+
+// Plain scalars that need no quoting: no leading indicator and no ": " or " #"
+const PLAIN_SCALAR_REGEX = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^:#]*$/;
+
+/**
+ * Read a scalar value, removing quotes
+ */
+function parseScalar(value: string): string {
+  const trimmed = value.trim();
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+/**
+ * Split a document into its front matter and the text after it
+ * @param text Document text
+ * @returns Front matter values (empty if there is none) and the rest of the document
+ */
+export function splitFrontMatter(text: string): { data: FrontMatter; body: string } {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const data: FrontMatter = {};
+
+  if (lines[0]?.trim() !== '---') return { data, body: lines.join('\n') };
+  const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  if (end === -1) return { data, body: lines.join('\n') };
+
+  let listKey: string | null = null;
+  for (const line of lines.slice(1, end)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), parseScalar(item[1])];
+      continue;
+    }
+
+    const pair = line.match(/^([^:#\s][^:]*):(?:\s+(.*))?$/);
+    if (!pair) continue;
+    const key = pair[1].trim();
+    const value = (pair[2] ?? '').trim();
+
+    const inlineList = value.match(/^\[(.*)\]$/);
+    if (inlineList) {
+      data[key] = inlineList[1].split(',').map(parseScalar).filter(Boolean);
+      listKey = null;
+    } else if (value) {
+      data[key] = parseScalar(value);
+      listKey = null;
+    } else {
+      // A key without a value starts a block list
+      data[key] = [];
+      listKey = key;
+    }
+  }
+
+  return { data, body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Write a scalar, quoting it only when YAML would read it differently
+ */
+function formatScalar(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  const singleLine = value.replace(/\s+/g, ' ').trim();
+  return PLAIN_SCALAR_REGEX.test(singleLine) && !/^(true|false|null|yes|no|~|[\d.+-]+)$/i.test(singleLine)
+    ? singleLine
+    : JSON.stringify(singleLine);
+}
+
+/**
+ * Write front matter, skipping empty values
+ * @param data Values in the order they should appear
+ * @returns Front matter block including the "---" lines
+ */
+export function formatFrontMatter(data: Record<string, string | number | string[] | null | undefined>): string {
+  const lines = Object.entries(data).flatMap(([key, value]) => {
+    if (value === null || value === undefined || value === '') return [];
+    if (Array.isArray(value)) {
+      return value.length > 0 ? [`${key}:`, ...value.map((item) => `  - ${formatScalar(item)}`)] : [];
+    }
+    return [`${key}: ${formatScalar(value)}`];
+  });
+  return ['---', ...lines, '---'].join('\n');
+}
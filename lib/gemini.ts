@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { Ingredient } from '@/types';
+import type { Ingredient, ProvenanceMethod, RecipeProvenance } from '@/types';
 import {
   RecipeExtractionError,
   withRetry,
@@ -9,15 +9,48 @@ import {
 } from './extraction-utils';
 import {
   parseJsonLdRecipe,
+  parseInlineRecipe,
   parseOpenGraphTags,
   fetchHtmlContent,
   type ParsedRecipeData,
 } from './structured-data-parser';
+import { parseWithSiteExtractor } from './site-extractors';
+import { cacheExtraction, getCachedExtraction, type ExtractionTier } from './extraction-cache';
+import {
+  AI_WRITTEN_METHODS,
+  filledFields,
+  recipeWarnings,
+  timeStage,
+  unmatchedIngredientsWarning,
+} from './extraction-provenance';
+import {
+  reportStage,
+  retryReporting,
+  throwIfCancelled,
+  type GenerationProgress,
+} from './generation-progress';
 import {
   validateRecipeData,
   sanitizeRecipeData,
   type ValidatedRecipeData
 } from './recipe-validation';
+import { flattenInstructions } from './recipe-sections';
+
+// Models that generate recipes, recorded in their provenance
+const READING_MODEL = 'gemini-2.5-pro';
+const STRUCTURING_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Models each method calls, besides IMAGE_MODEL when a photo is generated
+const METHOD_MODELS: Record<ProvenanceMethod, string[]> = {
+  'site': [],
+  'json-ld': [],
+  'microdata': [],
+  'ai-page': [READING_MODEL, STRUCTURING_MODEL],
+  'ai-search': [READING_MODEL, STRUCTURING_MODEL],
+  'youtube': [READING_MODEL, STRUCTURING_MODEL],
+  'image': [READING_MODEL],
+};
 
 function getAI() {
   if (!process.env.GEMINI_API_KEY) {
@@ -32,6 +65,9 @@ const recipeSchema = {
     title: { type: Type.STRING },
     description: { type: Type.STRING },
     servings: { type: Type.INTEGER },
+    prepTime: { type: Type.INTEGER, description: "Preparation time in minutes" },
+    cookTime: { type: Type.INTEGER, description: "Cooking time in minutes" },
+    totalTime: { type: Type.INTEGER, description: "Total time in minutes" },
     ingredients: {
       type: Type.ARRAY,
       items: {
@@ -39,18 +75,43 @@ const recipeSchema = {
         properties: {
           name: { type: Type.STRING },
           quantity: { type: Type.STRING },
+          section: { type: Type.STRING, description: "Heading the ingredient is listed under, e.g. \"For the frosting\"; omit if none" },
         },
         required: ["name", "quantity"],
       },
     },
     instructions: {
       type: Type.ARRAY,
-      items: { type: Type.STRING },
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          section: { type: Type.STRING, description: "Heading the step is listed under; omit if none" },
+        },
+        required: ["text"],
+      },
+    },
+    tags: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          kind: { type: Type.STRING, format: "enum", enum: ["category", "cuisine", "tag"] },
+        },
+        required: ["name", "kind"],
+      },
     },
   },
   required: ["title", "description", "servings", "ingredients", "instructions"],
 };
 
+// Appended to recipe prompts so the AI suggests tags along with the recipe
+const TAG_SUGGESTION_PROMPT = `Also suggest up to 5 short lowercase tags: the course or dish type as kind "category" (e.g. "dessert", "main course"), the cuisine as kind "cuisine" (e.g. "italian"), and other useful labels such as diet or main ingredient as kind "tag" (e.g. "vegetarian", "chicken").`;
+
+// Appended to recipe prompts so headings within the recipe are kept
+const SECTION_PROMPT = `If the ingredients or steps are grouped under headings (e.g. "For the dough", "For the filling"), give each ingredient and step the heading it is listed under as its section, without the trailing colon; otherwise leave section out.`;
+
 const parseJsonResponse = (jsonString?: string): any => {
   try {
     if (!jsonString) {
@@ -68,27 +129,65 @@ const parseJsonResponse = (jsonString?: string): any => {
   }
 };
 
-export async function generateRecipeFromImage(mimeType: string, base64Image: string) {
+/**
+ * Put together the provenance of a generated recipe
+ * @param method How the recipe was found
+ * @param data Recipe data as extracted, before it was sanitized
+ * @param details Warnings from reading the source, stage timings, whether a
+ * photo was generated, and when the page was read if it came from the cache
+ */
+function recipeProvenance(
+  method: ProvenanceMethod,
+  data: Record<string, unknown>,
+  details: {
+    warnings?: string[];
+    timings: RecipeProvenance['timings'];
+    imageGenerated: boolean;
+    cachedAt?: Date | null;
+  }
+): RecipeProvenance {
+  const fields = filledFields(data);
+  const aiWritten = AI_WRITTEN_METHODS.includes(method);
+
+  return {
+    method,
+    parsedFields: aiWritten ? [] : fields,
+    aiFields: [...(aiWritten ? fields : []), ...(details.imageGenerated ? ['imageUrls'] : [])],
+    warnings: [...(details.warnings ?? []), ...recipeWarnings(data)],
+    timings: details.timings,
+    models: [...METHOD_MODELS[method], ...(details.imageGenerated ? [IMAGE_MODEL] : [])],
+    cachedAt: details.cachedAt?.toISOString() ?? null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export async function generateRecipeFromImage(
+  mimeType: string,
+  base64Image: string,
+  options: { progress?: GenerationProgress } = {}
+) {
+  const { progress } = options;
   try {
-    console.log(`📸 Starting recipe generation from image...`);
+    reportStage(progress, 'ai-image', `📸 Starting recipe generation from image...`);
+    const timings: RecipeProvenance['timings'] = [];
 
-    const recipeData = await withRetry(async () => {
+    const recipeData = await timeStage(timings, 'ai-image', () => withRetry(async () => {
       const ai = getAI();
       const imagePart = { inlineData: { mimeType, data: base64Image } };
-      const textPart = { text: "Analyze this image of a dish. Identify it and create a detailed recipe for it. If you can't identify a specific dish, make a recipe for what you see. Format the response as JSON using the provided schema." };
+      const textPart = { text: `Analyze this image of a dish. Identify it and create a detailed recipe for it. If you can't identify a specific dish, make a recipe for what you see. Format the response as JSON using the provided schema. ${SECTION_PROMPT} ${TAG_SUGGESTION_PROMPT}` };
 
       const response = await withTimeout(
         ai.models.generateContent({
-          model: 'gemini-2.5-pro',
+          model: READING_MODEL,
           contents: { parts: [imagePart, textPart] },
-          config: { responseMimeType: "application/json", responseSchema: recipeSchema },
+          config: { responseMimeType: "application/json", responseSchema: recipeSchema, abortSignal: progress?.signal },
         }),
         30000,
         'Image analysis timeout'
       );
 
       return parseJsonResponse(response.text);
-    }, 2); // Retry up to 2 times
+    }, 2, 1000, retryReporting(progress, 'Image analysis'))); // Retry up to 2 times
 
     // Sanitize and validate
     const sanitized = sanitizeRecipeData(recipeData);
@@ -96,8 +195,12 @@ export async function generateRecipeFromImage(mimeType: string, base64Image: str
 
     console.log(`✅ Image recipe generation complete: ${validated.title}`);
 
-    return validated;
+    return {
+      ...validated,
+      provenance: recipeProvenance('image', recipeData, { timings, imageGenerated: false }),
+    };
   } catch (error) {
+    throwIfCancelled(progress);
     console.error('Failed to generate recipe from image:', error);
     if (error instanceof RecipeExtractionError) {
       throw new Error(error.message);
@@ -106,23 +209,27 @@ export async function generateRecipeFromImage(mimeType: string, base64Image: str
   }
 }
 
-export async function structureTextToRecipe(text: string) {
+export async function structureTextToRecipe(text: string, progress?: GenerationProgress) {
   try {
+    reportStage(progress, 'structure', `🧩 Structuring the recipe...`);
     return await withRetry(async () => {
       const ai = getAI();
       const response = await withTimeout(
         ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: `Take the following text and structure it as a recipe. Format the response as JSON using the provided schema.\n\nText: "${text}"`,
-          config: { responseMimeType: "application/json", responseSchema: recipeSchema },
+          model: STRUCTURING_MODEL,
+          contents: `Take the following text and structure it as a recipe. Format the response as JSON using the provided schema. ${SECTION_PROMPT} ${TAG_SUGGESTION_PROMPT}\n\nText: "${text}"`,
+          config: { responseMimeType: "application/json", responseSchema: recipeSchema, abortSignal: progress?.signal },
         }),
         20000,
         'Recipe structuring timeout'
       );
 
-      return parseJsonResponse(response.text);
-    }, 2); // Retry up to 2 times
+      // Steps come back as { text, section }; callers expect plain strings
+      const recipeData = parseJsonResponse(response.text);
+      return { ...recipeData, ...flattenInstructions(recipeData.instructions) };
+    }, 2, 1000, retryReporting(progress, 'Recipe structuring')); // Retry up to 2 times
   } catch (error) {
+    throwIfCancelled(progress);
     console.error('Failed to structure text as recipe:', error);
     throw new RecipeExtractionError(
       'Failed to structure recipe data',
@@ -133,16 +240,21 @@ export async function structureTextToRecipe(text: string) {
   }
 }
 
-export async function generateImageForRecipe(title: string, description: string): Promise<string | null> {
+export async function generateImageForRecipe(
+  title: string,
+  description: string,
+  progress?: GenerationProgress
+): Promise<string | null> {
   try {
     const ai = getAI();
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model: IMAGE_MODEL,
       contents: {
         parts: [{ text: `Generate a delicious-looking photo of "${title}". It is described as: "${description}"` }],
       },
       config: {
         responseModalities: [Modality.IMAGE],
+        abortSignal: progress?.signal,
       },
     });
 
@@ -160,7 +272,7 @@ export async function generateImageForRecipe(title: string, description: string)
   }
 }
 
-async function getTranscriptFromYoutubeUrl(url: string): Promise<string | null> {
+async function getTranscriptFromYoutubeUrl(url: string, progress?: GenerationProgress): Promise<string | null> {
   const prompt = `You are a specialized AI assistant with expertise in processing YouTube video data. Your task is to find and return the full text transcript for a given YouTube video URL.
 Video URL: ${url}
 
@@ -177,9 +289,9 @@ Instructions:
       const ai = getAI();
       const response = await withTimeout(
         ai.models.generateContent({
-          model: 'gemini-2.5-pro',
+          model: READING_MODEL,
           contents: prompt,
-          config: { tools: [{ googleSearch: {} }] },
+          config: { tools: [{ googleSearch: {} }], abortSignal: progress?.signal },
         }),
         30000,
         'YouTube transcript extraction timeout'
@@ -191,10 +303,11 @@ Instructions:
         return null;
       }
       return text;
-    }, 2); // Retry up to 2 times
+    }, 2, 1000, retryReporting(progress, 'Transcript search')); // Retry up to 2 times
 
     return transcript;
   } catch (e) {
+    throwIfCancelled(progress);
     console.error("Transcript fetching failed", e);
     return null;
   }
@@ -206,11 +319,13 @@ function getYoutubeVideoId(url: string): string | null {
   return match ? match[1] : null;
 }
 
-export async function generateRecipeFromYoutubeUrl(url: string) {
+export async function generateRecipeFromYoutubeUrl(url: string, options: { progress?: GenerationProgress } = {}) {
+  const { progress } = options;
   try {
-    console.log(`🎥 Starting recipe extraction from YouTube: ${url}`);
+    reportStage(progress, 'transcript', `🎥 Starting recipe extraction from YouTube: ${url}`);
+    const timings: RecipeProvenance['timings'] = [];
 
-    const transcript = await getTranscriptFromYoutubeUrl(url);
+    const transcript = await timeStage(timings, 'transcript', () => getTranscriptFromYoutubeUrl(url, progress));
     if (!transcript) {
       throw new RecipeExtractionError(
         "Failed to retrieve transcript from YouTube video. The video may not have captions or may not contain a recipe.",
@@ -219,7 +334,7 @@ export async function generateRecipeFromYoutubeUrl(url: string) {
       );
     }
 
-    const recipeData = await structureTextToRecipe(transcript);
+    const recipeData = await timeStage(timings, 'structure', () => structureTextToRecipe(transcript, progress));
 
     // Sanitize and validate
     const sanitized = sanitizeRecipeData(recipeData);
@@ -227,80 +342,150 @@ export async function generateRecipeFromYoutubeUrl(url: string) {
 
     // Get thumbnail
     let finalImageUrls: string[] = [];
+    let imageGenerated = false;
     const videoId = getYoutubeVideoId(url);
     if (videoId) {
       const thumbnailUrl = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
       finalImageUrls.push(thumbnailUrl);
     } else {
-      const generatedImage = await generateImageForRecipe(
+      reportStage(progress, 'image', `🎨 Generating a photo of the dish...`);
+      const generatedImage = await timeStage(timings, 'image', () => generateImageForRecipe(
         validated.title,
-        validated.description
-      );
+        validated.description,
+        progress
+      ));
       if (generatedImage) {
         finalImageUrls.push(generatedImage);
+        imageGenerated = true;
       }
     }
 
     console.log(`✅ YouTube recipe extraction complete: ${validated.title}`);
 
-    return { ...validated, imageUrls: finalImageUrls };
+    return {
+      ...validated,
+      imageUrls: finalImageUrls,
+      provenance: recipeProvenance('youtube', recipeData, { timings, imageGenerated }),
+    };
   } catch (error) {
     if (error instanceof RecipeExtractionError) {
       console.error(`❌ YouTube extraction failed: ${error.message}`);
-      throw new Error(error.message);
+      // Rethrown as is so callers such as withRetry can tell permanent failures apart
+      throw error;
     }
     throw error;
   }
 }
 
+interface UrlExtraction {
+  data: ParsedRecipeData;
+  tier: ExtractionTier;
+  warnings: string[];
+  /** When the page was read, if it came from the extraction cache */
+  cachedAt: Date | null;
+}
+
 /**
  * Extract recipe data from URL using multi-tier strategy:
+ * 0. Try the extractor for the site, see lib/site-extractors
  * 1. Try JSON-LD structured data (fast, free, reliable)
- * 2. Try OpenGraph meta tags (basic info)
- * 3. Fall back to AI extraction (slow, paid, flexible)
+ * 2. Try microdata and RDFa markup (fast, free, found on older sites)
+ * 3. Try OpenGraph meta tags (basic info)
+ * 4. Fall back to AI extraction (slow, paid, flexible)
+ * Results are cached per normalized URL, see lib/extraction-cache.ts, unless
+ * the HTML came from the client.
+ * @param url Page URL
+ * @param options.html HTML of the page as the user's browser saw it, for pages
+ * we cannot fetch ourselves (paywalls, logins)
+ * @param options.refresh Read the page again even if it is cached
+ * @param options.progress Reports each tier as it is tried, and stops when the client disconnects
+ * @param timings Timings of the generation, appended to for each tier tried
+ * @returns The recipe, the tier that found it and warnings from reading the page
  */
-async function extractRecipeFromUrl(url: string): Promise<ParsedRecipeData | null> {
+async function extractRecipeFromUrl(
+  url: string,
+  options: { html?: string; refresh?: boolean; progress?: GenerationProgress } = {},
+  timings: RecipeProvenance['timings'] = []
+): Promise<UrlExtraction> {
+  const { html: pageHtml, progress } = options;
   const normalizedUrl = normalizeUrl(url);
   const domain = extractDomain(normalizedUrl);
 
-  console.log(`🔍 Extracting recipe from ${domain}...`);
+  reportStage(progress, 'fetch', `🔍 Extracting recipe from ${domain}...`);
 
   try {
-    // TIER 1: Try JSON-LD structured data
-    console.log(`📄 Trying JSON-LD structured data...`);
-    const html = await withTimeout(
-      fetchHtmlContent(normalizedUrl),
+    // HTML from the user's browser may have more than we could fetch, so it is always read
+    if (!pageHtml && !options.refresh) {
+      const cached = await timeStage(timings, 'cache', () => getCachedExtraction(normalizedUrl));
+      if (cached) {
+        reportStage(progress, 'cache', `💾 Using the ${cached.tier} extraction cached on ${cached.createdAt.toISOString()}`);
+        return { data: cached.data, tier: cached.tier, warnings: cached.warnings, cachedAt: cached.createdAt };
+      }
+    }
+
+    const html = pageHtml ?? await timeStage(timings, 'fetch', () => withTimeout(
+      fetchHtmlContent(normalizedUrl, progress?.signal),
       15000,
-      'Timeout fetching webpage'
-    );
+      'Timeout fetching webpage',
+      normalizedUrl
+    ));
+
+    const found = async (data: ParsedRecipeData, tier: ExtractionTier, warnings: string[] = []) => {
+      // HTML posted by a client is neither trusted for other imports of the
+      // URL nor kept, as it may be a logged-in page
+      if (!pageHtml) {
+        await cacheExtraction(normalizedUrl, { html, data, tier, warnings });
+      }
+      return { data, tier, warnings, cachedAt: null };
+    };
+
+    // TIER 0: Try the extractor written for this site, if there is one
+    const siteRecipe = await timeStage(timings, 'site', () => parseWithSiteExtractor(html, normalizedUrl));
+    if (siteRecipe) {
+      return found(siteRecipe, 'site');
+    }
 
-    const jsonLdRecipe = parseJsonLdRecipe(html, normalizedUrl);
+    // TIER 1: Try JSON-LD structured data
+    reportStage(progress, 'json-ld', `📄 Trying JSON-LD structured data...`);
+
+    const jsonLdRecipe = await timeStage(timings, 'json-ld', () => parseJsonLdRecipe(html, normalizedUrl));
     if (jsonLdRecipe) {
-      console.log(`✅ Successfully extracted recipe using JSON-LD`);
-      return jsonLdRecipe;
+      reportStage(progress, 'json-ld', `✅ Successfully extracted recipe using JSON-LD`);
+      return found(jsonLdRecipe, 'json-ld');
+    }
+
+    // TIER 2: Try microdata and RDFa markup
+    reportStage(progress, 'microdata', `🏷️ JSON-LD not found, trying microdata and RDFa...`);
+    const inlineRecipe = await timeStage(timings, 'microdata', () => parseInlineRecipe(html, normalizedUrl));
+    if (inlineRecipe) {
+      reportStage(progress, 'microdata', `✅ Successfully extracted recipe using microdata or RDFa`);
+      return found(inlineRecipe, 'microdata');
     }
 
-    // TIER 2: Try OpenGraph meta tags (partial data)
-    console.log(`📋 JSON-LD not found, trying OpenGraph tags...`);
+    // TIER 3: Try OpenGraph meta tags (partial data)
+    reportStage(progress, 'opengraph', `📋 No recipe markup found, trying OpenGraph tags...`);
     const ogData = parseOpenGraphTags(html, normalizedUrl);
 
-    // If we have basic metadata from OG tags, try to enhance with AI using the HTML
-    if (ogData && ogData.title) {
-      console.log(`🤖 Found basic metadata, using AI to extract full recipe from HTML...`);
+    // If we have basic metadata from OG tags, try to enhance with AI using the HTML.
+    // HTML from the user's browser is always worth a try: the AI cannot open those pages itself
+    if ((ogData && ogData.title) || pageHtml) {
+      reportStage(progress, 'ai-page', `🤖 Found basic metadata, using AI to extract full recipe from HTML...`);
       const textContent = extractTextFromHtml(html);
       if (textContent) {
-        const aiRecipe = await getTextContentFromUrlWithAI(normalizedUrl, textContent);
+        const aiRecipe = await timeStage(timings, 'ai-page', () => getTextContentFromUrlWithAI(normalizedUrl, textContent, progress));
         if (aiRecipe) {
-          return aiRecipe;
+          // The AI read the page, so what it returned can be checked against the page
+          const unmatched = unmatchedIngredientsWarning(aiRecipe.ingredients ?? [], textContent);
+          return found(aiRecipe, 'ai-page', unmatched ? [unmatched] : []);
         }
       }
     }
 
-    // TIER 3: Fall back to AI extraction with Google Search
-    console.log(`🤖 No structured data found, falling back to AI extraction...`);
-    const aiRecipe = await getTextContentFromUrlWithAI(normalizedUrl);
+    // TIER 4: Fall back to AI extraction with Google Search
+    reportStage(progress, 'ai-search', `🤖 No structured data found, falling back to AI extraction...`);
+    const aiRecipe = await timeStage(timings, 'ai-search', () => getTextContentFromUrlWithAI(normalizedUrl, undefined, progress));
     if (aiRecipe) {
-      return aiRecipe;
+      return found(aiRecipe, 'ai-search');
     }
 
     throw new RecipeExtractionError(
@@ -309,6 +494,7 @@ async function extractRecipeFromUrl(url: string): Promise<ParsedRecipeData | nul
       normalizedUrl
     );
   } catch (error) {
+    throwIfCancelled(progress);
     if (error instanceof RecipeExtractionError) {
       throw error;
     }
@@ -346,20 +532,26 @@ function extractTextFromHtml(html: string): string | null {
  * Use AI to extract recipe from URL or text content
  * @param url URL to extract from
  * @param textContent Optional pre-fetched text content
+ * @param progress Progress of the generation, if reported
  */
-async function getTextContentFromUrlWithAI(url: string, textContent?: string): Promise<ParsedRecipeData | null> {
+async function getTextContentFromUrlWithAI(
+  url: string,
+  textContent?: string,
+  progress?: GenerationProgress
+): Promise<ParsedRecipeData | null> {
   const prompt = textContent
     ? `Extract the recipe from this webpage text and structure it as a recipe. Text: "${textContent.substring(0, 10000)}"` // Limit text length
-    : `Please extract the main recipe content from the webpage at this URL: ${url}. Include the title, description, ingredients, and instructions. Return only the text of the recipe. If you cannot access the URL or find a recipe on the page, return the single word "ERROR".`;
+    : `Please extract the main recipe content from the webpage at this URL: ${url}. Include the title, description, ingredients, and instructions, keeping any headings they are grouped under. Return only the text of the recipe. If you cannot access the URL or find a recipe on the page, return the single word "ERROR".`;
 
   try {
     const recipeText = await withRetry(async () => {
       const ai = getAI();
       const response = await withTimeout(
         ai.models.generateContent({
-          model: 'gemini-2.5-pro',
+          model: READING_MODEL,
           contents: prompt,
-          config: textContent ? {} : { tools: [{ googleSearch: {} }] }, // Only use Google Search if no text provided
+          // Only use Google Search if no text provided
+          config: textContent ? { abortSignal: progress?.signal } : { tools: [{ googleSearch: {} }], abortSignal: progress?.signal },
         }),
         30000,
         'AI extraction timeout'
@@ -370,34 +562,33 @@ async function getTextContentFromUrlWithAI(url: string, textContent?: string): P
         return null;
       }
       return text;
-    }, 2); // Retry up to 2 times
+    }, 2, 1000, retryReporting(progress, 'AI extraction')); // Retry up to 2 times
 
     if (!recipeText) {
       return null;
     }
 
     // Structure the extracted text as a recipe using AI
-    const recipeData = await structureTextToRecipe(recipeText);
+    const recipeData = await structureTextToRecipe(recipeText, progress);
     return recipeData;
   } catch (e) {
+    throwIfCancelled(progress);
     console.error("AI extraction failed", e);
     return null;
   }
 }
 
-export async function generateRecipeFromUrl(url: string) {
+export async function generateRecipeFromUrl(
+  url: string,
+  options: { html?: string; refresh?: boolean; progress?: GenerationProgress } = {}
+) {
   try {
     console.log(`🔗 Starting recipe extraction from URL: ${url}`);
 
     // Extract recipe using multi-tier strategy
-    const recipeData = await extractRecipeFromUrl(url);
-    if (!recipeData) {
-      throw new RecipeExtractionError(
-        "Failed to extract recipe from URL",
-        'NO_RECIPE_FOUND',
-        url
-      );
-    }
+    const timings: RecipeProvenance['timings'] = [];
+    const extraction = await extractRecipeFromUrl(url, options, timings);
+    const recipeData = extraction.data;
 
     // Sanitize and validate the extracted data
     const sanitized = sanitizeRecipeData(recipeData);
@@ -405,21 +596,33 @@ export async function generateRecipeFromUrl(url: string) {
 
     // Generate or find images
     let finalImageUrls: string[] = [];
-    const generatedImage = await generateImageForRecipe(
+    reportStage(options.progress, 'image', `🎨 Generating a photo of the dish...`);
+    const generatedImage = await timeStage(timings, 'image', () => generateImageForRecipe(
       validated.title,
-      validated.description
-    );
+      validated.description,
+      options.progress
+    ));
     if (generatedImage) {
       finalImageUrls.push(generatedImage);
     }
 
     console.log(`✅ Recipe extraction complete: ${validated.title}`);
 
-    return { ...validated, imageUrls: finalImageUrls };
+    return {
+      ...validated,
+      imageUrls: finalImageUrls,
+      provenance: recipeProvenance(extraction.tier, { ...recipeData }, {
+        warnings: extraction.warnings,
+        timings,
+        imageGenerated: Boolean(generatedImage),
+        cachedAt: extraction.cachedAt,
+      }),
+    };
   } catch (error) {
     if (error instanceof RecipeExtractionError) {
       console.error(`❌ Recipe extraction failed: ${error.message}`);
-      throw new Error(error.message);
+      // Rethrown as is so callers such as withRetry can tell permanent failures apart
+      throw error;
     }
     throw error;
   }
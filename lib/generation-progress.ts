@@ -0,0 +1,154 @@
+/**
+ * Generation progress
+ * Lets recipe generation report each stage as it happens, streamed to the
+ * client as Server-Sent Events, and stops generation once the client has
+ * disconnected
+ */
+
+import type { GenerationEvent } from '@/types';
+
+/**
+ * Passed down through recipe generation by callers that want progress
+ */
+export interface GenerationProgress {
+  /** Called with each progress and retry event */
+  onEvent?: (event: GenerationEvent) => void;
+  /** Aborted when the client goes away; generation stops at the next stage */
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown when generation stops because the client disconnected
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Recipe generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/**
+ * Throw if the client has disconnected
+ * Also called in catch blocks that would otherwise swallow the abort and
+ * carry on with the next tier.
+ * @param progress Progress of the generation, if reported
+ * @throws GenerationCancelledError
+ */
+export function throwIfCancelled(progress: GenerationProgress | undefined): void {
+  if (progress?.signal?.aborted) {
+    throw new GenerationCancelledError();
+  }
+}
+
+/**
+ * Log a stage of recipe generation and report it
+ * @param progress Progress of the generation, if reported
+ * @param stage Stage name, e.g. "fetch" or "json-ld"
+ * @param message Message for the server log and the client
+ * @throws GenerationCancelledError if the client has disconnected
+ */
+export function reportStage(progress: GenerationProgress | undefined, stage: string, message: string): void {
+  console.log(message);
+  throwIfCancelled(progress);
+  progress?.onEvent?.({ type: 'progress', stage, message });
+}
+
+/**
+ * Options for withRetry that report retries and stop retrying after a disconnect
+ * @param progress Progress of the generation, if reported
+ * @param action What is being retried, e.g. "Image analysis"
+ */
+export function retryReporting(progress: GenerationProgress | undefined, action: string) {
+  return {
+    signal: progress?.signal,
+    onRetry: (attempt: number, maxAttempts: number, error: Error) => {
+      progress?.onEvent?.({
+        type: 'retry',
+        attempt,
+        maxAttempts,
+        message: `${action} failed (${error.message}), trying again (${attempt}/${maxAttempts})...`,
+      });
+    },
+  };
+}
+
+/**
+ * Stream the events of a generation as Server-Sent Events
+ * The stream ends after the final "result" or "error" event. When the client
+ * disconnects, the signal given to run is aborted.
+ * @param run Generates the recipe, reporting to the progress it is given, and
+ * returns the final event
+ * @param requestSignal Signal of the request, aborted when the client disconnects
+ * @returns Event stream for the response
+ */
+export function createGenerationStream(
+  run: (progress: GenerationProgress) => Promise<GenerationEvent>,
+  requestSignal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  requestSignal?.addEventListener('abort', () => controller.abort());
+
+  return new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: GenerationEvent) => {
+        if (controller.signal.aborted) return;
+        stream.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        send(await run({ onEvent: send, signal: controller.signal }));
+      } catch (error) {
+        if (error instanceof GenerationCancelledError || controller.signal.aborted) {
+          console.log('🛑 Recipe generation cancelled by the client');
+        } else {
+          console.error('Error generating recipe:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Failed to generate recipe' });
+        }
+      }
+
+      try {
+        stream.close();
+      } catch {
+        // Already cancelled by the client
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+}
+
+/**
+ * Read the events of a generation stream
+ * Used by the client; events are passed on as they arrive.
+ * @param response Response of POST /api/recipes/generate with an event stream
+ * @param onEvent Called with each event
+ */
+export async function readGenerationStream(
+  response: Response,
+  onEvent: (event: GenerationEvent) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; only the data line is needed
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const data = buffer
+        .slice(0, end)
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice('data: '.length))
+        .join('\n');
+      buffer = buffer.slice(end + 2);
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Grocery categories for shopping lists
+ * Maps ingredient names onto store sections, with user overrides taking
+ * precedence over the built-in keyword rules
+ */
+
+export const GROCERY_CATEGORIES = [
+  'Produce',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Bakery',
+  'Pantry',
+  'Spices & Seasonings',
+  'Frozen',
+  'Beverages',
+  'Other',
+] as const;
+
+export type GroceryCategory = (typeof GROCERY_CATEGORIES)[number];
+
+const DEFAULT_CATEGORY: GroceryCategory = 'Other';
+
+/**
+ * Keyword rules, checked in order. More specific rules come first so that
+ * "tomato paste" is pantry and "black pepper" is a spice, not produce.
+ */
+const CATEGORY_RULES: Array<{ pattern: RegExp; category: GroceryCategory }> = [
+  { pattern: /\bfrozen\b/, category: 'Frozen' },
+  { pattern: /\b(tomato (paste|sauce|puree)|canned|tinned|stock|broth|bouillon|peanut butter|coconut milk)\b/, category: 'Pantry' },
+  { pattern: /\b(salt|black pepper|peppercorns?|white pepper|cayenne|paprika|cumin|coriander seeds?|cinnamon|nutmeg|turmeric|oregano|chili powder|chilli flakes|red pepper flakes|curry powder|garam masala|bay leaf|bay leaves|garlic powder|onion powder|dried (herbs|thyme|rosemary|basil|parsley|sage|dill|mint)|vanilla|allspice|cardamom|seasoning)\b/, category: 'Spices & Seasonings' },
+  { pattern: /^pepper$/, category: 'Spices & Seasonings' },
+  { pattern: /\b(milk|butter|cheese|cheddar|parmesan|mozzarella|feta|ricotta|cream|yogh?urt|egg|eggs|creme fraiche|buttermilk|ghee)\b/, category: 'Dairy & Eggs' },
+  { pattern: /\b(chicken|beef|pork|bacon|sausage|turkey|lamb|ham|mince|steak|chorizo|prosciutto|fish|salmon|cod|tuna|shrimp|prawns?|scallops?|mussels|clams|anchov(y|ies))\b/, category: 'Meat & Seafood' },
+  { pattern: /\b(bread|buns?|rolls?|baguette|tortillas?|pita|naan|brioche|croissants?|bagels?)\b/, category: 'Bakery' },
+  { pattern: /\b(onions?|garlic|shallots?|scallions?|leeks?|tomato(es)?|potato(es)?|carrots?|celery|lettuce|spinach|kale|cabbage|broccoli|cauliflower|zucchini|courgettes?|cucumbers?|eggplants?|aubergines?|mushrooms?|bell peppers?|(red|green|yellow) peppers?|jalape[nñ]os?|chil(i|e|li)s?|avocados?|lemons?|limes?|oranges?|apples?|bananas?|berries|strawberries|blueberries|raspberries|grapes|pears?|peaches|mangoes|ginger|basil|parsley|cilantro|coriander|mint|dill|rosemary|thyme|sage|chives|corn|peas|green beans|asparagus|squash|pumpkin|beets?|radish(es)?|arugula|rocket)\b/, category: 'Produce' },
+  { pattern: /\b(flour|sugar|oil|vinegar|rice|pasta|spaghetti|penne|noodles|beans|lentils|chickpeas|oats|honey|syrup|soy sauce|sauce|mustard|ketchup|mayonnaise|baking (powder|soda)|yeast|cornstarch|cocoa|chocolate|nuts|almonds|walnuts|pecans|raisins|breadcrumbs|panko|quinoa|couscous|tahini|jam)\b/, category: 'Pantry' },
+  { pattern: /\b(wine|beer|juice|coffee|tea|soda water|sparkling water|rum|vodka|brandy)\b/, category: 'Beverages' },
+];
+
+// Size and freshness words that do not change what you buy
+const DESCRIPTOR_WORDS = /\b(large|small|medium|fresh|ripe|whole|extra|good quality|organic)\b/g;
+
+/**
+ * Reduce an ingredient name to a canonical form for matching
+ * Examples: "Large Eggs" -> "egg", "Yellow onions (about 2)" -> "yellow onion"
+ * @param name Ingredient name
+ * @returns Canonical ingredient name
+ */
+export function canonicalIngredientName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(DESCRIPTOR_WORDS, ' ')
+    .replace(/[^a-z0-9\s'-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const words = cleaned.split(' ');
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+}
+
+/**
+ * Naive English singularization, good enough for grocery nouns
+ */
+function singularize(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(oes|ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Pick a grocery category for an ingredient
+ * @param name Ingredient name
+ * @param overrides User-defined mapping from canonical ingredient name to category
+ * @returns Category name
+ */
+export function categorizeIngredient(name: string, overrides: Record<string, string> = {}): string {
+  const canonical = canonicalIngredientName(name);
+  if (overrides[canonical]) return overrides[canonical];
+
+  const lower = name.toLowerCase();
+  const rule = CATEGORY_RULES.find(({ pattern }) => pattern.test(lower) || pattern.test(canonical));
+  return rule ? rule.category : DEFAULT_CATEGORY;
+}
+
+/**
+ * Order categories for walking through a store
+ * Categories listed in the store's aisle order come first, in that order;
+ * anything else follows in the default order.
+ * @param categories Categories to order
+ * @param aisleOrder Store-specific category order
+ * @returns Ordered categories
+ */
+export function sortCategories(categories: string[], aisleOrder: string[] = []): string[] {
+  const rank = (category: string) => {
+    const storeIndex = aisleOrder.indexOf(category);
+    if (storeIndex >= 0) return storeIndex;
+    const defaultIndex = (GROCERY_CATEGORIES as readonly string[]).indexOf(category);
+    return aisleOrder.length + (defaultIndex >= 0 ? defaultIndex : GROCERY_CATEGORIES.length);
+  };
+
+  return [...categories].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+/**
+ * Clean up a store aisle order from user input
+ * Keeps known categories only, without duplicates
+ * @param aisleOrder Raw aisle order
+ * @returns Valid aisle order
+ */
+export function sanitizeAisleOrder(aisleOrder: unknown): string[] {
+  if (!Array.isArray(aisleOrder)) return [];
+  const known = GROCERY_CATEGORIES as readonly string[];
+  return aisleOrder.filter(
+    (category, index): category is string =>
+      typeof category === 'string' && known.includes(category) && aisleOrder.indexOf(category) === index
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Bulk URL import
+ * Imports a list of recipe URLs in the background. Each job is stored with one
+ * item per URL, so progress survives restarts: a run claims pending items a
+ * few at a time and stops before the function time limit, and polling the job
+ * starts another run when the previous one has stopped with items left.
+ */
+
+import { prisma } from './prisma';
+import { RecipeExtractionError, normalizeUrl, withRetry } from './extraction-utils';
+import { captureRecipe } from './recipe-capture';
+
+// URLs imported at the same time
+export const IMPORT_JOB_CONCURRENCY = 3;
+
+export const MAX_IMPORT_URLS = 100;
+
+// Tries per URL. Only failures to fetch the page that may pass are tried again:
+// generation already retries each AI call, so retrying it here would multiply paid calls.
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Check whether an import failed because the page could not be fetched this time
+ * Errors of the page fetch carry its URL, unlike AI calls that time out.
+ * Timeouts, network failures, rate limits and server errors are worth another
+ * try; other HTTP errors such as a 404 are not.
+ */
+function isTransientFetchFailure(error: Error): boolean {
+  if (!(error instanceof RecipeExtractionError) || !error.url) return false;
+  if (error.code === 'TIMEOUT') return true;
+  if (error.code !== 'NETWORK_ERROR') return false;
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+}
+
+// No new items are claimed after this long, leaving time to finish before the
+// route's maxDuration
+const RUN_TIME_BUDGET_MS = 200_000;
+
+// Items left processing this long belong to a run that was stopped
+const STALE_ITEM_MS = 5 * 60_000;
+
+// Polling starts a new run once the job has been quiet this long
+const STALLED_JOB_MS = 30_000;
+
+/**
+ * Error for import requests that cannot be queued, reported to the client as a 400
+ */
+export class ImportJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportJobError';
+  }
+}
+
+/**
+ * Relations returned with a job by the API
+ */
+export const importJobInclude = {
+  items: {
+    orderBy: {
+      position: 'asc',
+    },
+    include: {
+      recipe: {
+        select: { id: true, title: true },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Read the URLs to import from a request
+ * @param input An array of URLs, or text with URLs separated by lines or spaces
+ * @returns Unique http(s) URLs in the order they were given
+ */
+export function parseImportUrls(input: unknown): string[] {
+  const values = Array.isArray(input)
+    ? input.filter((value): value is string => typeof value === 'string')
+    : typeof input === 'string' ? input.split(/\s+/) : [];
+
+  const urls: string[] = [];
+  for (const value of values) {
+    if (!/^https?:\/\//i.test(value.trim())) continue;
+    try {
+      // Normalized, so the same page shared with different tracking parameters is imported once
+      const url = normalizeUrl(value);
+      if (!urls.includes(url)) urls.push(url);
+    } catch {
+      continue;
+    }
+  }
+
+  if (urls.length === 0) {
+    throw new ImportJobError('No recipe URLs found');
+  }
+  if (urls.length > MAX_IMPORT_URLS) {
+    throw new ImportJobError(`At most ${MAX_IMPORT_URLS} URLs can be imported at once`);
+  }
+  return urls;
+}
+
+/**
+ * Queue a list of URLs for import
+ * @param urls URLs from parseImportUrls
+ * @returns The new job with its items
+ */
+export async function createImportJob(urls: string[]) {
+  return prisma.importJob.create({
+    data: {
+      items: {
+        create: urls.map((url, position) => ({ url, position })),
+      },
+    },
+    include: importJobInclude,
+  });
+}
+
+/**
+ * Get a job with its items
+ * @param id Job id
+ * @returns The job, or null if it does not exist
+ */
+export async function getImportJob(id: string) {
+  return prisma.importJob.findUnique({
+    where: { id },
+    include: importJobInclude,
+  });
+}
+
+/**
+ * Check whether a job has stopped with items left, so polling should resume it
+ * @param job Job with its items
+ */
+export function isImportJobStalled(job: NonNullable<Awaited<ReturnType<typeof getImportJob>>>): boolean {
+  if (job.status === 'completed') return false;
+  const now = Date.now();
+  const working = job.items.some(
+    (item) => item.status === 'processing' && now - item.updatedAt.getTime() < STALE_ITEM_MS
+  );
+  return !working && now - job.updatedAt.getTime() > STALLED_JOB_MS;
+}
+
+/**
+ * Claim the next item of a job for this worker
+ * Items are claimed with a conditional update, so concurrent workers and
+ * overlapping runs never import the same URL twice.
+ */
+async function claimNextItem(jobId: string) {
+  for (;;) {
+    const candidate = await prisma.importJobItem.findFirst({
+      where: {
+        jobId,
+        OR: [
+          { status: 'pending' },
+          { status: 'processing', updatedAt: { lt: new Date(Date.now() - STALE_ITEM_MS) } },
+        ],
+      },
+      orderBy: { position: 'asc' },
+    });
+    if (!candidate) return null;
+
+    const claimed = await prisma.importJobItem.updateMany({
+      where: { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt },
+      data: { status: 'processing' },
+    });
+    if (claimed.count === 1) return candidate;
+  }
+}
+
+/**
+ * Import one URL, recording the outcome on its item
+ */
+async function importItem(item: { id: string; url: string; attempts: number }) {
+  let attempts = item.attempts;
+
+  try {
+    const { recipeId, duplicate } = await withRetry(async () => {
+      attempts += 1;
+      await prisma.importJobItem.update({ where: { id: item.id }, data: { attempts } });
+      return captureRecipe(item.url);
+    }, Math.max(MAX_ATTEMPTS - item.attempts, 1), 1000, { shouldRetry: isTransientFetchFailure });
+
+    await prisma.importJobItem.update({
+      where: { id: item.id },
+      data: { status: duplicate ? 'duplicate' : 'imported', recipeId, error: null },
+    });
+  } catch (error) {
+    console.error(`Error importing recipe from ${item.url}:`, error);
+    await prisma.importJobItem.update({
+      where: { id: item.id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to import recipe',
+      },
+    });
+  }
+}
+
+/**
+ * Work through the pending items of a job
+ * Runs until the job is done or the time budget is used up; the job is marked
+ * completed only when no items are left.
+ * @param jobId Job id
+ */
+export async function runImportJob(jobId: string): Promise<void> {
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  await prisma.importJob.update({ where: { id: jobId }, data: { status: 'running' } });
+
+  const worker = async () => {
+    while (Date.now() < deadline) {
+      const item = await claimNextItem(jobId);
+      if (!item) return;
+      await importItem(item);
+    }
+  };
+  await Promise.all(Array.from({ length: IMPORT_JOB_CONCURRENCY }, worker));
+
+  const remaining = await prisma.importJobItem.count({
+    where: { jobId, status: { in: ['pending', 'processing'] } },
+  });
+  // Touching the job marks when this run stopped, for isImportJobStalled
+  await prisma.importJob.update({
+    where: { id: jobId },
+    data: { status: remaining === 0 ? 'completed' : 'running' },
+  });
+  console.log(`📥 Import job ${jobId}: ${remaining === 0 ? 'completed' : `${remaining} URLs left`}`);
+}
@@ -0,0 +1,357 @@
+/**
+ * Ingredient parser
+ * Turns free-text ingredient lines ("1½ cups onion, finely chopped") into
+ * structured amount, unit, name and preparation fields
+ */
+
+import type { IngredientInput } from '@/types';
+import { normalizeSectionName } from './recipe-sections';
+
+export interface StructuredIngredient {
+  name: string;
+  quantity: string;
+  amount: number | null;
+  amountMax: number | null;
+  unit: string | null;
+  preparation: string | null;
+  section?: string | null;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': '1/4',
+  '½': '1/2',
+  '¾': '3/4',
+  '⅐': '1/7',
+  '⅑': '1/9',
+  '⅒': '1/10',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+};
+
+/**
+ * Canonical unit for every spelling we recognise (lowercase, without trailing period)
+ */
+const UNIT_ALIASES: Record<string, string> = {
+  // Volume
+  teaspoon: 'tsp', teaspoons: 'tsp', tsp: 'tsp', tsps: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsp: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  cup: 'cup', cups: 'cup', c: 'cup',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl oz': 'fl oz', 'fl. oz': 'fl oz', floz: 'fl oz',
+  pint: 'pint', pints: 'pint', pt: 'pint', pts: 'pint',
+  quart: 'quart', quarts: 'quart', qt: 'quart', qts: 'quart',
+  gallon: 'gallon', gallons: 'gallon', gal: 'gallon',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', ml: 'ml', mls: 'ml',
+  centiliter: 'cl', centiliters: 'cl', centilitre: 'cl', centilitres: 'cl', cl: 'cl',
+  deciliter: 'dl', deciliters: 'dl', decilitre: 'dl', decilitres: 'dl', dl: 'dl',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', l: 'l',
+  // Weight
+  milligram: 'mg', milligrams: 'mg', mg: 'mg',
+  gram: 'g', grams: 'g', gramme: 'g', grammes: 'g', g: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kg: 'kg', kgs: 'kg',
+  ounce: 'oz', ounces: 'oz', oz: 'oz',
+  pound: 'lb', pounds: 'lb', lb: 'lb', lbs: 'lb',
+  // Small measures
+  pinch: 'pinch', pinches: 'pinch',
+  dash: 'dash', dashes: 'dash',
+  // Countable units
+  clove: 'clove', cloves: 'clove',
+  can: 'can', cans: 'can', tin: 'can', tins: 'can',
+  package: 'package', packages: 'package', pkg: 'package', packet: 'package', packets: 'package',
+  stick: 'stick', sticks: 'stick',
+  slice: 'slice', slices: 'slice',
+  piece: 'piece', pieces: 'piece',
+  bunch: 'bunch', bunches: 'bunch',
+  sprig: 'sprig', sprigs: 'sprig',
+  handful: 'handful', handfuls: 'handful',
+  // Length
+  inch: 'inch', inches: 'inch', in: 'inch',
+  cm: 'cm', centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+};
+
+// Matches a single number: "2", "1.5", "1 1/2", "1/2"
+const NUMBER_PATTERN = '\\d+(?:\\.\\d+)?(?:\\s+\\d+\\/\\d+)?|\\d+\\/\\d+';
+
+// Matches a number or a range ("1-2", "1 to 2") at the start of a string
+const AMOUNT_REGEX = new RegExp(
+  `^(${NUMBER_PATTERN})(?:\\s*(?:-|–|—|to|or)\\s*(${NUMBER_PATTERN}))?(?=\\s|$|[a-zA-Z(])`,
+  'i'
+);
+
+// Quantities that are not a measurable amount and should not be scaled
+const NON_NUMERIC_QUANTITY_REGEX = /(?:,\s*|\s+)(to taste|as needed)$/i;
+
+/**
+ * Replace unicode vulgar fractions and fraction slashes with ASCII fractions
+ * Decimal commas become points, thousands separators are dropped.
+ * Examples: "1½" -> "1 1/2", "¾" -> "3/4", "1,5" -> "1.5", "1,000" -> "1000"
+ * @param text Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeFractions(text: string): string {
+  let result = text.replace(/⁄/g, '/');
+  for (const [glyph, ascii] of Object.entries(UNICODE_FRACTIONS)) {
+    result = result.split(glyph).join(` ${ascii}`);
+  }
+  // European decimal commas ("1,5 kg"), but not thousands separators ("1,000 g")
+  result = result.replace(/(\d),(\d{1,2}|\d{4,})(?!\d)/g, '$1.$2');
+  result = result.replace(/(?<=\d),(?=\d{3}(?!\d))/g, '');
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse a single number written as an integer, decimal, fraction or mixed number
+ * @param text Number text such as "2", "1.5", "1/2" or "1 1/2"
+ * @returns Numeric value or null if it cannot be parsed
+ */
+export function parseAmount(text: string): number | null {
+  const normalized = normalizeFractions(text);
+
+  const mixed = normalized.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = parseInt(mixed[3], 10);
+    return denominator ? parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / denominator : null;
+  }
+
+  const fraction = normalized.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = parseInt(fraction[2], 10);
+    return denominator ? parseInt(fraction[1], 10) / denominator : null;
+  }
+
+  if (/^\d+(?:\.\d+)?$/.test(normalized)) {
+    return parseFloat(normalized);
+  }
+
+  return null;
+}
+
+/**
+ * Map a unit spelling to its canonical form
+ * Examples: "Tablespoons" -> "tbsp", "T" -> "tbsp", "t" -> "tsp", "lbs." -> "lb"
+ * @param unit Raw unit text
+ * @returns Canonical unit or null if not recognised
+ */
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const trimmed = unit.trim().replace(/\.$/, '');
+
+  // Single-letter T/t is case sensitive in recipes
+  if (trimmed === 'T') return 'tbsp';
+  if (trimmed === 't') return 'tsp';
+
+  const key = trimmed.toLowerCase().replace(/\s+/g, ' ');
+  return UNIT_ALIASES[key] ?? null;
+}
+
+/**
+ * Read a unit from the start of a string, preferring two-word units ("fl oz")
+ * @param text Text that follows the amount
+ * @returns The canonical unit and the consumed text, or null
+ */
+function readUnit(text: string): { unit: string; consumed: string } | null {
+  const words = text.match(/^(\S+)(?:\s+(\S+))?/);
+  if (!words) return null;
+
+  if (words[2]) {
+    const twoWords = `${words[1]} ${words[2]}`.replace(/,$/, '');
+    const unit = normalizeUnit(twoWords);
+    if (unit) return { unit, consumed: words[0].replace(/,$/, '') };
+  }
+
+  const oneWord = words[1].replace(/,$/, '');
+  // Single letters other than T/t/c/g/l are almost never units
+  if (oneWord.length === 1 && !/^[Ttcgl]$/.test(oneWord)) return null;
+  const unit = normalizeUnit(oneWord);
+  return unit ? { unit, consumed: oneWord } : null;
+}
+
+/**
+ * Split an ingredient name into the ingredient itself and a preparation note
+ * Examples: "onion, finely chopped" -> { name: "onion", preparation: "finely chopped" }
+ * @param text Ingredient name text
+ * @returns Name and preparation (null when there is none)
+ */
+export function splitPreparation(text: string): { name: string; preparation: string | null } {
+  const trimmed = text.trim();
+  const commaIndex = trimmed.indexOf(',');
+  if (commaIndex <= 0) {
+    return { name: trimmed, preparation: null };
+  }
+
+  const preparation = trimmed.substring(commaIndex + 1).trim();
+  return {
+    name: trimmed.substring(0, commaIndex).trim(),
+    preparation: preparation.length > 0 ? preparation : null,
+  };
+}
+
+/**
+ * Split the leading amount (or range) off a quantity string
+ * Examples: "1-2 tbsp" -> { amount: 1, amountMax: 2, remainder: "tbsp" }
+ * @param quantity Quantity text
+ * @returns The amount part and the remaining text, or null if there is no leading amount
+ */
+export function splitLeadingAmount(quantity: string): {
+  amount: number | null;
+  amountMax: number | null;
+  remainder: string;
+} | null {
+  const normalized = normalizeFractions(quantity);
+  const amountMatch = normalized.match(AMOUNT_REGEX);
+  if (!amountMatch) return null;
+
+  return {
+    amount: parseAmount(amountMatch[1]),
+    amountMax: amountMatch[2] ? parseAmount(amountMatch[2]) : null,
+    remainder: normalized.substring(amountMatch[0].length).trim(),
+  };
+}
+
+/**
+ * Parse a quantity string into amount, range upper bound and unit
+ * Examples: "2 cups", "1-2 tbsp", "1½ lb", "to taste"
+ * @param quantity Quantity text
+ * @returns Structured quantity and any trailing text that was not consumed
+ */
+export function parseQuantity(quantity: string): {
+  amount: number | null;
+  amountMax: number | null;
+  unit: string | null;
+  rest: string;
+} {
+  const leading = splitLeadingAmount(quantity);
+
+  let amount: number | null = null;
+  let amountMax: number | null = null;
+  let rest = normalizeFractions(quantity);
+
+  if (leading) {
+    amount = leading.amount;
+    amountMax = leading.amountMax;
+    rest = leading.remainder;
+
+    // Skip a package size such as "(14 oz)" between the amount and the unit
+    const packageSize = rest.match(/^\([^)]*\)\s*/);
+    if (packageSize && readUnit(rest.substring(packageSize[0].length))) {
+      rest = rest.substring(packageSize[0].length);
+    }
+  } else {
+    // "a pinch", "a dash"
+    rest = rest.replace(/^an?\s+/i, '');
+  }
+
+  const unitMatch = readUnit(rest);
+  if (unitMatch) {
+    rest = rest.substring(unitMatch.consumed.length).replace(/^\s*of\s+/i, '').trim();
+  }
+
+  return {
+    amount,
+    amountMax,
+    unit: unitMatch ? unitMatch.unit : null,
+    rest,
+  };
+}
+
+/**
+ * Parse a complete ingredient line
+ * Examples: "2 cups flour, sifted", "1 (14 oz) can diced tomatoes", "Salt to taste"
+ * @param line Ingredient line
+ * @returns Structured ingredient
+ */
+export function parseIngredientLine(line: string): StructuredIngredient {
+  const normalized = normalizeFractions(line);
+
+  const nonNumeric = normalized.match(NON_NUMERIC_QUANTITY_REGEX);
+  if (nonNumeric) {
+    const { name, preparation } = splitPreparation(normalized.substring(0, nonNumeric.index));
+    return {
+      name,
+      quantity: nonNumeric[1].toLowerCase(),
+      amount: null,
+      amountMax: null,
+      unit: null,
+      preparation,
+    };
+  }
+
+  const { amount, unit, amountMax, rest } = parseQuantity(normalized);
+
+  if (amount === null && unit === null) {
+    const { name, preparation } = splitPreparation(normalized);
+    return { name, quantity: '', amount: null, amountMax: null, unit: null, preparation };
+  }
+
+  const quantity = normalized.substring(0, normalized.length - rest.length).trim()
+    .replace(/\s+of$/i, '');
+  const { name, preparation } = splitPreparation(rest);
+
+  return { name, quantity, amount, amountMax, unit, preparation };
+}
+
+/**
+ * Derive the structured fields for an ingredient given as name and quantity text
+ * The quantity text is the source of truth for amount and unit; the preparation
+ * note is kept if provided, otherwise it is split off the name. The section is
+ * kept as given.
+ * @param ingredient Ingredient with at least name and quantity
+ * @returns Structured ingredient ready to be stored
+ */
+export function structureIngredient(ingredient: IngredientInput): StructuredIngredient {
+  const quantityText = (ingredient.quantity || '').trim();
+  const nameText = (ingredient.name || '').trim();
+
+  // Some sources put the whole line into the name
+  if (!quantityText) {
+    const parsedLine = parseIngredientLine(nameText);
+    return {
+      ...parsedLine,
+      preparation: ingredient.preparation?.trim() || parsedLine.preparation,
+      section: normalizeSectionName(ingredient.section),
+    };
+  }
+
+  const { amount, amountMax, unit } = parseQuantity(quantityText);
+  const split = splitPreparation(nameText);
+  const preparation = ingredient.preparation?.trim() || null;
+
+  return {
+    name: preparation ? nameText : split.name,
+    quantity: quantityText,
+    amount,
+    amountMax,
+    unit,
+    preparation: preparation ?? split.preparation,
+    section: normalizeSectionName(ingredient.section),
+  };
+}
+
+/**
+ * Write an ingredient back out as a single line, the inverse of parseIngredientLine
+ * Examples: { quantity: "2 cups", name: "flour", preparation: "sifted" } -> "2 cups flour, sifted",
+ * { quantity: "to taste", name: "salt" } -> "salt to taste"
+ * @param ingredient Ingredient with name, quantity and optional preparation
+ * @returns Ingredient line
+ */
+export function formatIngredientLine(ingredient: IngredientInput): string {
+  const quantity = ingredient.quantity?.trim() ?? '';
+  const preparation = ingredient.preparation?.trim();
+
+  // "to taste" and "as needed" are read from the end of the line
+  if (/^(to taste|as needed)$/i.test(quantity)) {
+    return `${ingredient.name.trim()}${preparation ? `, ${preparation}` : ''} ${quantity}`;
+  }
+
+  const line = [quantity, ingredient.name.trim()].filter(Boolean).join(' ');
+  return preparation ? `${line}, ${preparation}` : line;
+}
@@ -0,0 +1,147 @@
+/**
+ * Nutrition facts
+ * Reads schema.org NutritionInformation, cleans up user input and scales
+ * per-serving values for display
+ */
+
+import type { NutritionInput } from '@/types';
+
+export type NutrientKey = keyof NutritionInput;
+
+export interface NutrientDefinition {
+  key: NutrientKey;
+  label: string;
+  unit: 'kcal' | 'g' | 'mg';
+  /** Property name in schema.org NutritionInformation */
+  schemaOrgKey: string;
+}
+
+export const NUTRIENTS: NutrientDefinition[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal', schemaOrgKey: 'calories' },
+  { key: 'fat', label: 'Fat', unit: 'g', schemaOrgKey: 'fatContent' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g', schemaOrgKey: 'saturatedFatContent' },
+  { key: 'carbohydrates', label: 'Carbohydrates', unit: 'g', schemaOrgKey: 'carbohydrateContent' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', schemaOrgKey: 'sugarContent' },
+  { key: 'fiber', label: 'Fiber', unit: 'g', schemaOrgKey: 'fiberContent' },
+  { key: 'protein', label: 'Protein', unit: 'g', schemaOrgKey: 'proteinContent' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', schemaOrgKey: 'sodiumContent' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', schemaOrgKey: 'cholesterolContent' },
+];
+
+// Grams per unit written after a nutrient value
+const MASS_UNITS_IN_GRAMS: Record<string, number> = {
+  g: 1,
+  gram: 1,
+  grams: 1,
+  mg: 0.001,
+  milligram: 0.001,
+  milligrams: 0.001,
+  mcg: 0.000001,
+  µg: 0.000001,
+  kg: 1000,
+};
+
+/**
+ * Build nutrition facts by computing each nutrient in turn
+ */
+function mapNutrients(getValue: (nutrient: NutrientDefinition) => number | null): NutritionInput {
+  const nutrition = {} as NutritionInput;
+  for (const nutrient of NUTRIENTS) {
+    nutrition[nutrient.key] = getValue(nutrient);
+  }
+  return nutrition;
+}
+
+/**
+ * Nutrition facts with no values, as a starting point for manual entry
+ */
+export function emptyNutrition(): NutritionInput {
+  return mapNutrients(() => null);
+}
+
+/**
+ * Parse a nutrient value such as "240 calories", "12 g", "0.3 g" or "1,200mg"
+ * into the nutrient's own unit
+ * @param value Raw value
+ * @param unit Unit the nutrient is stored in
+ * @returns Value in the nutrient's unit, or null if it cannot be read
+ */
+export function parseNutrientValue(value: unknown, unit: NutrientDefinition['unit']): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([a-zµ]+)?/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const written = match[2]?.toLowerCase();
+
+  if (unit === 'kcal') {
+    // Kilojoules are sometimes given instead of kilocalories
+    return written === 'kj' ? Math.round(amount / 4.184) : amount;
+  }
+
+  const gramsPerUnit = written ? MASS_UNITS_IN_GRAMS[written] : undefined;
+  if (gramsPerUnit === undefined) return amount;
+
+  const grams = amount * gramsPerUnit;
+  return unit === 'mg' ? grams * 1000 : grams;
+}
+
+/**
+ * Check whether any nutrient has a value
+ */
+export function hasNutrition(nutrition: Partial<NutritionInput> | null | undefined): nutrition is NutritionInput {
+  return !!nutrition && NUTRIENTS.some(({ key }) => typeof nutrition[key] === 'number');
+}
+
+/**
+ * Read nutrition facts from a schema.org Recipe
+ * @param schemaNutrition The recipe's nutrition property
+ * @returns Nutrition per serving, or null if none is given
+ */
+export function nutritionFromSchemaOrg(schemaNutrition: any): NutritionInput | null {
+  if (!schemaNutrition || typeof schemaNutrition !== 'object') return null;
+
+  const nutrition = mapNutrients(({ unit, schemaOrgKey }) => parseNutrientValue(schemaNutrition[schemaOrgKey], unit));
+
+  return hasNutrition(nutrition) ? nutrition : null;
+}
+
+/**
+ * Clean up nutrition from user input or an import
+ * @param nutrition Raw nutrition, with numbers or strings per nutrient
+ * @returns Nutrition per serving, or null if no nutrient has a value
+ */
+export function sanitizeNutrition(nutrition: unknown): NutritionInput | null {
+  if (!nutrition || typeof nutrition !== 'object') return null;
+
+  const raw = nutrition as Record<string, unknown>;
+  const sanitized = mapNutrients(({ key, unit }) => parseNutrientValue(raw[key], unit));
+
+  return hasNutrition(sanitized) ? sanitized : null;
+}
+
+/**
+ * Multiply every nutrient by a factor, e.g. to get the totals for a number of servings
+ * @param nutrition Nutrition per serving
+ * @param factor Multiplier
+ * @returns Scaled nutrition
+ */
+export function scaleNutrition(nutrition: NutritionInput, factor: number): NutritionInput {
+  return mapNutrients(({ key }) => {
+    const value = nutrition[key];
+    return typeof value === 'number' ? value * factor : null;
+  });
+}
+
+/**
+ * Format a nutrient value with its unit
+ * Example: formatNutrient(12.345, 'g') -> "12.3 g"
+ */
+export function formatNutrient(value: number, unit: NutrientDefinition['unit']): string {
+  const rounded = unit === 'g' && value < 10 ? Math.round(value * 10) / 10 : Math.round(value);
+  return `${rounded} ${unit}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Paprika import
+ * Reads .paprikarecipes archives exported from the Paprika recipe manager:
+ * a zip with one gzipped JSON file per recipe, photos embedded as base64
+ */
+
+import { gunzipSync, strFromU8, unzipSync } from 'fflate';
+import { parseIngredientLine } from './ingredient-parser';
+import type { TagInput } from '@/types';
+
+/**
+ * A recipe as exported by Paprika. Every field is optional in practice
+ */
+export interface PaprikaRecipe {
+  uid?: string;
+  name?: string;
+  description?: string;
+  /** One ingredient per line */
+  ingredients?: string;
+  /** Steps separated by blank lines or newlines */
+  directions?: string;
+  notes?: string;
+  /** Free text such as "4", "Serves 4" or "6-8 servings" */
+  servings?: string;
+  /** Free text such as "15 mins" or "1 hr 10 min" */
+  prep_time?: string;
+  cook_time?: string;
+  total_time?: string;
+  source?: string;
+  source_url?: string;
+  image_url?: string;
+  categories?: string[];
+  /** Base64 JPEG of the main photo */
+  photo_data?: string | null;
+  photos?: Array<{ filename?: string; data?: string }>;
+}
+
+export interface PaprikaEntry {
+  /** File name inside the archive */
+  fileName: string;
+  recipe: PaprikaRecipe | null;
+  /** Why the entry could not be read */
+  error?: string;
+}
+
+/**
+ * Error for archives that cannot be read at all, reported to the client as a 400
+ */
+export class PaprikaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaprikaImportError';
+  }
+}
+
+/**
+ * Unpack a .paprikarecipes archive
+ * A single .paprikarecipe file (one gzipped recipe) is accepted as well.
+ * @param data Archive contents
+ * @returns One entry per recipe file, with the recipe or the reason it could not be read
+ * @throws PaprikaImportError if the file is not a Paprika export
+ */
+export function readPaprikaArchive(data: Uint8Array): PaprikaEntry[] {
+  // Zip files start with "PK", gzip files with 0x1f 0x8b
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    return [readEntry('recipe.paprikarecipe', data)];
+  }
+  if (data[0] !== 0x50 || data[1] !== 0x4b) {
+    throw new PaprikaImportError('File is not a Paprika export (.paprikarecipes)');
+  }
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => file.name.toLowerCase().endsWith('.paprikarecipe'),
+    });
+  } catch {
+    throw new PaprikaImportError('Archive is damaged and cannot be opened');
+  }
+
+  const entries = Object.entries(files).map(([fileName, contents]) => readEntry(fileName, contents));
+  if (entries.length === 0) {
+    throw new PaprikaImportError('Archive does not contain any recipes');
+  }
+  return entries;
+}
+
+function readEntry(fileName: string, contents: Uint8Array): PaprikaEntry {
+  try {
+    const recipe = JSON.parse(strFromU8(gunzipSync(contents)));
+    if (!recipe || typeof recipe !== 'object') {
+      return { fileName, recipe: null, error: 'Entry is not a recipe' };
+    }
+    return { fileName, recipe };
+  } catch {
+    return { fileName, recipe: null, error: 'Entry cannot be read' };
+  }
+}
+
+/**
+ * Split Paprika's free-text lists into lines
+ */
+function lines(text: string | undefined): string[] {
+  return (text ?? '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Map a Paprika recipe onto raw recipe data for sanitizeRecipeData
+ * Photos are not included; see paprikaPhotos.
+ * @param recipe Paprika recipe
+ * @returns Raw recipe data plus the notes, which are not part of validated recipe data
+ */
+export function paprikaToRecipeData(recipe: PaprikaRecipe) {
+  const sourceUrl = /^https?:\/\//i.test(recipe.source_url ?? '') ? recipe.source_url : undefined;
+  const servings = recipe.servings?.match(/\d+/)?.[0];
+  const tags: TagInput[] = (recipe.categories ?? []).map((name) => ({ name, kind: 'category' }));
+
+  return {
+    title: recipe.name,
+    // Paprika descriptions are often empty, and a description is required
+    description: recipe.description?.trim() || (recipe.source ? `From ${recipe.source}` : 'Imported from Paprika'),
+    servings,
+    prepTime: recipe.prep_time,
+    cookTime: recipe.cook_time,
+    totalTime: recipe.total_time,
+    ingredients: lines(recipe.ingredients).map((line) => parseIngredientLine(line)),
+    // Steps are often numbered by hand; the step number is added back on display
+    instructions: lines(recipe.directions).map((line) => line.replace(/^\d+[.)]\s+/, '')),
+    imageUrls: /^https?:\/\//i.test(recipe.image_url ?? '') ? [recipe.image_url] : [],
+    sourceUrl,
+    tags,
+    notes: recipe.notes?.trim() || undefined,
+  };
+}
+
+/**
+ * Collect the photos embedded in a Paprika recipe, main photo first
+ * @param recipe Paprika recipe
+ * @returns Base64 JPEG data
+ */
+export function paprikaPhotos(recipe: PaprikaRecipe): string[] {
+  const photos = [recipe.photo_data, ...(recipe.photos ?? []).map((photo) => photo.data)];
+  return photos.filter((data): data is string => typeof data === 'string' && data.length > 0);
+}
@@ -0,0 +1,63 @@
+/**
+ * Provenance tokens
+ * Generated recipes are shown to the user before they are saved, so their
+ * provenance makes a round trip through the client. It travels as a token
+ * signed with a server secret, and only provenance with a valid signature is
+ * saved: the client can neither forge it nor clear the review flag.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ProvenanceSchema } from './recipe-validation';
+import type { RecipeProvenance } from '@/types';
+
+/**
+ * Key the tokens are signed with
+ * Falls back to the Gemini API key, which every instance that generates
+ * recipes already keeps secret.
+ */
+function signingKey(): string | undefined {
+  return process.env.PROVENANCE_SECRET || process.env.GEMINI_API_KEY;
+}
+
+function sign(payload: string, key: string): Buffer {
+  return createHmac('sha256', key).update(`provenance:${payload}`).digest();
+}
+
+/**
+ * Sign the provenance of a generated recipe
+ * @param provenance Provenance written by the server
+ * @returns Token to send with the recipe, and back when it is saved
+ * @throws Error if no signing key is set
+ */
+export function signProvenance(provenance: RecipeProvenance): string {
+  const key = signingKey();
+  if (!key) {
+    throw new Error('PROVENANCE_SECRET environment variable is not set');
+  }
+  const payload = Buffer.from(JSON.stringify(provenance)).toString('base64url');
+  return `${payload}.${sign(payload, key).toString('base64url')}`;
+}
+
+/**
+ * Read the provenance from a token made by signProvenance
+ * @param token Token sent by the client
+ * @returns The provenance, or null if the token is missing, altered or malformed
+ */
+export function readProvenanceToken(token: unknown): RecipeProvenance | null {
+  const key = signingKey();
+  if (!key || typeof token !== 'string') return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = sign(payload, key);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const parsed = ProvenanceSchema.safeParse(JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
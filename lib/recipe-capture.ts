@@ -0,0 +1,59 @@
+/**
+ * Recipe capture
+ * Saves recipes sent from outside the app (the share sheet on a phone, or the
+ * bookmarklet on a desktop browser) straight into the library
+ */
+
+import { generateRecipeFromUrl, generateRecipeFromYoutubeUrl } from './gemini';
+import { normalizeUrl } from './extraction-utils';
+import { createRecipe, findRecipeBySourceUrl } from './recipe-store';
+
+// Pages larger than this are fetched by the server instead
+export const MAX_CAPTURE_HTML_LENGTH = 5_000_000;
+
+/**
+ * Find the recipe URL in shared data
+ * Share sheets are inconsistent: many apps put the URL in the text, after a
+ * title, rather than in the url field.
+ * @param fields Shared fields: url, text and title
+ * @returns The first http(s) URL, or null if there is none
+ */
+export function findCaptureUrl(fields: { url?: unknown; text?: unknown; title?: unknown }): string | null {
+  for (const value of [fields.url, fields.text, fields.title]) {
+    if (typeof value !== 'string') continue;
+    const match = value.match(/https?:\/\/[^\s<>"']+/i);
+    if (!match) continue;
+    try {
+      return new URL(match[0]).toString();
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Generate a recipe from a URL and add it to the library
+ * Used for captures and bulk imports, which both run after the request has
+ * been answered.
+ * @param url Page URL
+ * @param html HTML of the page from the user's browser, if it was sent
+ * @returns Id of the new recipe, or of the existing recipe for the same URL
+ */
+export async function captureRecipe(url: string, html?: string): Promise<{ recipeId: string; duplicate: boolean }> {
+  // Sharing the same page twice should not add it twice
+  const existing = await findRecipeBySourceUrl(url);
+  if (existing) {
+    console.log(`📥 ${url} is already in the library`);
+    return { recipeId: existing.id, duplicate: true };
+  }
+
+  const sourceUrl = normalizeUrl(url);
+  const recipeData = sourceUrl.includes('youtube.com') || sourceUrl.includes('youtu.be')
+    ? await generateRecipeFromYoutubeUrl(sourceUrl)
+    : await generateRecipeFromUrl(sourceUrl, { html });
+
+  const recipe = await createRecipe({ ...recipeData, sourceUrl });
+  console.log(`📥 Captured ${recipe.title} from ${sourceUrl}`);
+  return { recipeId: recipe.id, duplicate: false };
+}
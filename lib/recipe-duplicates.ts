@@ -0,0 +1,302 @@
+/**
+ * Duplicate recipes
+ * Finds recipes that are probably the same dish (imported from two blogs, or
+ * typed in twice) by comparing their titles and ingredients, and merges them
+ */
+
+import { prisma } from './prisma';
+import { canonicalIngredientName } from './grocery-categories';
+import { normalizeUrl } from './extraction-utils';
+import { recipeInclude, type RecipeWithRelations } from './recipe-store';
+import { snapshotToInput, toSnapshot, updateRecipeWithRevision } from './recipe-revisions';
+
+// Recipes scoring at least this are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.55;
+
+// Weight of the ingredients in the score; the title makes up the rest
+const INGREDIENT_WEIGHT = 0.65;
+
+// Words that say nothing about which dish a title is
+const TITLE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'of', 'in', 'for', 'my', 'our', 'recipe',
+  'best', 'easy', 'quick', 'simple', 'homemade', 'perfect', 'ultimate',
+  'classic', 'favorite', 'favourite', 'delicious', 'healthy',
+]);
+
+// Ingredients in nearly every recipe, which would make unrelated dishes look alike
+const STAPLE_INGREDIENTS = new Set([
+  'salt', 'kosher salt', 'sea salt', 'pepper', 'black pepper', 'salt and pepper',
+  'water', 'oil', 'olive oil', 'vegetable oil',
+]);
+
+// Words in ingredient names that describe how it is bought or cut, not what it is
+const INGREDIENT_FILLER_WORDS = new Set([
+  'and', 'or', 'of', 'to', 'taste', 'plain', 'boneless', 'skinless', 'chopped',
+  'minced', 'diced', 'sliced', 'crushed', 'grated', 'shredded', 'clove', 'can', 'canned',
+]);
+
+/**
+ * Naive singular form, so "pancakes" and "pancake" match
+ */
+function singular(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+export interface SimilarityInput {
+  title: string;
+  ingredients: { name: string }[];
+}
+
+export interface SimilarRecipe {
+  id: string;
+  title: string;
+  /** Similarity from 0 to 1 */
+  score: number;
+}
+
+export interface DuplicateCluster {
+  /** Highest similarity between two recipes in the cluster */
+  score: number;
+  recipes: {
+    id: string;
+    title: string;
+    sourceUrl: string | null;
+    imageUrl: string | null;
+    createdAt: Date;
+  }[];
+}
+
+/**
+ * Error for merges that cannot be done, reported to the client as a 400
+ */
+export class RecipeMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeMergeError';
+  }
+}
+
+/**
+ * Reduce a title to the words that identify the dish
+ * Example: "The Best Easy Chicken Enchiladas!" -> {"chicken", "enchilada"}
+ */
+export function titleWords(title: string): Set<string> {
+  const words = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !TITLE_STOP_WORDS.has(word))
+    .map(singular);
+  return new Set(words);
+}
+
+/**
+ * Reduce ingredients to the words of their canonical names, leaving out staples
+ * Words rather than whole names are compared, so "boneless chicken thighs"
+ * and "chicken thighs" still overlap.
+ */
+export function ingredientWords(ingredients: { name: string }[]): Set<string> {
+  return new Set(
+    ingredients
+      .map((ingredient) => canonicalIngredientName(ingredient.name))
+      .filter((name) => name && !STAPLE_INGREDIENTS.has(name))
+      .flatMap((name) => name.split(/[\s-]+/))
+      .filter((word) => word.length > 1 && !INGREDIENT_FILLER_WORDS.has(singular(word)))
+      .map(singular)
+  );
+}
+
+/**
+ * Jaccard similarity: shared items over all items
+ * @returns 0 to 1, or 0 when both sets are empty
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+interface Fingerprint {
+  title: Set<string>;
+  ingredients: Set<string>;
+}
+
+function fingerprint(recipe: SimilarityInput): Fingerprint {
+  return { title: titleWords(recipe.title), ingredients: ingredientWords(recipe.ingredients) };
+}
+
+function compareFingerprints(a: Fingerprint, b: Fingerprint): number {
+  const titleScore = jaccard(a.title, b.title);
+  // Without ingredients on both sides only the titles can be compared
+  if (a.ingredients.size === 0 || b.ingredients.size === 0) return titleScore;
+  return (1 - INGREDIENT_WEIGHT) * titleScore + INGREDIENT_WEIGHT * jaccard(a.ingredients, b.ingredients);
+}
+
+/**
+ * Score how likely two recipes are the same dish
+ * @returns Similarity from 0 to 1
+ */
+export function recipeSimilarity(a: SimilarityInput, b: SimilarityInput): number {
+  return compareFingerprints(fingerprint(a), fingerprint(b));
+}
+
+/**
+ * Find library recipes that are probably the same dish as a new recipe
+ * @param recipe Recipe about to be saved
+ * @param options.excludeId Recipe to leave out, e.g. the recipe itself
+ * @param options.limit Maximum number of results
+ * @returns Likely duplicates, most similar first
+ */
+export async function findSimilarRecipes(
+  recipe: SimilarityInput,
+  options: { excludeId?: string; limit?: number } = {}
+): Promise<SimilarRecipe[]> {
+  const candidates = await prisma.recipe.findMany({
+    where: options.excludeId ? { id: { not: options.excludeId } } : undefined,
+    select: { id: true, title: true, ingredients: { select: { name: true } } },
+  });
+
+  const target = fingerprint(recipe);
+  return candidates
+    .map((candidate) => ({
+      id: candidate.id,
+      title: candidate.title,
+      score: compareFingerprints(target, fingerprint(candidate)),
+    }))
+    .filter((candidate) => candidate.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5);
+}
+
+/**
+ * Group the library into clusters of likely duplicates
+ * Recipes are linked when they score at least DUPLICATE_THRESHOLD, and
+ * linked recipes form one cluster, so a cluster can hold more than two.
+ * @returns Clusters of two or more recipes, most similar first
+ */
+export async function findDuplicateClusters(): Promise<DuplicateCluster[]> {
+  const recipes = await prisma.recipe.findMany({
+    select: {
+      id: true,
+      title: true,
+      sourceUrl: true,
+      imageUrls: true,
+      createdAt: true,
+      ingredients: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  const fingerprints = recipes.map(fingerprint);
+
+  // Union-find over the recipe indexes
+  const parent = recipes.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const bestScore = new Map<number, number>();
+
+  for (let i = 0; i < recipes.length; i++) {
+    for (let j = i + 1; j < recipes.length; j++) {
+      const score = compareFingerprints(fingerprints[i], fingerprints[j]);
+      if (score < DUPLICATE_THRESHOLD) continue;
+
+      const [a, b] = [root(i), root(j)];
+      const best = Math.max(score, bestScore.get(a) ?? 0, bestScore.get(b) ?? 0);
+      parent[b] = a;
+      bestScore.set(a, best);
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  recipes.forEach((recipe, index) => {
+    const clusterRoot = root(index);
+    if (!bestScore.has(clusterRoot)) return;
+
+    const cluster = clusters.get(clusterRoot) ?? { score: bestScore.get(clusterRoot) ?? 0, recipes: [] };
+    cluster.recipes.push({
+      id: recipe.id,
+      title: recipe.title,
+      sourceUrl: recipe.sourceUrl,
+      imageUrl: recipe.imageUrls[0] ?? null,
+      createdAt: recipe.createdAt,
+    });
+    clusters.set(clusterRoot, cluster);
+  });
+
+  return Array.from(clusters.values())
+    .filter((cluster) => cluster.recipes.length > 1)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Merge a duplicate into the recipe that is kept
+ * The kept recipe's ingredients and instructions stay as they are; the
+ * duplicate's notes are appended, its images added and its source URLs kept
+ * as alternate sources. Shopping list items move to the kept recipe, and the
+ * duplicate is deleted.
+ * @param keepId Recipe to keep
+ * @param duplicateId Recipe to merge into it
+ * @returns The merged recipe, or null if either recipe does not exist
+ */
+export async function mergeRecipes(keepId: string, duplicateId: string): Promise<RecipeWithRelations | null> {
+  if (keepId === duplicateId) {
+    throw new RecipeMergeError('A recipe cannot be merged with itself');
+  }
+
+  // One transaction, so a duplicate deleted or merged meanwhile leaves both recipes untouched
+  return prisma.$transaction(async (tx) => {
+    const [keep, duplicate] = await Promise.all([
+      tx.recipe.findUnique({ where: { id: keepId }, include: recipeInclude }),
+      tx.recipe.findUnique({ where: { id: duplicateId }, include: recipeInclude }),
+    ]);
+    if (!keep || !duplicate) return null;
+
+    const duplicateNotes = duplicate.notes?.trim();
+    const notes = duplicateNotes && !(keep.notes ?? '').includes(duplicateNotes)
+      ? [keep.notes?.trim(), `From "${duplicate.title}":\n${duplicateNotes}`].filter(Boolean).join('\n\n')
+      : keep.notes;
+
+    const sourceUrl = keep.sourceUrl ?? duplicate.sourceUrl;
+    const canonical = (url: string) => {
+      try {
+        return normalizeUrl(url);
+      } catch {
+        return url;
+      }
+    };
+    const alternateSourceUrls = Array.from(new Set(
+      [...keep.alternateSourceUrls, duplicate.sourceUrl, ...duplicate.alternateSourceUrls]
+        .filter((url): url is string => Boolean(url))
+        .map(canonical)
+    )).filter((url) => !sourceUrl || url !== canonical(sourceUrl));
+
+    const merged = await updateRecipeWithRevision(keepId, {
+      ...snapshotToInput(toSnapshot(keep)),
+      notes: notes ?? undefined,
+      sourceUrl: sourceUrl ?? undefined,
+      alternateSourceUrls,
+      imageUrls: Array.from(new Set([...keep.imageUrls, ...duplicate.imageUrls])),
+    }, 'merge', tx);
+
+    await tx.shoppingListItem.updateMany({
+      where: { recipeId: duplicateId },
+      data: { recipeId: keepId },
+    });
+    await tx.importJobItem.updateMany({
+      where: { recipeId: duplicateId },
+      data: { recipeId: keepId },
+    });
+    await tx.recipe.delete({ where: { id: duplicateId } });
+
+    return merged;
+  });
+}
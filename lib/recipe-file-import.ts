@@ -0,0 +1,62 @@
+/**
+ * Recipe file import
+ * Imports recipes kept as text files, such as Cooklang or Markdown, one recipe
+ * per file. Each file is imported on its own, so one bad file does not stop
+ * the rest.
+ */
+
+import { sanitizeRecipeData, validateRecipeData } from './recipe-validation';
+import { createRecipe } from './recipe-store';
+
+export interface FileImportResult {
+  name: string;
+  status: 'imported' | 'failed';
+  recipeId?: string;
+  error?: string;
+}
+
+/**
+ * Reads a file into raw recipe data for sanitizeRecipeData, plus the notes,
+ * which are not part of validated recipe data
+ */
+export type RecipeFileParser = (
+  text: string,
+  fileName: string
+) => { title?: string; notes?: string; [field: string]: unknown };
+
+/**
+ * Import recipe files
+ * @param files Uploaded files
+ * @param parse Reads one file
+ * @param extension File extensions, removed from file names used as result names
+ * @returns Counts of imported and failed files, and one result per file
+ */
+export async function importRecipeFiles(files: File[], parse: RecipeFileParser, extension: RegExp) {
+  const results: FileImportResult[] = [];
+
+  for (const file of files) {
+    let name = file.name.replace(extension, '');
+
+    try {
+      const { notes, ...recipeData } = parse(await file.text(), file.name);
+      name = recipeData.title || name;
+      const validated = validateRecipeData(sanitizeRecipeData(recipeData));
+      const recipe = await createRecipe({ ...validated, notes });
+
+      results.push({ name, status: 'imported', recipeId: recipe.id });
+    } catch (error) {
+      console.error(`Error importing ${name}:`, error);
+      results.push({
+        name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to import recipe',
+      });
+    }
+  }
+
+  return {
+    imported: results.filter((result) => result.status === 'imported').length,
+    failed: results.filter((result) => result.status === 'failed').length,
+    results,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * schema.org Recipe export
+ * Builds JSON-LD for a recipe in the form parseJsonLdRecipe reads, so recipes
+ * can move between instances and into other recipe managers
+ */
+
+import { formatIsoDuration } from './durations';
+import { formatIngredientLine } from './ingredient-parser';
+import { NUTRIENTS, hasNutrition } from './nutrition';
+import { groupIntoSections } from './recipe-sections';
+import type { RecipeWithRelations } from './recipe-store';
+
+/**
+ * Build a schema.org Recipe for a recipe
+ * @param recipe Recipe with its relations
+ * @param url Canonical URL of the recipe's page, if it has one
+ * @returns JSON-LD object, ready for JSON.stringify
+ */
+export function recipeToJsonLd(recipe: RecipeWithRelations, url?: string) {
+  const tagNames = (kind: string) => recipe.tags.filter((tag) => tag.kind === kind).map((tag) => tag.name);
+  const categories = tagNames('category');
+  const cuisines = tagNames('cuisine');
+  const keywords = tagNames('tag');
+
+  const nutrition = hasNutrition(recipe.nutrition)
+    ? {
+        '@type': 'NutritionInformation',
+        ...Object.fromEntries(
+          NUTRIENTS.flatMap(({ key, unit, schemaOrgKey }) => {
+            const value = recipe.nutrition?.[key];
+            if (typeof value !== 'number') return [];
+            // Energy is written as "240 calories", which is what most sites use
+            return [[schemaOrgKey, `${Math.round(value * 10) / 10} ${unit === 'kcal' ? 'calories' : unit}`]];
+          })
+        ),
+      }
+    : undefined;
+
+  const steps = groupIntoSections(recipe.instructions, (instruction) => instruction.section).flatMap((section): object[] => {
+    const howToSteps = section.items.map((instruction) => ({
+      '@type': 'HowToStep',
+      position: instruction.step,
+      text: instruction.text,
+    }));
+    // Steps before the first section stay at the top level
+    return section.name
+      ? [{ '@type': 'HowToSection', name: section.name, itemListElement: howToSteps }]
+      : howToSteps;
+  });
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.title,
+    description: recipe.description || undefined,
+    image: recipe.imageUrls.length > 0 ? recipe.imageUrls : undefined,
+    url,
+    isBasedOn: recipe.sourceUrl || undefined,
+    datePublished: recipe.createdAt.toISOString(),
+    dateModified: recipe.updatedAt.toISOString(),
+    recipeYield: `${recipe.servings} ${recipe.servings === 1 ? 'serving' : 'servings'}`,
+    prepTime: recipe.prepTime ? formatIsoDuration(recipe.prepTime) : undefined,
+    cookTime: recipe.cookTime ? formatIsoDuration(recipe.cookTime) : undefined,
+    totalTime: recipe.totalTime ? formatIsoDuration(recipe.totalTime) : undefined,
+    recipeCategory: categories.length > 0 ? categories : undefined,
+    recipeCuisine: cuisines.length > 0 ? cuisines : undefined,
+    keywords: keywords.length > 0 ? keywords.join(', ') : undefined,
+    recipeIngredient: recipe.ingredients.map(formatIngredientLine),
+    // Ingredient sections have no place in schema.org, so only steps keep theirs
+    recipeInstructions: steps,
+    nutrition,
+    comment: recipe.notes
+      ? { '@type': 'Comment', text: recipe.notes }
+      : undefined,
+  };
+}
+
+/**
+ * Serialize JSON-LD for embedding in a <script> tag
+ * "<" is escaped so recipe text cannot close the script element early.
+ */
+export function serializeJsonLd(jsonLd: object): string {
+  return JSON.stringify(jsonLd).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,268 @@
+/**
+ * Markdown import and export
+ * Writes recipes as Markdown notes (front matter, an ingredient list, numbered
+ * steps and notes) and reads that structure back without the AI, so recipes
+ * can be kept in sync with a notes app such as Obsidian:
+ *
+ *   ---
+ *   servings: 4
+ *   tags:
+ *     - weeknight
+ *   ---
+ *   # Title
+ *   Description
+ *   ## Ingredients
+ *   - 2 cups flour, sifted
+ *   ### For the frosting
+ *   - 1 cup sugar
+ *   ## Instructions
+ *   1. Mix everything.
+ *   ## Notes
+ *   Keeps for a week.
+ */
+
+import { formatMinutes } from './durations';
+import { formatFrontMatter, splitFrontMatter, type FrontMatter } from './front-matter';
+import { formatIngredientLine, parseIngredientLine } from './ingredient-parser';
+import { groupIntoSections, normalizeSectionName } from './recipe-sections';
+import type { RecipeWithRelations } from './recipe-store';
+import type { TagInput } from '@/types';
+
+type Section = 'description' | 'ingredients' | 'instructions' | 'notes' | 'other';
+
+// Headings that start each section, lowercase
+const SECTION_HEADINGS: Record<string, Section> = {
+  ingredients: 'ingredients',
+  instructions: 'instructions',
+  directions: 'instructions',
+  method: 'instructions',
+  steps: 'instructions',
+  preparation: 'instructions',
+  notes: 'notes',
+  tips: 'notes',
+};
+
+// "- item", "* item", "+ item", "- [ ] item" and "1. item"
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)(.*)$/;
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*$/;
+
+/**
+ * Section a heading starts, if it names one
+ * @param text Heading text without the leading #s
+ */
+function headingSection(text: string): Section | undefined {
+  return SECTION_HEADINGS[text.toLowerCase().replace(/[^a-z ]/g, '').trim()];
+}
+
+/**
+ * Whether a heading within the notes would end them on import
+ * Headings in the notes are read back as note text, except top-level ones
+ * that start the ingredients or instructions.
+ */
+function endsNotes(heading: RegExpMatchArray): boolean {
+  const next = headingSection(heading[2]);
+  return heading[1].length <= 2 && (next === 'ingredients' || next === 'instructions');
+}
+
+/**
+ * Write list items under "### " sub-headings for their sections
+ * @param items Ingredients or instructions, in order
+ * @param sectionOf Section name of an item
+ * @param formatItem List item line of an item, given its index in the whole list
+ */
+function sectionedList<T>(
+  items: T[],
+  sectionOf: (item: T) => string | null,
+  formatItem: (item: T, index: number) => string
+): string {
+  return groupIntoSections(items, sectionOf)
+    .map((section) => {
+      const list = section.items.map((item, i) => formatItem(item, section.start + i)).join('\n');
+      return section.name ? `### ${section.name}\n\n${list}` : list;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Write a recipe as a Markdown note
+ * @param recipe Recipe with its relations
+ * @returns Markdown document
+ */
+export function recipeToMarkdown(recipe: RecipeWithRelations): string {
+  const tagNames = (kind: string) => recipe.tags.filter((tag) => tag.kind === kind).map((tag) => tag.name);
+
+  const frontMatter = formatFrontMatter({
+    servings: recipe.servings,
+    prep_time: recipe.prepTime ? formatMinutes(recipe.prepTime) : null,
+    cook_time: recipe.cookTime ? formatMinutes(recipe.cookTime) : null,
+    total_time: recipe.totalTime ? formatMinutes(recipe.totalTime) : null,
+    source: recipe.sourceUrl,
+    categories: tagNames('category'),
+    cuisines: tagNames('cuisine'),
+    tags: tagNames('tag'),
+    images: recipe.imageUrls.filter((url) => /^https?:\/\//i.test(url)),
+  });
+
+  const sections = [
+    frontMatter,
+    `# ${recipe.title}`,
+    ...(recipe.description ? [recipe.description] : []),
+    '## Ingredients',
+    sectionedList(recipe.ingredients, (ingredient) => ingredient.section, (ingredient) => `- ${formatIngredientLine(ingredient)}`),
+    '## Instructions',
+    sectionedList(
+      recipe.instructions,
+      (instruction) => instruction.section,
+      (instruction, index) => `${index + 1}. ${instruction.text.replace(/\s+/g, ' ').trim()}`
+    ),
+    // Headings that would end the notes are demoted so they read back as notes
+    ...(recipe.notes ? ['## Notes', recipe.notes.trim().split('\n').map((line) => {
+      const heading = line.match(HEADING_REGEX);
+      return heading && endsNotes(heading) ? `### ${heading[2]}` : line;
+    }).join('\n')] : []),
+  ];
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Remove link syntax from a line: "[[Flour|flour]]" -> "flour", "[text](url)" -> "text"
+ */
+function plainText(text: string): string {
+  return text
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, alias?: string) => alias ?? target)
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Read the items of a list, joining wrapped lines onto the item they continue
+ * Paragraphs without list markers are read as items too.
+ */
+function listItems(lines: string[]): string[] {
+  const items: string[] = [];
+  let open = false;
+
+  for (const line of lines) {
+    const item = line.match(LIST_ITEM_REGEX);
+    if (item) {
+      items.push(item[1]);
+      open = true;
+    } else if (!line.trim()) {
+      open = false;
+    } else if (open) {
+      items[items.length - 1] += ` ${line.trim()}`;
+    } else {
+      items.push(line.trim());
+      open = true;
+    }
+  }
+
+  return items.map(plainText).filter(Boolean);
+}
+
+/**
+ * Join lines into paragraphs, keeping blank lines between paragraphs
+ */
+function paragraphs(lines: string[]): string {
+  return lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Read a front matter value that may be a list or a comma separated string
+ */
+function frontMatterList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : value.split(',')).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a Markdown recipe into raw recipe data for sanitizeRecipeData
+ * Expects the structure recipeToMarkdown writes, but also accepts the usual
+ * variations: any list marker, "Method" or "Steps" for the instructions,
+ * task list checkboxes and wiki links. Sub-headings within the ingredients and
+ * instructions (e.g. "### For the sauce") name the sections of the items below them.
+ * Headings after "## Notes" are part of the notes, unless they start the
+ * ingredients or instructions.
+ * @param text Markdown document
+ * @param fileName Name of the file, used as the title when the document has no "# " heading
+ * @returns Raw recipe data plus the notes, which are not part of validated recipe data
+ */
+export function markdownToRecipeData(text: string, fileName?: string) {
+  const { data, body } = splitFrontMatter(text);
+
+  // Front matter keys are matched without case, spaces or underscores
+  const meta: FrontMatter = {};
+  for (const [key, value] of Object.entries(data)) {
+    meta[key.toLowerCase().replace(/[^a-z]/g, '')] = value;
+  }
+  const scalar = (...keys: string[]) => keys
+    .map((key) => meta[key])
+    .map((value) => (Array.isArray(value) ? value[0] : value))
+    .find(Boolean);
+
+  let title: string | undefined;
+  let section: Section = 'description';
+  const lines: Record<Section, string[]> = { description: [], ingredients: [], instructions: [], notes: [], other: [] };
+  // Lines of the ingredients and instructions under each sub-heading
+  const subsections: Partial<Record<Section, { name: string | null; lines: string[] }[]>> = {
+    ingredients: [{ name: null, lines: [] }],
+    instructions: [{ name: null, lines: [] }],
+  };
+
+  for (const line of body.split('\n')) {
+    const heading = line.match(HEADING_REGEX);
+    if (heading && heading[1].length === 1 && title === undefined) {
+      title = plainText(heading[2]);
+      continue;
+    }
+    if (heading && (section !== 'notes' || endsNotes(heading))) {
+      const next = headingSection(heading[2]);
+      if (next || heading[1].length <= 2) {
+        section = next ?? 'other';
+      } else {
+        // Sub-headings elsewhere are skipped
+        subsections[section]?.push({ name: normalizeSectionName(plainText(heading[2])), lines: [] });
+      }
+      continue;
+    }
+    lines[section].push(line);
+    const current = subsections[section];
+    current?.[current.length - 1].lines.push(line);
+  }
+
+  // Items of a list with the sub-heading they are under
+  const sectionedItems = (list: 'ingredients' | 'instructions') => (subsections[list] ?? []).flatMap(
+    (subsection) => listItems(subsection.lines).map((text) => ({ text, section: subsection.name }))
+  );
+
+  const sourceUrl = scalar('source', 'sourceurl', 'url');
+  const tags: TagInput[] = [
+    ...frontMatterList(meta.categories ?? meta.category ?? meta.course).map((name) => ({ name, kind: 'category' as const })),
+    ...frontMatterList(meta.cuisines ?? meta.cuisine).map((name) => ({ name, kind: 'cuisine' as const })),
+    ...frontMatterList(meta.tags).map((name) => ({ name: name.replace(/^#/, ''), kind: 'tag' as const })),
+  ];
+
+  return {
+    title: title || scalar('title') || fileName?.replace(/\.(md|markdown)$/i, ''),
+    // A description is required
+    description: paragraphs(lines.description) || scalar('description') || 'Imported from Markdown',
+    servings: scalar('servings', 'serves', 'yield')?.match(/\d+/)?.[0],
+    prepTime: scalar('preptime'),
+    cookTime: scalar('cooktime'),
+    totalTime: scalar('totaltime', 'time'),
+    ingredients: sectionedItems('ingredients').map(({ text, section }) => ({ ...parseIngredientLine(text), section })),
+    instructions: sectionedItems('instructions'),
+    imageUrls: frontMatterList(meta.images ?? meta.image).filter((url) => /^https?:\/\//i.test(url)),
+    sourceUrl: sourceUrl && /^https?:\/\//i.test(sourceUrl) ? sourceUrl : undefined,
+    tags,
+    notes: lines.notes.join('\n').trim() || undefined,
+  };
+}
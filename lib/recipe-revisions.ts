@@ -0,0 +1,235 @@
+/**
+ * Recipe revisions
+ * Every save records the state it replaces, so edits can be reviewed as
+ * field-level diffs and undone by restoring an earlier snapshot
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { structureIngredient } from './ingredient-parser';
+import { resolveRecipeTimes } from './durations';
+import { sanitizeNutrition } from './nutrition';
+import { tagsWriteInput } from './tags';
+import { hasSections, normalizeSectionName } from './recipe-sections';
+import { recipeInclude, type RecipeWithRelations } from './recipe-store';
+import type { RecipeFieldChange, RecipeInput, RecipeSnapshot } from '@/types';
+
+export const REVISION_SOURCES = ['edit', 'restore', 'backup', 'merge'] as const;
+
+export type RevisionSource = (typeof REVISION_SOURCES)[number];
+
+export const SNAPSHOT_FIELDS = [
+  'title',
+  'description',
+  'servings',
+  'prepTime',
+  'cookTime',
+  'totalTime',
+  'notes',
+  'sourceUrl',
+  'alternateSourceUrls',
+  'imageUrls',
+  'ingredients',
+  'instructions',
+  'instructionSections',
+  'tags',
+  'nutrition',
+] as const satisfies readonly (keyof RecipeSnapshot)[];
+
+/**
+ * Take a snapshot of a recipe
+ * @param recipe Recipe with its relations
+ * @returns Snapshot in the shape stored on a revision
+ */
+export function toSnapshot(recipe: RecipeWithRelations): RecipeSnapshot {
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    servings: recipe.servings,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    totalTime: recipe.totalTime,
+    notes: recipe.notes,
+    sourceUrl: recipe.sourceUrl,
+    // Only stored once there is one, so older snapshots still compare equal
+    ...(recipe.alternateSourceUrls.length > 0 ? { alternateSourceUrls: recipe.alternateSourceUrls } : {}),
+    imageUrls: recipe.imageUrls,
+    ingredients: recipe.ingredients.map((ing) => ({
+      name: ing.name,
+      quantity: ing.quantity,
+      preparation: ing.preparation,
+      ...(ing.section ? { section: ing.section } : {}),
+    })),
+    instructions: recipe.instructions.map((inst) => inst.text),
+    ...(hasSections(recipe.instructions.map((inst) => inst.section))
+      ? { instructionSections: recipe.instructions.map((inst) => inst.section) }
+      : {}),
+    tags: recipe.tags.map((tag) => ({ name: tag.name, kind: tag.kind })),
+    nutrition: sanitizeNutrition(recipe.nutrition),
+  };
+}
+
+/**
+ * Turn a stored snapshot back into an update request
+ */
+export function snapshotToInput(snapshot: RecipeSnapshot): RecipeInput {
+  return {
+    ...snapshot,
+    description: snapshot.description ?? undefined,
+    notes: snapshot.notes ?? undefined,
+    sourceUrl: snapshot.sourceUrl ?? undefined,
+    alternateSourceUrls: snapshot.alternateSourceUrls ?? [],
+  };
+}
+
+/**
+ * Compare two snapshots field by field
+ * Tag order is ignored; ingredient and instruction order is not.
+ * @param before Earlier snapshot
+ * @param after Later snapshot
+ * @returns The fields that differ, with both values
+ */
+export function diffSnapshots(before: RecipeSnapshot, after: RecipeSnapshot): RecipeFieldChange[] {
+  const comparable = (snapshot: RecipeSnapshot, field: keyof RecipeSnapshot) => {
+    const value = field === 'tags'
+      ? [...(snapshot.tags ?? [])].sort((a, b) => a.name.localeCompare(b.name))
+      : snapshot[field];
+    return JSON.stringify(value ?? null);
+  };
+
+  return SNAPSHOT_FIELDS
+    .filter((field) => comparable(before, field) !== comparable(after, field))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+/**
+ * Replace a recipe's contents and record the previous version as a revision
+ * Tags and nutrition are only replaced when the input includes them. Saves that
+ * change nothing do not create a revision.
+ * @param id Recipe ID
+ * @param input New recipe contents
+ * @param source What made the change
+ * @param tx Transaction to run in, so callers can make more changes atomically;
+ *   a new one is started when not given
+ * @returns The updated recipe, or null if it does not exist
+ */
+export async function updateRecipeWithRevision(
+  id: string,
+  input: RecipeInput,
+  source: RevisionSource,
+  tx?: Prisma.TransactionClient
+): Promise<RecipeWithRelations | null> {
+  if (!tx) {
+    return prisma.$transaction((client) => updateRecipeWithRevision(id, input, source, client));
+  }
+
+  const nutrition = input.nutrition !== undefined ? sanitizeNutrition(input.nutrition) : undefined;
+
+  const current = await tx.recipe.findUnique({
+    where: { id },
+    include: recipeInclude,
+  });
+
+  if (!current) return null;
+
+  // Ingredients and instructions are always rewritten in full
+  await tx.ingredient.deleteMany({
+    where: { recipeId: id },
+  });
+  await tx.instruction.deleteMany({
+    where: { recipeId: id },
+  });
+  if (input.tags !== undefined) {
+    await tx.recipe.update({
+      where: { id },
+      data: { tags: { set: [] } },
+    });
+  }
+  if (input.nutrition !== undefined) {
+    await tx.nutrition.deleteMany({
+      where: { recipeId: id },
+    });
+  }
+
+  const recipe = await tx.recipe.update({
+    where: { id },
+    data: {
+      title: input.title,
+      description: input.description || null,
+      servings: input.servings,
+      ...resolveRecipeTimes(input),
+      notes: input.notes || null,
+      sourceUrl: input.sourceUrl || null,
+      ...(input.alternateSourceUrls !== undefined ? { alternateSourceUrls: input.alternateSourceUrls } : {}),
+      imageUrls: input.imageUrls || [],
+      ...(input.provenance !== undefined
+        ? { provenance: input.provenance ? (input.provenance as unknown as Prisma.InputJsonValue) : Prisma.DbNull }
+        : {}),
+      ...(input.tags !== undefined ? { tags: tagsWriteInput(input.tags) } : {}),
+      ...(nutrition ? { nutrition: { create: nutrition } } : {}),
+      ingredients: {
+        create: input.ingredients.map((ing, index) => ({ ...structureIngredient(ing), position: index })),
+      },
+      instructions: {
+        create: input.instructions.map((text, index) => ({
+          step: index + 1,
+          text,
+          section: normalizeSectionName(input.instructionSections?.[index]),
+        })),
+      },
+    },
+    include: recipeInclude,
+  });
+
+  const previous = toSnapshot(current);
+  const changes = diffSnapshots(previous, toSnapshot(recipe));
+  if (changes.length > 0) {
+    await tx.recipeRevision.create({
+      data: {
+        recipeId: id,
+        snapshot: previous as unknown as Prisma.InputJsonValue,
+        changedFields: changes.map((change) => change.field),
+        source,
+      },
+    });
+  }
+
+  return recipe;
+}
+
+/**
+ * Find what a save changed: the revision's snapshot against the state that
+ * replaced it (the next revision's snapshot, or the recipe as it is now)
+ * @param recipeId Recipe ID
+ * @param revisionId Revision ID
+ * @returns The revision and its field changes, or null if either does not exist
+ */
+export async function getRevisionDiff(recipeId: string, revisionId: string) {
+  const revision = await prisma.recipeRevision.findFirst({
+    where: { id: revisionId, recipeId },
+  });
+  if (!revision) return null;
+
+  const next = await prisma.recipeRevision.findFirst({
+    where: { recipeId, createdAt: { gt: revision.createdAt } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let after: RecipeSnapshot;
+  if (next) {
+    after = next.snapshot as unknown as RecipeSnapshot;
+  } else {
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      include: recipeInclude,
+    });
+    if (!recipe) return null;
+    after = toSnapshot(recipe);
+  }
+
+  const snapshot = revision.snapshot as unknown as RecipeSnapshot;
+  return {
+    revision: { ...revision, snapshot },
+    changes: diffSnapshots(snapshot, after),
+  };
+}
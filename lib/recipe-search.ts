@@ -0,0 +1,255 @@
+/**
+ * Recipe search
+ * Full-text search over recipes using the Postgres search vector maintained by
+ * database triggers, with ingredient and tag filters, sorting and cursor pagination
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { normalizeTagName } from './tags';
+
+export const RECIPE_SORTS = ['relevance', 'newest', 'oldest', 'updated', 'title'] as const;
+
+export type RecipeSort = (typeof RECIPE_SORTS)[number];
+
+export const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+export interface RecipeSearchOptions {
+  /** Free text matched against title, description, notes, ingredients and instructions */
+  query: string;
+  /** Recipes must have an ingredient matching each of these */
+  includeIngredients: string[];
+  /** Recipes must not have an ingredient matching any of these */
+  excludeIngredients: string[];
+  /** Recipes must have every one of these tags */
+  tags: string[];
+  /** Recipes must be ready within this many minutes */
+  maxTime: number | null;
+  sort: RecipeSort;
+  cursor: string | null;
+  limit: number;
+}
+
+/**
+ * Error for invalid search parameters, reported to the client as a 400
+ */
+export class RecipeSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeSearchError';
+  }
+}
+
+interface CursorPayload {
+  /** Sort key of the last recipe on the previous page */
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Read a list parameter given either repeated (?include=a&include=b) or
+ * comma-separated (?include=a,b)
+ */
+function getListParam(searchParams: URLSearchParams, name: string): string[] {
+  return searchParams
+    .getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse search options from request query parameters
+ * Supported parameters: q, include, exclude, tag, maxTime, sort, cursor, limit
+ * @param searchParams Query parameters of the request
+ * @returns Search options
+ * @throws RecipeSearchError if a parameter is invalid
+ */
+export function parseRecipeSearchParams(searchParams: URLSearchParams): RecipeSearchOptions {
+  const query = searchParams.get('q')?.trim() ?? '';
+
+  const sortParam = searchParams.get('sort');
+  if (sortParam && !(RECIPE_SORTS as readonly string[]).includes(sortParam)) {
+    throw new RecipeSearchError(`sort must be one of: ${RECIPE_SORTS.join(', ')}`);
+  }
+  // Relevance only means something when there is a query
+  const requestedSort = (sortParam as RecipeSort | null) ?? (query ? 'relevance' : 'newest');
+  const sort = requestedSort === 'relevance' && !query ? 'newest' : requestedSort;
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new RecipeSearchError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const maxTimeParam = searchParams.get('maxTime');
+  const maxTime = maxTimeParam ? Number(maxTimeParam) : null;
+  if (maxTime !== null && (!Number.isInteger(maxTime) || maxTime < 1)) {
+    throw new RecipeSearchError('maxTime must be a positive number of minutes');
+  }
+
+  return {
+    query,
+    includeIngredients: getListParam(searchParams, 'include'),
+    excludeIngredients: getListParam(searchParams, 'exclude'),
+    tags: getListParam(searchParams, 'tag').map(normalizeTagName),
+    maxTime,
+    sort,
+    cursor: searchParams.get('cursor') || null,
+    limit,
+  };
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof payload.id === 'string' && ['string', 'number'].includes(typeof payload.value)) {
+      return payload;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new RecipeSearchError('Invalid cursor');
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery, so results update while the
+ * user is still typing a word ("chick" finds "chicken")
+ * @param query Free text
+ * @returns tsquery source, or null if the text has no searchable words
+ */
+export function buildPrefixQuery(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map((term) => `${term}:*`).join(' & ') : null;
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function ingredientMatch(name: string): Prisma.Sql {
+  return Prisma.sql`SELECT 1 FROM "Ingredient" i WHERE i."recipeId" = r."id" AND i."name" ILIKE ${`%${escapeLike(name)}%`}`;
+}
+
+/**
+ * Search recipes
+ * @param options Search options
+ * @returns One page of recipes, with their ingredients, instructions, tags and nutrition, and
+ * the cursor for the next page (null on the last page)
+ */
+export async function searchRecipes(options: RecipeSearchOptions) {
+  const { sort, limit } = options;
+  const tsQuery = options.query ? buildPrefixQuery(options.query) : null;
+
+  // Text that contains no words at all cannot match anything
+  if (options.query && !tsQuery) {
+    return { recipes: [], nextCursor: null };
+  }
+
+  const rank = tsQuery
+    ? Prisma.sql`ts_rank_cd(r."searchVector", to_tsquery('english', ${tsQuery}))`
+    : Prisma.sql`0`;
+
+  const sortKey = {
+    relevance: rank,
+    newest: Prisma.sql`r."createdAt"`,
+    oldest: Prisma.sql`r."createdAt"`,
+    updated: Prisma.sql`r."updatedAt"`,
+    title: Prisma.sql`lower(r."title")`,
+  }[sort];
+  const descending = sort === 'relevance' || sort === 'newest' || sort === 'updated';
+
+  const conditions: Prisma.Sql[] = [];
+
+  if (tsQuery) {
+    conditions.push(Prisma.sql`r."searchVector" @@ to_tsquery('english', ${tsQuery})`);
+  }
+  for (const name of options.includeIngredients) {
+    conditions.push(Prisma.sql`EXISTS (${ingredientMatch(name)})`);
+  }
+  for (const name of options.excludeIngredients) {
+    conditions.push(Prisma.sql`NOT EXISTS (${ingredientMatch(name)})`);
+  }
+  for (const name of options.tags) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "_RecipeToTag" rt JOIN "Tag" t ON t."id" = rt."B"
+      WHERE rt."A" = r."id" AND t."name" = ${name}
+    )`);
+  }
+
+  // Recipes without a known time are left out rather than guessed at
+  if (options.maxTime !== null) {
+    conditions.push(Prisma.sql`r."totalTime" <= ${options.maxTime}`);
+  }
+
+  if (options.cursor) {
+    const { value, id } = decodeCursor(options.cursor);
+    const cursorValue = sort === 'relevance'
+      ? Prisma.sql`${Number(value)}::real`
+      : sort === 'title'
+        ? Prisma.sql`${String(value)}`
+        : Prisma.sql`${String(value)}::timestamp(3)`;
+    conditions.push(descending
+      ? Prisma.sql`(${sortKey}, r."id") < (${cursorValue}, ${id})`
+      : Prisma.sql`(${sortKey}, r."id") > (${cursorValue}, ${id})`);
+  }
+
+  const where = conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty;
+  const direction = descending ? Prisma.raw('DESC') : Prisma.raw('ASC');
+
+  // Fetch one extra row to find out whether there is another page
+  const rows = await prisma.$queryRaw<Array<{ id: string; sortValue: Date | string | number }>>`
+    SELECT r."id", ${sortKey} AS "sortValue"
+    FROM "Recipe" r
+    ${where}
+    ORDER BY ${sortKey} ${direction}, r."id" ${direction}
+    LIMIT ${limit + 1}
+  `;
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? encodeCursor({
+        value: last.sortValue instanceof Date ? last.sortValue.toISOString() : last.sortValue,
+        id: last.id,
+      })
+    : null;
+
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: page.map((row) => row.id) } },
+    include: {
+      ingredients: {
+        orderBy: {
+          position: 'asc',
+        },
+      },
+      instructions: {
+        orderBy: {
+          step: 'asc',
+        },
+      },
+      tags: {
+        orderBy: {
+          name: 'asc',
+        },
+      },
+      nutrition: true,
+    },
+  });
+
+  const byId = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+  return {
+    recipes: page.map((row) => byId.get(row.id)).filter((recipe) => recipe !== undefined),
+    nextCursor,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Recipe sections
+ * Ingredients and instructions can be split into named sections, such as "For
+ * the cake" and "For the frosting". Each ingredient and step carries the name
+ * of its section, and consecutive items with the same name make up a section.
+ */
+
+// Longest section name kept; longer "headings" are really steps
+const MAX_SECTION_NAME_LENGTH = 80;
+
+export interface RecipeSection<T> {
+  /** Section heading, or null for items before the first heading */
+  name: string | null;
+  items: T[];
+  /** Index of the first item in the whole list, e.g. to number steps */
+  start: number;
+}
+
+/**
+ * Clean up a section heading
+ * Example: "### For the Frosting:" -> "For the Frosting"
+ * @param name Heading as written in the source
+ * @returns The heading, or null if there is none
+ */
+export function normalizeSectionName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const cleaned = name
+    .replace(/^[#=\s]+|[=\s]+$/g, '')
+    .replace(/:$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned && cleaned.length <= MAX_SECTION_NAME_LENGTH ? cleaned : null;
+}
+
+/**
+ * Split a list into its sections
+ * @param items Ingredients or steps, in order
+ * @param sectionOf Section name of an item
+ * @returns The sections in order; a single unnamed section when nothing has a name
+ */
+export function groupIntoSections<T>(
+  items: T[],
+  sectionOf: (item: T, index: number) => string | null | undefined
+): RecipeSection<T>[] {
+  const sections: RecipeSection<T>[] = [];
+  items.forEach((item, index) => {
+    const name = sectionOf(item, index) || null;
+    const current = sections[sections.length - 1];
+    if (current && current.name === name) {
+      current.items.push(item);
+    } else {
+      sections.push({ name, items: [item], start: index });
+    }
+  });
+  return sections;
+}
+
+/**
+ * Check whether any item has a section
+ * @param sections Section names, one per item
+ */
+export function hasSections(sections: (string | null | undefined)[] | undefined): boolean {
+  return (sections ?? []).some(Boolean);
+}
+
+/**
+ * Read instructions that may be grouped
+ * Accepts plain strings, steps with a section ({ text, section }), and
+ * sections holding their steps ({ name, steps }), as returned by the AI or
+ * built by the importers.
+ * @param instructions Instructions in any of those shapes
+ * @returns Step texts, with the section of each step when there are sections
+ */
+export function flattenInstructions(instructions: unknown): {
+  instructions: string[];
+  instructionSections?: (string | null)[];
+} {
+  const texts: string[] = [];
+  const sections: (string | null)[] = [];
+
+  const add = (item: unknown, section: string | null) => {
+    if (typeof item === 'string') {
+      if (item.trim()) {
+        texts.push(item.trim());
+        sections.push(section);
+      }
+      return;
+    }
+    if (!item || typeof item !== 'object') return;
+
+    const step = item as { text?: unknown; section?: unknown; name?: unknown; steps?: unknown };
+    if (Array.isArray(step.steps)) {
+      step.steps.forEach((inner) => add(inner, normalizeSectionName(step.name) ?? section));
+    } else {
+      add(step.text, normalizeSectionName(step.section) ?? section);
+    }
+  };
+
+  if (Array.isArray(instructions)) {
+    instructions.forEach((item) => add(item, null));
+  }
+
+  return hasSections(sections)
+    ? { instructions: texts, instructionSections: sections }
+    : { instructions: texts };
+}
@@ -0,0 +1,115 @@
+/**
+ * Recipe persistence
+ * Shared by the recipe routes and the importers so every new recipe is
+ * written the same way
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { structureIngredient } from './ingredient-parser';
+import { resolveRecipeTimes } from './durations';
+import { sanitizeNutrition } from './nutrition';
+import { tagsWriteInput } from './tags';
+import { normalizeUrl } from './extraction-utils';
+import { normalizeSectionName } from './recipe-sections';
+import type { RecipeInput } from '@/types';
+
+/**
+ * Relations returned with a recipe by the API
+ */
+export const recipeInclude = {
+  ingredients: {
+    orderBy: {
+      position: 'asc',
+    },
+  },
+  instructions: {
+    orderBy: {
+      step: 'asc',
+    },
+  },
+  tags: {
+    orderBy: {
+      name: 'asc',
+    },
+  },
+  nutrition: true,
+} satisfies Prisma.RecipeInclude;
+
+export type RecipeWithRelations = Prisma.RecipeGetPayload<{ include: typeof recipeInclude }>;
+
+/**
+ * Find a recipe imported from the same page
+ * Recipes saved before source URLs were normalized may still have tracking
+ * parameters, so stored URLs are normalized too before comparing. Pages of
+ * recipes merged into another one match that recipe.
+ * @param url Page URL
+ * @returns The oldest matching recipe, or null if the page has not been imported
+ */
+export async function findRecipeBySourceUrl(url: string): Promise<{ id: string; title: string } | null> {
+  const canonical = normalizeUrl(url);
+  const { origin, pathname } = new URL(canonical);
+
+  const candidates = await prisma.recipe.findMany({
+    where: {
+      OR: [
+        { sourceUrl: { startsWith: `${origin}${pathname}` } },
+        { alternateSourceUrls: { has: canonical } },
+      ],
+    },
+    select: { id: true, title: true, sourceUrl: true, alternateSourceUrls: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const match = candidates.find((candidate) => {
+    if (candidate.alternateSourceUrls.includes(canonical)) return true;
+    try {
+      return normalizeUrl(candidate.sourceUrl ?? '') === canonical;
+    } catch {
+      return false;
+    }
+  });
+  return match ? { id: match.id, title: match.title } : null;
+}
+
+/**
+ * Create a recipe with its ingredients, instructions, tags and nutrition
+ * @param input Recipe contents
+ * @param options ID and creation date to keep, when restoring a recipe from a backup
+ * @returns The created recipe with its relations
+ */
+export async function createRecipe(
+  input: RecipeInput,
+  options: { id?: string; createdAt?: Date } = {}
+): Promise<RecipeWithRelations> {
+  const nutrition = sanitizeNutrition(input.nutrition);
+
+  return prisma.recipe.create({
+    data: {
+      id: options.id,
+      createdAt: options.createdAt,
+      title: input.title,
+      description: input.description || null,
+      servings: input.servings,
+      ...resolveRecipeTimes(input),
+      notes: input.notes || null,
+      sourceUrl: input.sourceUrl || null,
+      alternateSourceUrls: input.alternateSourceUrls ?? [],
+      imageUrls: input.imageUrls || [],
+      provenance: input.provenance ? (input.provenance as unknown as Prisma.InputJsonValue) : undefined,
+      tags: tagsWriteInput(input.tags),
+      nutrition: nutrition ? { create: nutrition } : undefined,
+      ingredients: {
+        create: input.ingredients.map((ing, index) => ({ ...structureIngredient(ing), position: index })),
+      },
+      instructions: {
+        create: input.instructions.map((text, index) => ({
+          step: index + 1,
+          text,
+          section: normalizeSectionName(input.instructionSections?.[index]),
+        })),
+      },
+    },
+    include: recipeInclude,
+  });
+}
@@ -4,6 +4,12 @@
 
 import { z } from 'zod';
 import { RecipeExtractionError } from './extraction-utils';
+import { structureIngredient, type StructuredIngredient } from './ingredient-parser';
+import { TAG_KINDS, sanitizeTags } from './tags';
+import { resolveRecipeTimes } from './durations';
+import { sanitizeNutrition } from './nutrition';
+import { flattenInstructions } from './recipe-sections';
+import { PROVENANCE_METHODS } from './extraction-provenance';
 
 /**
  * Ingredient schema
@@ -11,6 +17,51 @@ import { RecipeExtractionError } from './extraction-utils';
 export const IngredientSchema = z.object({
   name: z.string().min(1, 'Ingredient name is required'),
   quantity: z.string(), // Can be empty for "to taste" items
+  amount: z.number().nonnegative().nullable().default(null),
+  amountMax: z.number().nonnegative().nullable().default(null),
+  unit: z.string().nullable().default(null),
+  preparation: z.string().nullable().default(null),
+  section: z.string().nullable().default(null),
+});
+
+/**
+ * Provenance schema, for provenance read back from outside the server
+ */
+export const ProvenanceSchema = z.object({
+  method: z.enum(PROVENANCE_METHODS),
+  parsedFields: z.array(z.string()),
+  aiFields: z.array(z.string()),
+  warnings: z.array(z.string()),
+  timings: z.array(z.object({ stage: z.string(), ms: z.number() })),
+  models: z.array(z.string()),
+  cachedAt: z.string().nullable(),
+  createdAt: z.string(),
+  reviewedAt: z.string().nullable().optional(),
+});
+
+/**
+ * Tag schema
+ */
+export const TagSchema = z.object({
+  name: z.string().min(1, 'Tag name is required').max(40, 'Tag name too long'),
+  kind: z.enum(TAG_KINDS).default('tag'),
+});
+
+/**
+ * Nutrition schema (per serving)
+ */
+const nutrientValue = z.number().nonnegative().nullable().default(null);
+
+export const NutritionSchema = z.object({
+  calories: nutrientValue,
+  fat: nutrientValue,
+  saturatedFat: nutrientValue,
+  carbohydrates: nutrientValue,
+  sugar: nutrientValue,
+  fiber: nutrientValue,
+  protein: nutrientValue,
+  sodium: nutrientValue,
+  cholesterol: nutrientValue,
 });
 
 /**
@@ -20,6 +71,9 @@ export const RecipeDataSchema = z.object({
   title: z.string().min(1, 'Recipe title is required').max(200, 'Title too long'),
   description: z.string().min(1, 'Recipe description is required'),
   servings: z.number().int().positive('Servings must be a positive number').default(4),
+  prepTime: z.number().int().positive().nullable().default(null),
+  cookTime: z.number().int().positive().nullable().default(null),
+  totalTime: z.number().int().positive().nullable().default(null),
   ingredients: z
     .array(IngredientSchema)
     .min(1, 'At least one ingredient is required')
@@ -28,8 +82,11 @@ export const RecipeDataSchema = z.object({
     .array(z.string().min(1, 'Instruction step cannot be empty'))
     .min(1, 'At least one instruction step is required')
     .max(50, 'Too many instruction steps'),
+  instructionSections: z.array(z.string().nullable()).optional(),
   imageUrls: z.array(z.string().url()).optional().default([]),
   sourceUrl: z.string().url().optional(),
+  tags: z.array(TagSchema).optional().default([]),
+  nutrition: NutritionSchema.nullable().default(null),
 });
 
 /**
@@ -91,10 +148,13 @@ export function sanitizeRecipeData(data: any): any {
     title: sanitizeString(data.title),
     description: sanitizeString(data.description),
     servings: sanitizeNumber(data.servings, 4),
+    ...resolveRecipeTimes(data),
     ingredients: sanitizeIngredients(data.ingredients),
-    instructions: sanitizeInstructions(data.instructions),
+    ...sanitizeInstructions(data.instructions, data.instructionSections),
     imageUrls: Array.isArray(data.imageUrls) ? data.imageUrls : [],
     sourceUrl: data.sourceUrl || undefined,
+    tags: sanitizeTags(data.tags),
+    nutrition: sanitizeNutrition(data.nutrition),
   };
 }
 
@@ -126,31 +186,40 @@ function sanitizeNumber(value: any, defaultValue: number): number {
  * @param ingredients Raw ingredients
  * @returns Sanitized ingredients
  */
-function sanitizeIngredients(ingredients: any): Array<{ name: string; quantity: string }> {
+function sanitizeIngredients(ingredients: any): StructuredIngredient[] {
   if (!Array.isArray(ingredients)) {
     return [];
   }
 
   return ingredients
     .filter((ing) => ing && typeof ing === 'object')
-    .map((ing) => ({
+    .map((ing) => structureIngredient({
       name: sanitizeString(ing.name),
       quantity: sanitizeString(ing.quantity),
+      preparation: sanitizeString(ing.preparation) || null,
+      section: sanitizeString(ing.section) || null,
     }))
     .filter((ing) => ing.name.length > 0); // Remove empty ingredients
 }
 
 /**
  * Sanitize instructions array
- * @param instructions Raw instructions
- * @returns Sanitized instructions
+ * Empty steps are removed together with their sections.
+ * @param instructions Raw instructions, as strings or steps with a section
+ * @param sections Section of each step, when the steps are strings
+ * @returns Sanitized instructions, with their sections if there are any
  */
-function sanitizeInstructions(instructions: any): string[] {
+function sanitizeInstructions(instructions: any, sections?: any): {
+  instructions: string[];
+  instructionSections?: (string | null)[];
+} {
   if (!Array.isArray(instructions)) {
-    return [];
+    return { instructions: [] };
   }
 
-  return instructions
-    .map((instruction) => sanitizeString(instruction))
-    .filter((instruction) => instruction.length > 0); // Remove empty instructions
+  return flattenInstructions(instructions.map((instruction, index) =>
+    typeof instruction === 'string' && Array.isArray(sections)
+      ? { text: instruction, section: sections[index] }
+      : instruction
+  ));
 }
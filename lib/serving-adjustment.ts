@@ -0,0 +1,64 @@
+/**
+ * Serving adjustment with an AI fallback
+ * Scales ingredients with the deterministic scaler and sends only the lines
+ * it could not read to the AI. Server-only, as it calls Gemini.
+ */
+
+import type { IngredientInput } from '@/types';
+import { adjustIngredients } from './gemini';
+import { structureIngredient } from './ingredient-parser';
+import { scaleIngredients, type ScaledIngredient } from './serving-scaler';
+
+export interface AdjustedIngredient {
+  ingredient: ScaledIngredient['ingredient'];
+  /** 'unparsed' is left when the AI fallback failed and the line kept its amount */
+  method: ScaledIngredient['method'] | 'ai';
+}
+
+/**
+ * Scale every ingredient of a recipe, falling back to the AI for unparsed lines
+ * @param ingredients Ingredients of the recipe
+ * @param originalServings Servings the recipe is written for
+ * @param newServings Servings to scale to
+ * @returns Scaled ingredients in the original order
+ */
+export async function adjustServings(
+  ingredients: IngredientInput[],
+  originalServings: number,
+  newServings: number
+): Promise<AdjustedIngredient[]> {
+  const scaled: AdjustedIngredient[] = scaleIngredients(ingredients, originalServings, newServings);
+  if (originalServings === newServings) return scaled;
+
+  // Only lines the local scaler could not read are sent to the AI
+  const unparsedIndexes = scaled
+    .map((result, index) => (result.method === 'unparsed' ? index : -1))
+    .filter((index) => index >= 0);
+
+  if (unparsedIndexes.length === 0) return scaled;
+
+  try {
+    const adjusted = await adjustIngredients(
+      unparsedIndexes.map((index) => scaled[index].ingredient),
+      originalServings,
+      newServings
+    );
+
+    if (adjusted.length === unparsedIndexes.length) {
+      unparsedIndexes.forEach((index, i) => {
+        scaled[index] = {
+          ingredient: structureIngredient({
+            ...adjusted[i],
+            preparation: scaled[index].ingredient.preparation,
+            section: scaled[index].ingredient.section,
+          }),
+          method: 'ai',
+        };
+      });
+    }
+  } catch (error) {
+    console.error('AI fallback for unparsed ingredients failed:', error);
+  }
+
+  return scaled;
+}
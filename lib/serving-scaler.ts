@@ -0,0 +1,109 @@
+/**
+ * Deterministic serving scaler
+ * Multiplies parsed ingredient amounts, promotes or demotes units and renders
+ * friendly fractions without calling the AI
+ */
+
+import type { IngredientInput } from '@/types';
+import {
+  structureIngredient,
+  splitLeadingAmount,
+  normalizeUnit,
+  type StructuredIngredient,
+} from './ingredient-parser';
+import { chooseBestUnit, formatAmount, formatQuantity, getUnit } from './units';
+
+/**
+ * How a line was handled:
+ * - deterministic: amount was scaled locally
+ * - unchanged: nothing to scale ("to taste", "pinch", no quantity)
+ * - unparsed: has a quantity we could not read, needs another strategy
+ */
+export type ScaleMethod = 'deterministic' | 'unchanged' | 'unparsed';
+
+export interface ScaledIngredient {
+  ingredient: StructuredIngredient;
+  method: ScaleMethod;
+}
+
+// Units that describe an imprecise amount and are never scaled
+const UNSCALED_UNITS = new Set(['pinch', 'dash', 'handful']);
+
+/**
+ * Scale a single ingredient by a factor
+ * @param ingredient Ingredient to scale
+ * @param factor Multiplier (new servings / original servings)
+ * @returns Scaled ingredient and how it was scaled
+ */
+export function scaleIngredient(ingredient: IngredientInput, factor: number): ScaledIngredient {
+  const structured = structureIngredient(ingredient);
+
+  if (structured.unit && UNSCALED_UNITS.has(structured.unit)) {
+    return { ingredient: structured, method: 'unchanged' };
+  }
+
+  if (structured.amount === null) {
+    const hasQuantity = structured.quantity.length > 0 && !/^(to taste|as needed)$/i.test(structured.quantity);
+    return { ingredient: structured, method: hasQuantity ? 'unparsed' : 'unchanged' };
+  }
+
+  if (factor === 1) {
+    return { ingredient: structured, method: 'deterministic' };
+  }
+
+  const leading = splitLeadingAmount(structured.quantity);
+  if (!leading) {
+    return { ingredient: structured, method: 'unparsed' };
+  }
+
+  let amount = structured.amount * factor;
+  let amountMax = structured.amountMax !== null ? structured.amountMax * factor : null;
+  let unit = structured.unit;
+
+  let quantity: string;
+
+  // Re-pick the unit for measurable quantities ("48 tsp" -> "1 cup"), but only
+  // when nothing else follows the unit ("1 (14 oz) can" keeps its wording)
+  if (unit && getUnit(unit) && normalizeUnit(leading.remainder) === unit) {
+    const best = chooseBestUnit(amount, unit);
+    if (best.unit !== unit) {
+      const ratio = best.amount / amount;
+      amount = best.amount;
+      amountMax = amountMax !== null ? amountMax * ratio : null;
+      unit = best.unit;
+    }
+    quantity = formatQuantity(amount, amountMax, unit);
+  } else {
+    const amountText = amountMax !== null
+      ? `${formatAmount(amount, unit)}-${formatAmount(amountMax, unit)}`
+      : formatAmount(amount, unit);
+    quantity = leading.remainder ? `${amountText} ${leading.remainder}` : amountText;
+  }
+
+  return {
+    ingredient: {
+      ...structured,
+      quantity,
+      amount,
+      amountMax,
+      unit,
+    },
+    method: 'deterministic',
+  };
+}
+
+/**
+ * Scale every ingredient of a recipe to a new number of servings
+ * @param ingredients Ingredients of the recipe
+ * @param originalServings Servings the recipe is written for
+ * @param newServings Servings to scale to
+ * @returns Scaled ingredients in the original order
+ */
+export function scaleIngredients(
+  ingredients: IngredientInput[],
+  originalServings: number,
+  newServings: number
+): ScaledIngredient[] {
+  const factor = originalServings > 0 ? newServings / originalServings : 1;
+  return ingredients.map((ingredient) => scaleIngredient(ingredient, factor));
+}
@@ -0,0 +1,152 @@
+/**
+ * Shopping list aggregation
+ * Merges items for the same ingredient across recipes, summing quantities
+ * whose units are compatible, and groups the result by grocery category
+ */
+
+import type { ShoppingListItem } from '@/types';
+import { canonicalIngredientName, categorizeIngredient, sortCategories } from './grocery-categories';
+import { UNITS, chooseBestUnit, formatAmount, formatQuantity, getUnit, unitLabel } from './units';
+
+export interface MergedShoppingItem {
+  /** Canonical ingredient name the items were merged on */
+  key: string;
+  name: string;
+  /** Combined quantity, e.g. "3 onions" or "1 cup + 2 cloves" */
+  quantity: string;
+  category: string;
+  /** True once every underlying item has been checked off */
+  checked: boolean;
+  /** The original items, for showing which recipe needs how much */
+  items: ShoppingListItem[];
+}
+
+export interface ShoppingAisle {
+  category: string;
+  items: MergedShoppingItem[];
+}
+
+/**
+ * Combine the quantities of items for the same ingredient
+ * Measurable amounts are summed per dimension (volume or weight) in the unit
+ * system of the first item; counts are summed per unit; anything else is
+ * listed as written. Ranges are summed at both ends, so "2-3 eggs" and
+ * "1 egg" make "3-4 eggs".
+ * @param items Items for a single ingredient
+ * @returns Combined quantity text
+ */
+export function combineQuantities(items: ShoppingListItem[]): string {
+  const measured = new Map<string, { total: number; totalMax: number; ranged: boolean; system: 'us' | 'metric' }>();
+  const counted = new Map<string, { total: number; totalMax: number; ranged: boolean }>();
+  const unmeasured: string[] = [];
+
+  for (const item of items) {
+    const definition = getUnit(item.unit);
+
+    if (item.amount != null && definition) {
+      const entry = measured.get(definition.dimension);
+      const base = item.amount * definition.factor;
+      const baseMax = (item.amountMax ?? item.amount) * definition.factor;
+      const ranged = item.amountMax != null;
+      if (entry) {
+        entry.total += base;
+        entry.totalMax += baseMax;
+        entry.ranged ||= ranged;
+      } else {
+        measured.set(definition.dimension, { total: base, totalMax: baseMax, ranged, system: definition.system });
+      }
+    } else if (item.amount != null) {
+      const unit = item.unit ?? '';
+      const entry = counted.get(unit) ?? { total: 0, totalMax: 0, ranged: false };
+      counted.set(unit, {
+        total: entry.total + item.amount,
+        totalMax: entry.totalMax + (item.amountMax ?? item.amount),
+        ranged: entry.ranged || item.amountMax != null,
+      });
+    } else if (item.quantity && !unmeasured.includes(item.quantity)) {
+      unmeasured.push(item.quantity);
+    }
+  }
+
+  const parts: string[] = [];
+
+  for (const [dimension, { total, totalMax, ranged, system }] of measured) {
+    const smallestUnit = system === 'metric'
+      ? (dimension === 'volume' ? 'ml' : 'g')
+      : (dimension === 'volume' ? 'tsp' : 'oz');
+    const best = chooseBestUnit(total / UNITS[smallestUnit].factor, smallestUnit);
+    const bestMax = ranged ? totalMax / UNITS[best.unit].factor : null;
+    parts.push(formatQuantity(best.amount, bestMax, best.unit));
+  }
+
+  for (const [unit, { total, totalMax, ranged }] of counted) {
+    const amountText = ranged
+      ? `${formatAmount(total, unit)}-${formatAmount(totalMax, unit)}`
+      : formatAmount(total, unit);
+    parts.push(unit ? `${amountText} ${unitLabel(unit, ranged ? totalMax : total)}` : amountText);
+  }
+
+  return [...parts, ...unmeasured].join(' + ');
+}
+
+/**
+ * Merge shopping list items that refer to the same ingredient
+ * @param items Shopping list items, possibly from several recipes
+ * @param categoryOverrides User-defined mapping from canonical ingredient name to category
+ * @returns Merged items in order of first appearance
+ */
+export function mergeShoppingItems(
+  items: ShoppingListItem[],
+  categoryOverrides: Record<string, string> = {}
+): MergedShoppingItem[] {
+  const groups = new Map<string, ShoppingListItem[]>();
+
+  for (const item of items) {
+    const key = canonicalIngredientName(item.name);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    name: group[0].name,
+    quantity: combineQuantities(group),
+    category: categorizeIngredient(group[0].name, categoryOverrides),
+    checked: group.every((item) => item.checked),
+    items: group,
+  }));
+}
+
+/**
+ * Merge items and group them by grocery category in store walking order
+ * @param items Shopping list items
+ * @param categoryOverrides User-defined mapping from canonical ingredient name to category
+ * @param aisleOrder Store-specific category order
+ * @returns Aisles with their merged items
+ */
+export function groupShoppingItemsByAisle(
+  items: ShoppingListItem[],
+  categoryOverrides: Record<string, string> = {},
+  aisleOrder: string[] = []
+): ShoppingAisle[] {
+  const merged = mergeShoppingItems(items, categoryOverrides);
+  const byCategory = new Map<string, MergedShoppingItem[]>();
+
+  for (const item of merged) {
+    const group = byCategory.get(item.category);
+    if (group) {
+      group.push(item);
+    } else {
+      byCategory.set(item.category, [item]);
+    }
+  }
+
+  return sortCategories(Array.from(byCategory.keys()), aisleOrder).map((category) => ({
+    category,
+    items: byCategory.get(category)!.sort((a, b) => a.name.localeCompare(b.name)),
+  }));
+}
@@ -0,0 +1,58 @@
+/**
+ * Budget Bytes
+ * Recipe cards are made with the WP Recipe Maker plugin, and every ingredient
+ * has its cost as a note. Named ingredient and instruction groups become sections.
+ */
+
+import { selectorExtractor } from './selector-extractor';
+import type { SiteExtractor } from './types';
+
+export const budgetBytes: SiteExtractor = {
+  domains: ['budgetbytes.com'],
+  extract: selectorExtractor({
+    title: '.wprm-recipe-name',
+    description: '.wprm-recipe-summary',
+    servings: '.wprm-recipe-servings',
+    prepTime: '.wprm-recipe-prep-time-container .wprm-recipe-time',
+    cookTime: '.wprm-recipe-cook-time-container .wprm-recipe-time',
+    totalTime: '.wprm-recipe-total-time-container .wprm-recipe-time',
+    ingredients: '.wprm-recipe-ingredient',
+    instructions: '.wprm-recipe-instruction-text',
+    ingredientGroups: '.wprm-recipe-ingredient-group',
+    instructionGroups: '.wprm-recipe-instruction-group',
+    groupName: '.wprm-recipe-group-name',
+    category: '.wprm-recipe-course',
+    cuisine: '.wprm-recipe-cuisine',
+    remove: '.wprm-recipe-ingredient-notes',
+  }),
+  fixtures: [
+    {
+      file: 'budgetbytes.com.html',
+      url: 'https://www.budgetbytes.com/one-pot-creamy-pesto-chicken-pasta/',
+      expected: {
+        title: 'One Pot Creamy Pesto Chicken Pasta',
+        servings: 4,
+        prepTime: 10,
+        cookTime: 25,
+        totalTime: 35,
+        ingredients: [
+          '1 Tbsp olive oil',
+          '1 lb boneless, skinless chicken breast',
+          '2 cloves garlic, minced',
+          '8 oz penne pasta',
+          '2 cups chicken broth',
+          '1/3 cup pesto',
+          '2 oz cream cheese',
+          '1/4 cup grated Parmesan',
+        ],
+        ingredientSections: [null, null, null, null, null, null, null, 'To Serve'],
+        instructions: [
+          'Cut the chicken into bite sized pieces and brown it in the olive oil in a deep skillet.',
+          'Add the garlic, pasta and chicken broth, bring to a boil, then simmer covered for 10 minutes.',
+          'Stir in the pesto and cream cheese until melted, and serve topped with Parmesan.',
+        ],
+        instructionSections: ['Brown the Chicken', 'Cook the Pasta', 'Cook the Pasta'],
+      },
+    },
+  ],
+};
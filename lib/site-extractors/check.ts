@@ -0,0 +1,60 @@
+/**
+ * Site extractor checks
+ * Runs every extractor against its saved pages, so a broken extractor is
+ * noticed without fetching the live site.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { formatIngredientLine } from '../ingredient-parser';
+import { SITE_EXTRACTORS } from './index';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'lib', 'site-extractors', 'fixtures');
+
+export interface SiteExtractorCheck {
+  domain: string;
+  file: string;
+  passed: boolean;
+  /** One line per field that differs from the expected value */
+  failures: string[];
+}
+
+/**
+ * Check every registered extractor against its fixtures
+ * @returns One result per fixture
+ */
+export async function checkSiteExtractors(): Promise<SiteExtractorCheck[]> {
+  const results: SiteExtractorCheck[] = [];
+
+  for (const extractor of SITE_EXTRACTORS) {
+    for (const fixture of extractor.fixtures) {
+      const failures: string[] = [];
+
+      try {
+        const html = await readFile(path.join(FIXTURES_DIR, fixture.file), 'utf8');
+        const parsed = extractor.extract(html, fixture.url);
+
+        if (!parsed) {
+          failures.push('No recipe found');
+        } else {
+          const actual: Record<string, unknown> = {
+            ...parsed,
+            ingredients: parsed.ingredients.map((ingredient) => formatIngredientLine(ingredient)),
+            ingredientSections: parsed.ingredients.map((ingredient) => ingredient.section ?? null),
+          };
+          for (const [field, expected] of Object.entries(fixture.expected)) {
+            if (JSON.stringify(actual[field]) !== JSON.stringify(expected)) {
+              failures.push(`${field}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual[field])}`);
+            }
+          }
+        }
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : 'Extractor failed');
+      }
+
+      results.push({ domain: extractor.domains[0], file: fixture.file, passed: failures.length === 0, failures });
+    }
+  }
+
+  return results;
+}
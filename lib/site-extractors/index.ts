@@ -0,0 +1,53 @@
+/**
+ * Site extractor registry
+ * Extractors for particular sites, consulted before the generic tiers in
+ * extractRecipeFromUrl. To add a site, write a module exporting a
+ * SiteExtractor, save one of its recipe pages in fixtures/ and list it below;
+ * checkSiteExtractors then verifies it against the saved page.
+ */
+
+import { extractDomain } from '../extraction-utils';
+import type { ParsedRecipeData } from '../structured-data-parser';
+import { budgetBytes } from './budgetbytes';
+import type { SiteExtractor } from './types';
+
+export type { SiteExtractor, SiteExtractorFixture } from './types';
+
+export const SITE_EXTRACTORS: SiteExtractor[] = [
+  budgetBytes,
+];
+
+/**
+ * Find the extractor for a URL
+ * @param url Page URL
+ * @returns The extractor registered for the URL's domain or a parent domain, or null
+ */
+export function findSiteExtractor(url: string): SiteExtractor | null {
+  const hostname = extractDomain(url).toLowerCase().replace(/^www\./, '');
+  return SITE_EXTRACTORS.find((extractor) => extractor.domains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+  )) ?? null;
+}
+
+/**
+ * Parse a page with the extractor for its site
+ * A broken extractor is logged and skipped, so the generic tiers still run.
+ * @param html HTML content
+ * @param url Page URL
+ * @returns Parsed recipe data, or null if there is no extractor or it found nothing
+ */
+export function parseWithSiteExtractor(html: string, url: string): ParsedRecipeData | null {
+  const extractor = findSiteExtractor(url);
+  if (!extractor) return null;
+
+  try {
+    const parsed = extractor.extract(html, url);
+    if (parsed) {
+      console.log(`✅ Successfully parsed recipe with the ${extractDomain(url)} extractor`);
+    }
+    return parsed;
+  } catch (error) {
+    console.error(`Error in site extractor for ${extractDomain(url)}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Extractors built from CSS selectors
+ * Most site extractors only need to say where each field is on the page.
+ */
+
+import * as cheerio from 'cheerio';
+import { resolveRecipeTimes } from '../durations';
+import { parseIngredientLine } from '../ingredient-parser';
+import { hasSections, normalizeSectionName } from '../recipe-sections';
+import { tagsFromSchemaOrg } from '../tags';
+import type { ParsedRecipeData } from '../structured-data-parser';
+
+export interface RecipeSelectors {
+  title: string;
+  description?: string;
+  /** Element whose text contains the number of servings */
+  servings?: string;
+  /** Elements with durations as text, e.g. "1 hr 15 mins" */
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  /** One element per ingredient line */
+  ingredients: string;
+  /** One element per step */
+  instructions: string;
+  /** Elements around each group of ingredients or steps, e.g. "For the sauce" */
+  ingredientGroups?: string;
+  instructionGroups?: string;
+  /** Heading within a group, read as the section of its ingredients or steps */
+  groupName?: string;
+  category?: string;
+  cuisine?: string;
+  /** Elements dropped before reading, e.g. prices printed next to ingredients */
+  remove?: string;
+}
+
+/**
+ * Build an extract function from CSS selectors
+ * @param selectors Where each field is on the page
+ * @returns Extract function returning null unless a title, ingredients and instructions are found
+ */
+export function selectorExtractor(selectors: RecipeSelectors) {
+  return (html: string): ParsedRecipeData | null => {
+    const $ = cheerio.load(html);
+    if (selectors.remove) $(selectors.remove).remove();
+    const text = (selector?: string) => (selector ? $(selector).first().text().replace(/\s+/g, ' ').trim() : '');
+    // Text of each element, with the name of the group it is in
+    const sectionedTexts = (selector?: string, groups?: string) => (selector ? $(selector).toArray() : [])
+      .map((element) => ({
+        text: $(element).text().replace(/\s+/g, ' ').trim(),
+        section: groups && selectors.groupName
+          ? normalizeSectionName($(element).closest(groups).find(selectors.groupName).first().text())
+          : null,
+      }))
+      .filter((item) => item.text);
+    const texts = (selector?: string) => sectionedTexts(selector).map((item) => item.text);
+
+    const title = text(selectors.title);
+    const ingredients = sectionedTexts(selectors.ingredients, selectors.ingredientGroups)
+      .map(({ text: line, section }) => ({ ...parseIngredientLine(line), section }));
+    const steps = sectionedTexts(selectors.instructions, selectors.instructionGroups);
+    const instructions = steps.map((step) => step.text);
+    const instructionSections = steps.map((step) => step.section);
+    if (!title || ingredients.length === 0 || instructions.length === 0) return null;
+
+    return {
+      title,
+      description: text(selectors.description),
+      servings: parseInt(text(selectors.servings).match(/\d+/)?.[0] ?? '4', 10),
+      ...resolveRecipeTimes({
+        prepTime: text(selectors.prepTime),
+        cookTime: text(selectors.cookTime),
+        totalTime: text(selectors.totalTime),
+      }),
+      ingredients,
+      instructions,
+      ...(hasSections(instructionSections) ? { instructionSections } : {}),
+      tags: tagsFromSchemaOrg({
+        recipeCategory: texts(selectors.category),
+        recipeCuisine: texts(selectors.cuisine),
+      }),
+    };
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Site extractor types
+ */
+
+import type { ParsedRecipeData } from '../structured-data-parser';
+
+/**
+ * A saved page an extractor must keep handling, checked by checkSiteExtractors
+ */
+export interface SiteExtractorFixture {
+  /** HTML file in lib/site-extractors/fixtures */
+  file: string;
+  /** URL the page was saved from */
+  url: string;
+  /**
+   * Fields the extractor must return exactly; ingredients are compared as
+   * written lines, and their sections separately
+   */
+  expected: Partial<Omit<ParsedRecipeData, 'ingredients'>> & {
+    ingredients?: string[];
+    ingredientSections?: (string | null)[];
+  };
+}
+
+/**
+ * Parser for the recipe pages of particular sites, for sites whose structured
+ * data is missing or broken
+ */
+export interface SiteExtractor {
+  /** Hostnames without "www."; their subdomains match too */
+  domains: string[];
+  /**
+   * Read the recipe from a page
+   * @returns Parsed recipe data, or null to fall back to the generic tiers
+   */
+  extract: (html: string, url: string) => ParsedRecipeData | null;
+  fixtures: SiteExtractorFixture[];
+}
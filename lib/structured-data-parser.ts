@@ -1,17 +1,33 @@
 /**
  * Structured data parser for recipe extraction
- * Supports JSON-LD (schema.org Recipe) and OpenGraph meta tags
+ * Supports JSON-LD (schema.org Recipe), microdata and RDFa markup, and
+ * OpenGraph meta tags
  */
 
 import * as cheerio from 'cheerio';
 import { RecipeExtractionError, extractDomain } from './extraction-utils';
+import { parseIngredientLine, type StructuredIngredient } from './ingredient-parser';
+import { tagsFromSchemaOrg } from './tags';
+import { resolveRecipeTimes } from './durations';
+import { nutritionFromSchemaOrg } from './nutrition';
+import { flattenInstructions } from './recipe-sections';
+import type { NutritionInput, TagInput } from '@/types';
 
 export interface ParsedRecipeData {
   title: string;
   description: string;
   servings: number;
-  ingredients: Array<{ name: string; quantity: string }>;
+  /** Times in minutes */
+  prepTime?: number | null;
+  cookTime?: number | null;
+  totalTime?: number | null;
+  ingredients: StructuredIngredient[];
   instructions: string[];
+  /** Section of each instruction, from HowToSection; left out when there are none */
+  instructionSections?: (string | null)[];
+  tags?: TagInput[];
+  /** Nutrition per serving */
+  nutrition?: NutritionInput | null;
 }
 
 /**
@@ -105,7 +121,7 @@ function transformSchemaOrgToRecipe(schemaRecipe: any): ParsedRecipeData | null
     if (ingredients.length === 0) return null; // Must have ingredients
 
     // Extract instructions
-    const instructions = parseInstructions(
+    const { instructions, instructionSections } = parseInstructions(
       schemaRecipe.recipeInstructions || []
     );
 
@@ -115,8 +131,13 @@ function transformSchemaOrgToRecipe(schemaRecipe: any): ParsedRecipeData | null
       title,
       description,
       servings,
+      // ISO 8601 durations such as "PT1H30M"
+      ...resolveRecipeTimes(schemaRecipe),
       ingredients,
       instructions,
+      ...(instructionSections ? { instructionSections } : {}),
+      tags: tagsFromSchemaOrg(schemaRecipe),
+      nutrition: nutritionFromSchemaOrg(schemaRecipe.nutrition),
     };
   } catch (error) {
     console.error('Error transforming schema.org recipe:', error);
@@ -129,7 +150,7 @@ function transformSchemaOrgToRecipe(schemaRecipe: any): ParsedRecipeData | null
  * @param ingredientsList Ingredients in schema.org format
  * @returns Array of ingredient objects
  */
-function parseIngredients(ingredientsList: any[]): Array<{ name: string; quantity: string }> {
+function parseIngredients(ingredientsList: any[]): StructuredIngredient[] {
   if (!Array.isArray(ingredientsList) || ingredientsList.length === 0) {
     return [];
   }
@@ -137,85 +158,211 @@ function parseIngredients(ingredientsList: any[]): Array<{ name: string; quantit
   return ingredientsList.map((ingredient) => {
     // Handle string format (most common)
     if (typeof ingredient === 'string') {
-      return parseIngredientString(ingredient);
+      return parseIngredientLine(ingredient);
     }
 
     // Handle object format with structured data
     if (typeof ingredient === 'object' && ingredient !== null) {
       const text = ingredient.text || ingredient.name || ingredient['@value'];
       if (text) {
-        return parseIngredientString(text);
+        return parseIngredientLine(String(text));
       }
     }
 
     // Fallback
-    return { name: String(ingredient), quantity: '' };
+    return parseIngredientLine(String(ingredient));
   }).filter(ing => ing.name.trim().length > 0);
 }
 
-/**
- * Parse a single ingredient string into name and quantity
- * Examples: "2 cups flour", "1 egg", "Salt to taste"
- * @param ingredientStr Ingredient string
- * @returns Ingredient object with name and quantity
- */
-function parseIngredientString(ingredientStr: string): { name: string; quantity: string } {
-  const trimmed = ingredientStr.trim();
-
-  // Try to split on common patterns
-  // Pattern: "quantity unit name" like "2 cups flour"
-  const match = trimmed.match(/^([\d\s\/\-¼½¾⅓⅔⅛⅜⅝⅞]+(?:\s+(?:cup|cups|tablespoon|tablespoons|teaspoon|teaspoons|tbsp|tsp|oz|ounce|ounces|pound|pounds|lb|lbs|gram|grams|g|kg|ml|milliliter|milliliters|liter|liters|inch|inches)?)?)\s+(.+)$/i);
-
-  if (match) {
-    return {
-      quantity: match[1].trim(),
-      name: match[2].trim(),
-    };
-  }
-
-  // If no clear quantity found, treat whole string as name with empty quantity
-  return {
-    quantity: '',
-    name: trimmed,
-  };
-}
-
 /**
  * Parse instructions from various schema.org formats
+ * HowToSection groups keep their name as the section of their steps.
  * @param instructionsList Instructions in schema.org format
- * @returns Array of instruction strings
+ * @returns Instruction strings, with the section of each when there are sections
  */
-function parseInstructions(instructionsList: any): string[] {
-  // Handle array of strings
-  if (Array.isArray(instructionsList)) {
-    return instructionsList.map((instruction) => {
-      // Handle string format
-      if (typeof instruction === 'string') {
-        return instruction.trim();
+function parseInstructions(instructionsList: any): Pick<ParsedRecipeData, 'instructions' | 'instructionSections'> {
+  const readStep = (instruction: any): any => {
+    // Handle string format
+    if (typeof instruction === 'string') {
+      return instruction;
+    }
+
+    if (typeof instruction === 'object' && instruction !== null) {
+      // Handle HowToSection format, which lists its own steps
+      if (Array.isArray(instruction.itemListElement)) {
+        return { name: instruction.name, steps: instruction.itemListElement.map(readStep) };
       }
 
       // Handle HowToStep format
-      if (typeof instruction === 'object' && instruction !== null) {
-        if (instruction.text) return instruction.text.trim();
-        if (instruction.name) return instruction.name.trim();
-        if (instruction['@value']) return instruction['@value'].trim();
-      }
+      if (instruction.text) return String(instruction.text);
+      if (instruction.name) return String(instruction.name);
+      if (instruction['@value']) return String(instruction['@value']);
+    }
+
+    return String(instruction);
+  };
 
-      return String(instruction).trim();
-    }).filter(step => step.length > 0);
+  // Handle array of steps and sections
+  if (Array.isArray(instructionsList)) {
+    return flattenInstructions(instructionsList.map(readStep));
   }
 
   // Handle single string
   if (typeof instructionsList === 'string') {
     // Split on newlines or numbered steps
-    const steps = instructionsList
-      .split(/\n+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
-    return steps;
+    return flattenInstructions(instructionsList.split(/\n+/));
   }
 
-  return [];
+  return { instructions: [] };
+}
+
+// Attributes of the two inline markup syntaxes: an element starting an item,
+// its type, and the elements holding its properties
+const INLINE_SYNTAXES = [
+  { name: 'microdata', scopeAttr: 'itemscope', typeAttr: 'itemtype', propAttr: 'itemprop' },
+  { name: 'RDFa', scopeAttr: 'typeof', typeAttr: 'typeof', propAttr: 'property' },
+] as const;
+
+type InlineSyntax = (typeof INLINE_SYNTAXES)[number];
+
+// Older property names, mostly from the data-vocabulary.org Recipe type
+const PROPERTY_ALIASES: Record<string, string> = {
+  ingredients: 'recipeIngredient',
+  ingredient: 'recipeIngredient',
+  instructions: 'recipeInstructions',
+  yield: 'recipeYield',
+  summary: 'description',
+  recipeType: 'recipeCategory',
+  photo: 'image',
+};
+
+// Properties read as text even when they are marked up as items, e.g. an
+// ingredient item with separate name and amount
+const TEXT_PROPERTIES = new Set(['recipeIngredient']);
+
+// Properties that can appear more than once; the rest keep their first value
+const LIST_PROPERTIES = new Set(['recipeIngredient', 'recipeInstructions', 'recipeCategory', 'recipeCuisine', 'keywords', 'image']);
+
+/**
+ * Read an element's text, keeping line breaks between list items, paragraphs and <br>s
+ */
+function elementText($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>): string {
+  const copy = element.clone();
+  copy.find('script, style').remove();
+  copy.find('br').replaceWith('\n');
+  copy.find('li, p, div, h1, h2, h3, h4, h5, h6').each((_, block) => {
+    $(block).prepend('\n').append('\n');
+  });
+  return copy
+    .text()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Read the value of a property element the way microdata and RDFa define it:
+ * from the attribute that holds it for media, links and times, otherwise from
+ * its text. A content attribute takes precedence for any element.
+ */
+function propertyValue($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>): string {
+  const content = element.attr('content');
+  if (content !== undefined) return content.trim();
+
+  const tag = (element.prop('tagName') ?? '').toLowerCase();
+  const attribute = {
+    img: 'src', audio: 'src', video: 'src', source: 'src', iframe: 'src', embed: 'src',
+    a: 'href', link: 'href', area: 'href',
+    time: 'datetime', data: 'value', meter: 'value', object: 'data',
+  }[tag];
+  const value = attribute ? element.attr(attribute) : undefined;
+  return (value ?? elementText($, element)).trim();
+}
+
+/**
+ * Collect the properties of an item into a schema.org-style object
+ * Nested items become nested objects, and their properties are not added to
+ * the outer item.
+ */
+function readInlineItem($: cheerio.CheerioAPI, item: cheerio.Cheerio<any>, syntax: InlineSyntax): Record<string, any> {
+  const values: Record<string, any[]> = {};
+
+  const visit = (parent: cheerio.Cheerio<any>) => {
+    parent.children().each((_, child) => {
+      const element = $(child);
+      const isItem = element.attr(syntax.scopeAttr) !== undefined;
+      const names = (element.attr(syntax.propAttr) ?? '')
+        .split(/\s+/)
+        .filter(Boolean)
+        // RDFa names may be prefixed ("schema:name") or full URLs
+        .map((name) => name.replace(/^.*[/:#]/, ''))
+        .map((name) => PROPERTY_ALIASES[name] ?? name);
+
+      for (const name of names) {
+        const value = isItem && !TEXT_PROPERTIES.has(name)
+          ? readInlineItem($, element, syntax)
+          : propertyValue($, element);
+        if (value === '') continue;
+        (values[name] ??= []).push(value);
+      }
+
+      if (!isItem) visit(element);
+    });
+  };
+  visit(item);
+
+  return Object.fromEntries(
+    Object.entries(values).map(([name, list]) => [name, LIST_PROPERTIES.has(name) ? list : list[0]])
+  );
+}
+
+/**
+ * Parse microdata or RDFa recipe markup from a webpage
+ * Older sites mark recipes up inline (itemprop="recipeIngredient", or
+ * property="recipeIngredient" in RDFa) rather than with JSON-LD. The markup is
+ * read into the same shape as a JSON-LD Recipe, so both are validated alike.
+ * @param html HTML content
+ * @param url Source URL for error reporting
+ * @returns Parsed recipe data or null if not found
+ */
+export function parseInlineRecipe(html: string, url: string): ParsedRecipeData | null {
+  try {
+    const $ = cheerio.load(html);
+
+    for (const syntax of INLINE_SYNTAXES) {
+      const items = $(`[${syntax.scopeAttr}]`).filter((_, element) => {
+        // Types are full URLs in microdata ("https://schema.org/Recipe") and
+        // may be prefixed in RDFa ("schema:Recipe"); several can be listed
+        const types = ($(element).attr(syntax.typeAttr) ?? '').split(/\s+/);
+        return types.some((type) => type.replace(/^.*[/:#]/, '') === 'Recipe');
+      });
+
+      for (let i = 0; i < items.length; i++) {
+        const schemaRecipe = readInlineItem($, $(items[i]), syntax);
+
+        // A single instructions block lists its steps on separate lines
+        schemaRecipe.recipeInstructions = (schemaRecipe.recipeInstructions ?? []).flatMap(
+          (step: unknown) => (typeof step === 'string' ? step.split('\n') : [step])
+        );
+        // Ingredient text must fit on one line for the ingredient parser
+        schemaRecipe.recipeIngredient = (schemaRecipe.recipeIngredient ?? []).map(
+          (ingredient: string) => ingredient.replace(/\s+/g, ' ')
+        );
+
+        const parsed = transformSchemaOrgToRecipe(schemaRecipe);
+        if (parsed) {
+          console.log(`✅ Successfully parsed ${syntax.name} recipe from ${extractDomain(url)}`);
+          return parsed;
+        }
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error parsing microdata and RDFa:', error);
+    return null;
+  }
 }
 
 /**
@@ -257,23 +404,27 @@ export function parseOpenGraphTags(html: string, url: string): Partial<ParsedRec
 /**
  * Fetch HTML content from a URL
  * @param url URL to fetch
+ * @param signal Aborts the request, e.g. when the client has disconnected
  * @returns HTML content
  */
-export async function fetchHtmlContent(url: string): Promise<string> {
+export async function fetchHtmlContent(url: string, signal?: AbortSignal): Promise<string> {
   try {
+    const timeout = AbortSignal.timeout(15000); // 15 second timeout
     const response = await fetch(url, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; RecipeBot/1.0)',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
       },
-      signal: AbortSignal.timeout(15000), // 15 second timeout
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
     });
 
     if (!response.ok) {
       throw new RecipeExtractionError(
         `HTTP ${response.status}: ${response.statusText}`,
         'NETWORK_ERROR',
-        url
+        url,
+        undefined,
+        response.status
       );
     }
 
@@ -284,6 +435,10 @@ export async function fetchHtmlContent(url: string): Promise<string> {
       throw error;
     }
 
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new RecipeExtractionError('Timeout fetching webpage', 'TIMEOUT', url, error);
+    }
+
     // Handle fetch errors
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     throw new RecipeExtractionError(
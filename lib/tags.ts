@@ -0,0 +1,105 @@
+/**
+ * Recipe tags
+ * Normalization of tag names, cleanup of tags from imports and user input, and
+ * the Prisma write input that links tags to a recipe
+ */
+
+import type { TagInput } from '@/types';
+
+export const TAG_KINDS = ['category', 'cuisine', 'tag'] as const;
+
+export type TagKind = (typeof TAG_KINDS)[number];
+
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS_PER_RECIPE = 20;
+const MAX_KEYWORD_WORDS = 3;
+
+/**
+ * Normalize a tag name so "Main Dish", "main  dish" and " MAIN DISH " are the same tag
+ * @param name Raw tag name
+ * @returns Lowercase, trimmed name with single spaces
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/^#/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Check whether a value is a known tag kind
+ */
+export function isTagKind(value: unknown): value is TagKind {
+  return typeof value === 'string' && (TAG_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Clean up a list of tags from user input, an import or the AI
+ * Accepts plain strings or { name, kind } objects, drops empty and overlong
+ * names and keeps the first occurrence of duplicates.
+ * @param tags Raw tags
+ * @returns Valid tags
+ */
+export function sanitizeTags(tags: unknown): TagInput[] {
+  if (!Array.isArray(tags)) return [];
+
+  const result: TagInput[] = [];
+  for (const tag of tags) {
+    const rawName = typeof tag === 'string' ? tag : tag && typeof tag === 'object' ? tag.name : null;
+    if (typeof rawName !== 'string') continue;
+
+    const name = normalizeTagName(rawName);
+    if (!name || name.length > MAX_TAG_LENGTH || result.some((t) => t.name === name)) continue;
+
+    const kind = typeof tag === 'object' && isTagKind(tag.kind) ? tag.kind : 'tag';
+    result.push({ name, kind });
+  }
+
+  return result.slice(0, MAX_TAGS_PER_RECIPE);
+}
+
+/**
+ * Split a schema.org text-or-list property ("Dinner, Main Course" or
+ * ["Dinner", "Main Course"]) into individual values
+ */
+function splitSchemaOrgList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read tags from a schema.org Recipe
+ * recipeCategory becomes a category, recipeCuisine a cuisine and keywords plain tags
+ * @param schemaRecipe Schema.org Recipe object
+ * @returns Tags found on the recipe
+ */
+export function tagsFromSchemaOrg(schemaRecipe: any): TagInput[] {
+  return sanitizeTags([
+    ...splitSchemaOrgList(schemaRecipe.recipeCategory).map((name) => ({ name, kind: 'category' })),
+    ...splitSchemaOrgList(schemaRecipe.recipeCuisine).map((name) => ({ name, kind: 'cuisine' })),
+    // Keywords are often long SEO phrases; only short ones make useful tags
+    ...splitSchemaOrgList(schemaRecipe.keywords)
+      .filter((name) => name.split(/\s+/).length <= MAX_KEYWORD_WORDS)
+      .map((name) => ({ name, kind: 'tag' })),
+  ]);
+}
+
+/**
+ * Build the nested Prisma write that links a recipe to its tags, creating
+ * tags that do not exist yet. Existing tags keep their kind.
+ * @param tags Tags for the recipe
+ * @returns Prisma nested write for the recipe's tags relation
+ */
+export function tagsWriteInput(tags: unknown) {
+  return {
+    connectOrCreate: sanitizeTags(tags).map(({ name, kind }) => ({
+      where: { name },
+      create: { name, kind },
+    })),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Unit conversion between US customary and metric measurements
+ * Converts ingredient quantities (including volume to weight for common baking
+ * ingredients) and oven temperatures in instruction text
+ */
+
+import type { IngredientInput } from '@/types';
+import { structureIngredient, splitLeadingAmount, normalizeUnit, type StructuredIngredient } from './ingredient-parser';
+import { UNITS, chooseBestUnit, formatQuantity, getUnit, type UnitSystem } from './units';
+
+/**
+ * Density of ingredients that are usually weighed in metric recipes, in grams
+ * per millilitre. More specific names must come before general ones.
+ */
+const INGREDIENT_DENSITIES: Array<{ pattern: RegExp; gramsPerMl: number }> = [
+  { pattern: /\b(almond|coconut) flour\b/, gramsPerMl: 0.41 },
+  { pattern: /\bbread flour\b/, gramsPerMl: 0.55 },
+  { pattern: /\b(whole wheat|wholemeal) flour\b/, gramsPerMl: 0.51 },
+  { pattern: /\bflour\b/, gramsPerMl: 0.53 },
+  { pattern: /\b(powdered|icing|confectioners'?) sugar\b/, gramsPerMl: 0.51 },
+  { pattern: /\bbrown sugar\b/, gramsPerMl: 0.93 },
+  { pattern: /\bsugar\b/, gramsPerMl: 0.85 },
+  { pattern: /\bbutter\b/, gramsPerMl: 0.96 },
+  { pattern: /\bcocoa\b/, gramsPerMl: 0.42 },
+  { pattern: /\b(rolled )?oats\b/, gramsPerMl: 0.38 },
+  { pattern: /\brice\b/, gramsPerMl: 0.78 },
+  { pattern: /\bhoney\b/, gramsPerMl: 1.42 },
+  { pattern: /\b(corn ?starch|cornflour)\b/, gramsPerMl: 0.54 },
+  { pattern: /\bsalt\b/, gramsPerMl: 1.2 },
+];
+
+// One US stick of butter
+const BUTTER_STICK_GRAMS = 113.4;
+
+/**
+ * Look up the density of an ingredient by name
+ * @param name Ingredient name
+ * @returns Grams per millilitre, or null if the ingredient is not in the table
+ */
+export function getIngredientDensity(name: string): number | null {
+  const lower = name.toLowerCase();
+  const match = INGREDIENT_DENSITIES.find(({ pattern }) => pattern.test(lower));
+  return match ? match.gramsPerMl : null;
+}
+
+/**
+ * Convert a single ingredient to the target measurement system
+ * Ingredients that are already in the target system, have no measurable unit,
+ * or carry extra wording after the unit ("1 (14 oz) can") are returned as-is.
+ * @param ingredient Ingredient to convert
+ * @param target Target measurement system
+ * @returns Converted ingredient
+ */
+export function convertIngredient(ingredient: IngredientInput, target: UnitSystem): StructuredIngredient {
+  const structured = structureIngredient(ingredient);
+  const { amount, amountMax } = structured;
+  if (amount === null || !structured.unit) return structured;
+
+  const leading = splitLeadingAmount(structured.quantity);
+  if (!leading || normalizeUnit(leading.remainder) !== structured.unit) return structured;
+
+  let unit = structured.unit;
+  let ratio = 1;
+
+  // Sticks of butter are a weight in disguise
+  if (unit === 'stick' && /\bbutter\b/i.test(structured.name)) {
+    unit = 'g';
+    ratio = BUTTER_STICK_GRAMS;
+  }
+
+  const definition = getUnit(unit);
+  if (!definition || (definition.system === target && ratio === 1)) return structured;
+
+  const density = getIngredientDensity(structured.name);
+  let dimension = definition.dimension;
+  let baseRatio = ratio * definition.factor;
+
+  // Metric bakers weigh dry ingredients, US bakers measure them by volume
+  if (density !== null) {
+    if (target === 'metric' && dimension === 'volume') {
+      baseRatio *= density;
+      dimension = 'weight';
+    } else if (target === 'us' && dimension === 'weight') {
+      baseRatio /= density;
+      dimension = 'volume';
+    }
+  }
+
+  const smallestUnit = target === 'metric'
+    ? (dimension === 'volume' ? 'ml' : 'g')
+    : (dimension === 'volume' ? 'tsp' : 'oz');
+  const inSmallest = baseRatio / UNITS[smallestUnit].factor;
+
+  const best = chooseBestUnit(amount * inSmallest, smallestUnit);
+  const convertedMax = amountMax !== null ? amountMax * (best.amount / amount) : null;
+
+  return {
+    ...structured,
+    quantity: formatQuantity(best.amount, convertedMax, best.unit),
+    amount: best.amount,
+    amountMax: convertedMax,
+    unit: best.unit,
+  };
+}
+
+/**
+ * Convert every ingredient of a recipe to the target measurement system
+ * @param ingredients Ingredients to convert
+ * @param target Target measurement system
+ * @returns Converted ingredients in the original order
+ */
+export function convertIngredients(ingredients: IngredientInput[], target: UnitSystem): StructuredIngredient[] {
+  return ingredients.map((ingredient) => convertIngredient(ingredient, target));
+}
+
+// "350°F", "180 °C", "350 degrees F", "375-400 degrees Fahrenheit"
+const DEGREE_TEMPERATURE_REGEX = /(\d{2,3})(?:\s*(?:-|–|to)\s*(\d{2,3}))?\s*(?:°|º|degrees?)\s*(F|C|Fahrenheit|Celsius)\b/gi;
+// "350F", "180 C" (uppercase only, so "20 c" of something is left alone)
+const BARE_TEMPERATURE_REGEX = /\b(\d{2,3})(?:\s*(?:-|–|to)\s*(\d{2,3}))?\s?(F|C)\b/g;
+
+/**
+ * Rewrite temperatures in instruction text to the target measurement system
+ * Celsius is rounded to the nearest 10 degrees and Fahrenheit to the nearest 25,
+ * matching how ovens are labelled.
+ * Example: "Bake at 350°F for 20 minutes" -> "Bake at 180°C for 20 minutes"
+ * @param text Instruction text
+ * @param target Target measurement system
+ * @returns Text with converted temperatures
+ */
+export function convertTemperatures(text: string, target: UnitSystem): string {
+  const replace = (match: string, from: string, to: string | undefined, scale: string) => {
+    const isFahrenheit = scale.toUpperCase().startsWith('F');
+    if (isFahrenheit === (target === 'us')) return match;
+
+    const convert = (value: string) => {
+      const degrees = parseInt(value, 10);
+      return isFahrenheit
+        ? Math.round(((degrees - 32) * 5) / 9 / 10) * 10
+        : Math.round(((degrees * 9) / 5 + 32) / 25) * 25;
+    };
+
+    const range = to ? `${convert(from)}-${convert(to)}` : `${convert(from)}`;
+    return `${range}°${isFahrenheit ? 'C' : 'F'}`;
+  };
+
+  return text
+    .replace(DEGREE_TEMPERATURE_REGEX, replace)
+    .replace(BARE_TEMPERATURE_REGEX, replace);
+}
@@ -0,0 +1,202 @@
+/**
+ * Unit definitions shared by scaling and conversion
+ * Units are keyed by the canonical names produced by normalizeUnit()
+ */
+
+export type UnitDimension = 'volume' | 'weight';
+export type UnitSystem = 'us' | 'metric';
+
+export interface UnitDefinition {
+  dimension: UnitDimension;
+  system: UnitSystem;
+  /** Size of one unit in the base unit of its dimension (ml or g) */
+  factor: number;
+  singular: string;
+  plural: string;
+}
+
+export const UNITS: Record<string, UnitDefinition> = {
+  tsp: { dimension: 'volume', system: 'us', factor: 4.92892, singular: 'tsp', plural: 'tsp' },
+  tbsp: { dimension: 'volume', system: 'us', factor: 14.7868, singular: 'tbsp', plural: 'tbsp' },
+  'fl oz': { dimension: 'volume', system: 'us', factor: 29.5735, singular: 'fl oz', plural: 'fl oz' },
+  cup: { dimension: 'volume', system: 'us', factor: 236.588, singular: 'cup', plural: 'cups' },
+  pint: { dimension: 'volume', system: 'us', factor: 473.176, singular: 'pint', plural: 'pints' },
+  quart: { dimension: 'volume', system: 'us', factor: 946.353, singular: 'quart', plural: 'quarts' },
+  gallon: { dimension: 'volume', system: 'us', factor: 3785.41, singular: 'gallon', plural: 'gallons' },
+  ml: { dimension: 'volume', system: 'metric', factor: 1, singular: 'ml', plural: 'ml' },
+  cl: { dimension: 'volume', system: 'metric', factor: 10, singular: 'cl', plural: 'cl' },
+  dl: { dimension: 'volume', system: 'metric', factor: 100, singular: 'dl', plural: 'dl' },
+  l: { dimension: 'volume', system: 'metric', factor: 1000, singular: 'l', plural: 'l' },
+  mg: { dimension: 'weight', system: 'metric', factor: 0.001, singular: 'mg', plural: 'mg' },
+  g: { dimension: 'weight', system: 'metric', factor: 1, singular: 'g', plural: 'g' },
+  kg: { dimension: 'weight', system: 'metric', factor: 1000, singular: 'kg', plural: 'kg' },
+  oz: { dimension: 'weight', system: 'us', factor: 28.3495, singular: 'oz', plural: 'oz' },
+  lb: { dimension: 'weight', system: 'us', factor: 453.592, singular: 'lb', plural: 'lb' },
+};
+
+/**
+ * Units a measurement may be promoted or demoted between, largest first,
+ * with the smallest amount that still reads naturally in that unit
+ */
+export const UNIT_LADDERS: Record<UnitSystem, Record<UnitDimension, Array<{ unit: string; minimum: number }>>> = {
+  us: {
+    volume: [
+      { unit: 'cup', minimum: 0.25 },
+      { unit: 'tbsp', minimum: 1 },
+      { unit: 'tsp', minimum: 0 },
+    ],
+    weight: [
+      { unit: 'lb', minimum: 1 },
+      { unit: 'oz', minimum: 0 },
+    ],
+  },
+  metric: {
+    volume: [
+      { unit: 'l', minimum: 1 },
+      { unit: 'ml', minimum: 0 },
+    ],
+    weight: [
+      { unit: 'kg', minimum: 1 },
+      { unit: 'g', minimum: 0 },
+    ],
+  },
+};
+
+// Fractions cooks actually measure with
+const FRACTION_GLYPHS: Array<[number, string]> = [
+  [1 / 8, '⅛'],
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [3 / 8, '⅜'],
+  [1 / 2, '½'],
+  [5 / 8, '⅝'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾'],
+  [7 / 8, '⅞'],
+];
+
+/**
+ * Look up a unit definition
+ * @param unit Canonical unit name
+ * @returns Unit definition or null for units that cannot be converted (cans, cloves, ...)
+ */
+export function getUnit(unit: string | null | undefined): UnitDefinition | null {
+  if (!unit) return null;
+  return UNITS[unit] ?? null;
+}
+
+/**
+ * Display label for a unit, pluralised for the given amount
+ * @param unit Canonical unit name
+ * @param amount Amount the unit is shown with
+ * @returns Unit label
+ */
+export function unitLabel(unit: string, amount: number): string {
+  const definition = getUnit(unit);
+  // Tolerate floating point noise from conversions (0.99999 cups is "1 cup")
+  const isPlural = amount > 1.001;
+  if (!definition) {
+    // Countable units such as "clove", "can" or "bunch"
+    if (!isPlural) return unit;
+    return /(ch|sh)$/.test(unit) ? `${unit}es` : `${unit}s`;
+  }
+  return isPlural ? definition.plural : definition.singular;
+}
+
+/**
+ * Whether an amount is close to something a cook can measure in the given unit
+ * @param amount Amount in the unit
+ * @param unit Canonical unit name
+ * @returns true if the amount is a whole number or common fraction of the unit
+ */
+export function isFriendlyAmount(amount: number, unit: string): boolean {
+  const definition = getUnit(unit);
+  if (definition?.system === 'metric') return true;
+
+  const step = unit === 'tbsp' ? 1 / 2 : unit === 'tsp' || amount >= 1 ? 1 / 8 : null;
+  const steps = step ? [step, 1 / 3] : [1 / 4, 1 / 3];
+  return steps.some((s) => Math.abs(amount / s - Math.round(amount / s)) < 0.05);
+}
+
+/**
+ * Pick the most natural unit on the same ladder for a measurement
+ * Examples: 48 tsp -> 1 cup, 6 tsp -> 2 tbsp, 1500 g -> 1.5 kg, 0.5 lb -> 8 oz
+ * @param amount Amount in the given unit
+ * @param unit Canonical unit name
+ * @returns Amount and unit to display (unchanged if the unit has no ladder)
+ */
+export function chooseBestUnit(amount: number, unit: string): { amount: number; unit: string } {
+  const definition = getUnit(unit);
+  if (!definition) return { amount, unit };
+
+  const ladder = UNIT_LADDERS[definition.system][definition.dimension];
+  if (!ladder.some((step) => step.unit === unit)) return { amount, unit };
+
+  const base = amount * definition.factor;
+  const candidates = ladder
+    .map((step) => ({ ...step, amount: base / UNITS[step.unit].factor }))
+    .filter((step) => step.amount >= step.minimum * 0.99);
+
+  const friendly = candidates.find((step) => isFriendlyAmount(step.amount, step.unit));
+  const chosen = friendly ?? candidates[0] ?? { unit, amount };
+  return { amount: chosen.amount, unit: chosen.unit };
+}
+
+/**
+ * Render an amount the way a recipe would print it
+ * Metric amounts use decimals, everything else uses common fractions ("1½")
+ * @param amount Amount to render
+ * @param unit Canonical unit name the amount is measured in, if any
+ * @returns Formatted amount
+ */
+export function formatAmount(amount: number, unit?: string | null): string {
+  const definition = getUnit(unit);
+
+  if (definition?.system === 'metric') {
+    if (definition.factor >= 1000) {
+      return String(Math.round(amount * 100) / 100);
+    }
+    if (amount >= 100) return String(Math.round(amount / 5) * 5);
+    return amount >= 10 ? String(Math.round(amount)) : String(Math.round(amount * 10) / 10);
+  }
+
+  if (amount >= 10) {
+    return String(Math.round(amount * 2) / 2).replace(/\.5$/, '½');
+  }
+
+  let whole = Math.floor(amount);
+  const remainder = amount - whole;
+
+  let glyph = '';
+  let closest = remainder;
+  for (const [value, symbol] of FRACTION_GLYPHS) {
+    if (Math.abs(remainder - value) < closest) {
+      closest = Math.abs(remainder - value);
+      glyph = symbol;
+    }
+  }
+  if (1 - remainder < closest) {
+    whole += 1;
+    glyph = '';
+  }
+
+  // Never round a real amount down to nothing
+  if (whole === 0 && !glyph) glyph = '⅛';
+
+  return whole > 0 ? `${whole}${glyph}` : glyph;
+}
+
+/**
+ * Render an amount (or range) with its unit label
+ * Examples: (1.5, null, 'cup') -> "1½ cups", (1, 2, 'tbsp') -> "1-2 tbsp"
+ * @param amount Amount, or lower bound of a range
+ * @param amountMax Upper bound of a range, if any
+ * @param unit Canonical unit name
+ * @returns Quantity text
+ */
+export function formatQuantity(amount: number, amountMax: number | null, unit: string): string {
+  const amountText = amountMax !== null
+    ? `${formatAmount(amount, unit)}-${formatAmount(amountMax, unit)}`
+    : formatAmount(amount, unit);
+  return `${amountText} ${unitLabel(unit, amountMax ?? amount)}`;
+}
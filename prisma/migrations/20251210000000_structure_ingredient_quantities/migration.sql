@@ -0,0 +1,136 @@
+-- AlterTable
+ALTER TABLE "Ingredient" ADD COLUMN     "amount" DOUBLE PRECISION,
+ADD COLUMN     "amountMax" DOUBLE PRECISION,
+ADD COLUMN     "preparation" TEXT,
+ADD COLUMN     "unit" TEXT;
+
+-- Back-parse existing free-text quantities (mirrors lib/ingredient-parser.ts)
+CREATE FUNCTION pg_temp.normalize_fractions(raw TEXT) RETURNS TEXT AS $$
+DECLARE
+  result TEXT := replace(coalesce(raw, ''), '⁄', '/');
+BEGIN
+  result := replace(result, '¼', ' 1/4');
+  result := replace(result, '½', ' 1/2');
+  result := replace(result, '¾', ' 3/4');
+  result := replace(result, '⅐', ' 1/7');
+  result := replace(result, '⅑', ' 1/9');
+  result := replace(result, '⅒', ' 1/10');
+  result := replace(result, '⅓', ' 1/3');
+  result := replace(result, '⅔', ' 2/3');
+  result := replace(result, '⅕', ' 1/5');
+  result := replace(result, '⅖', ' 2/5');
+  result := replace(result, '⅗', ' 3/5');
+  result := replace(result, '⅘', ' 4/5');
+  result := replace(result, '⅙', ' 1/6');
+  result := replace(result, '⅚', ' 5/6');
+  result := replace(result, '⅛', ' 1/8');
+  result := replace(result, '⅜', ' 3/8');
+  result := replace(result, '⅝', ' 5/8');
+  result := replace(result, '⅞', ' 7/8');
+  result := regexp_replace(result, '(\d),(\d{1,2}|\d{4,})(?!\d)', '\1.\2', 'g');
+  result := regexp_replace(result, '(?<=\d),(?=\d{3}(?!\d))', '', 'g');
+  RETURN btrim(regexp_replace(result, '\s+', ' ', 'g'));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION pg_temp.parse_amount(raw TEXT) RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  m TEXT[];
+BEGIN
+  IF raw IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  m := regexp_match(raw, '^(\d+) (\d+)/(\d+)$');
+  IF m IS NOT NULL THEN
+    RETURN m[1]::DOUBLE PRECISION + m[2]::DOUBLE PRECISION / NULLIF(m[3]::DOUBLE PRECISION, 0);
+  END IF;
+
+  m := regexp_match(raw, '^(\d+)/(\d+)$');
+  IF m IS NOT NULL THEN
+    RETURN m[1]::DOUBLE PRECISION / NULLIF(m[2]::DOUBLE PRECISION, 0);
+  END IF;
+
+  IF raw ~ '^\d+(\.\d+)?$' THEN
+    RETURN raw::DOUBLE PRECISION;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION pg_temp.normalize_unit(raw TEXT) RETURNS TEXT AS $$
+DECLARE
+  key TEXT := regexp_replace(btrim(coalesce(raw, '')), '\.$', '');
+BEGIN
+  IF key = 'T' THEN RETURN 'tbsp'; END IF;
+  IF key = 't' THEN RETURN 'tsp'; END IF;
+
+  key := lower(regexp_replace(key, '\s+', ' ', 'g'));
+  RETURN CASE
+    WHEN key IN ('teaspoon', 'teaspoons', 'tsp', 'tsps') THEN 'tsp'
+    WHEN key IN ('tablespoon', 'tablespoons', 'tbsp', 'tbsps', 'tbs', 'tbl') THEN 'tbsp'
+    WHEN key IN ('cup', 'cups', 'c') THEN 'cup'
+    WHEN key IN ('fluid ounce', 'fluid ounces', 'fl oz', 'fl. oz', 'floz') THEN 'fl oz'
+    WHEN key IN ('pint', 'pints', 'pt', 'pts') THEN 'pint'
+    WHEN key IN ('quart', 'quarts', 'qt', 'qts') THEN 'quart'
+    WHEN key IN ('gallon', 'gallons', 'gal') THEN 'gallon'
+    WHEN key IN ('milliliter', 'milliliters', 'millilitre', 'millilitres', 'ml', 'mls') THEN 'ml'
+    WHEN key IN ('centiliter', 'centiliters', 'centilitre', 'centilitres', 'cl') THEN 'cl'
+    WHEN key IN ('deciliter', 'deciliters', 'decilitre', 'decilitres', 'dl') THEN 'dl'
+    WHEN key IN ('liter', 'liters', 'litre', 'litres', 'l') THEN 'l'
+    WHEN key IN ('milligram', 'milligrams', 'mg') THEN 'mg'
+    WHEN key IN ('gram', 'grams', 'gramme', 'grammes', 'g', 'gr') THEN 'g'
+    WHEN key IN ('kilogram', 'kilograms', 'kilo', 'kilos', 'kg', 'kgs') THEN 'kg'
+    WHEN key IN ('ounce', 'ounces', 'oz') THEN 'oz'
+    WHEN key IN ('pound', 'pounds', 'lb', 'lbs') THEN 'lb'
+    WHEN key IN ('pinch', 'pinches') THEN 'pinch'
+    WHEN key IN ('dash', 'dashes') THEN 'dash'
+    WHEN key IN ('clove', 'cloves') THEN 'clove'
+    WHEN key IN ('can', 'cans', 'tin', 'tins') THEN 'can'
+    WHEN key IN ('package', 'packages', 'pkg', 'packet', 'packets') THEN 'package'
+    WHEN key IN ('stick', 'sticks') THEN 'stick'
+    WHEN key IN ('slice', 'slices') THEN 'slice'
+    WHEN key IN ('piece', 'pieces') THEN 'piece'
+    WHEN key IN ('bunch', 'bunches') THEN 'bunch'
+    WHEN key IN ('sprig', 'sprigs') THEN 'sprig'
+    WHEN key IN ('handful', 'handfuls') THEN 'handful'
+    WHEN key IN ('inch', 'inches', 'in') THEN 'inch'
+    WHEN key IN ('cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres') THEN 'cm'
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Amount, optional range upper bound and unit from "quantity"
+WITH parsed AS (
+  SELECT
+    "id",
+    regexp_match(
+      pg_temp.normalize_fractions("quantity"),
+      '^(\d+(?:\.\d+)?(?: \d+/\d+)?|\d+/\d+)(?:\s*(?:-|–|—|to|or)\s*(\d+(?:\.\d+)?(?: \d+/\d+)?|\d+/\d+))?\s*(?:\([^)]*\)\s*)?(.*)$'
+    ) AS m
+  FROM "Ingredient"
+)
+UPDATE "Ingredient" AS i
+SET
+  "amount" = pg_temp.parse_amount(parsed.m[1]),
+  "amountMax" = pg_temp.parse_amount(parsed.m[2]),
+  "unit" = coalesce(
+    pg_temp.normalize_unit(btrim(parsed.m[3])),
+    pg_temp.normalize_unit(split_part(btrim(parsed.m[3]), ' ', 1))
+  )
+FROM parsed
+WHERE i."id" = parsed."id" AND parsed.m IS NOT NULL;
+
+-- Unit-only quantities such as "pinch" or "a dash"
+UPDATE "Ingredient"
+SET "unit" = pg_temp.normalize_unit(regexp_replace(btrim("quantity"), '^an?\s+', '', 'i'))
+WHERE "amount" IS NULL AND "unit" IS NULL;
+
+-- Preparation notes after the first comma ("onion, finely chopped")
+UPDATE "Ingredient"
+SET
+  "preparation" = NULLIF(btrim(substring("name" FROM position(',' IN "name") + 1)), ''),
+  "name" = btrim(substring("name" FROM 1 FOR position(',' IN "name") - 1))
+WHERE position(',' IN "name") > 1;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "ShoppingList" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL DEFAULT 'Shopping List',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShoppingList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShoppingListItem" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" TEXT NOT NULL DEFAULT '',
+    "amount" DOUBLE PRECISION,
+    "unit" TEXT,
+    "checked" BOOLEAN NOT NULL DEFAULT false,
+    "recipeTitle" TEXT,
+    "recipeId" TEXT,
+    "shoppingListId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShoppingListItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShoppingListItem_shoppingListId_idx" ON "ShoppingListItem"("shoppingListId");
+
+-- CreateIndex
+CREATE INDEX "ShoppingListItem_recipeId_idx" ON "ShoppingListItem"("recipeId");
+
+-- AddForeignKey
+ALTER TABLE "ShoppingListItem" ADD CONSTRAINT "ShoppingListItem_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShoppingListItem" ADD CONSTRAINT "ShoppingListItem_shoppingListId_fkey" FOREIGN KEY ("shoppingListId") REFERENCES "ShoppingList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN     "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Recipe_searchVector_idx" ON "Recipe" USING GIN ("searchVector");
+
+-- Build the search document for a recipe. Weights rank title matches above
+-- ingredients, ingredients above description and notes, and those above
+-- instruction text.
+CREATE FUNCTION recipe_search_vector(recipe_id TEXT, title TEXT, description TEXT, notes TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(i."name", ' ') FROM "Ingredient" i WHERE i."recipeId" = recipe_id), ''
+    )), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(notes, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(s."text", ' ') FROM "Instruction" s WHERE s."recipeId" = recipe_id), ''
+    )), 'D')
+$$ LANGUAGE sql STABLE;
+
+-- Keep the document up to date when the recipe itself changes
+CREATE FUNCTION recipe_search_vector_refresh() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := recipe_search_vector(NEW."id", NEW."title", NEW."description", NEW."notes");
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Recipe_searchVector_refresh"
+BEFORE INSERT OR UPDATE OF "title", "description", "notes" ON "Recipe"
+FOR EACH ROW EXECUTE FUNCTION recipe_search_vector_refresh();
+
+-- ...and when its ingredients or instructions change
+CREATE FUNCTION recipe_search_vector_refresh_parent() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE "Recipe" r
+    SET "searchVector" = recipe_search_vector(r."id", r."title", r."description", r."notes")
+    WHERE r."id" = OLD."recipeId";
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE "Recipe" r
+    SET "searchVector" = recipe_search_vector(r."id", r."title", r."description", r."notes")
+    WHERE r."id" = NEW."recipeId";
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Ingredient_searchVector_refresh"
+AFTER INSERT OR UPDATE OR DELETE ON "Ingredient"
+FOR EACH ROW EXECUTE FUNCTION recipe_search_vector_refresh_parent();
+
+CREATE TRIGGER "Instruction_searchVector_refresh"
+AFTER INSERT OR UPDATE OR DELETE ON "Instruction"
+FOR EACH ROW EXECUTE FUNCTION recipe_search_vector_refresh_parent();
+
+-- Backfill existing recipes
+UPDATE "Recipe" SET "searchVector" = recipe_search_vector("id", "title", "description", "notes");
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'tag',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_RecipeToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_RecipeToTag_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_name_key" ON "Tag"("name");
+
+-- CreateIndex
+CREATE INDEX "_RecipeToTag_B_index" ON "_RecipeToTag"("B");
+
+-- AddForeignKey
+ALTER TABLE "_RecipeToTag" ADD CONSTRAINT "_RecipeToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_RecipeToTag" ADD CONSTRAINT "_RecipeToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Include tag names in the search document, weighted like ingredients
+CREATE OR REPLACE FUNCTION recipe_search_vector(recipe_id TEXT, title TEXT, description TEXT, notes TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(i."name", ' ') FROM "Ingredient" i WHERE i."recipeId" = recipe_id), ''
+    ) || ' ' || coalesce(
+      (SELECT string_agg(t."name", ' ') FROM "_RecipeToTag" rt JOIN "Tag" t ON t."id" = rt."B" WHERE rt."A" = recipe_id), ''
+    )), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(notes, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT string_agg(s."text", ' ') FROM "Instruction" s WHERE s."recipeId" = recipe_id), ''
+    )), 'D')
+$$ LANGUAGE sql STABLE;
+
+-- Refresh the search document when tags are added to or removed from a recipe
+CREATE FUNCTION recipe_search_vector_refresh_tagged() RETURNS trigger AS $$
+BEGIN
+  UPDATE "Recipe" r
+  SET "searchVector" = recipe_search_vector(r."id", r."title", r."description", r."notes")
+  WHERE r."id" = CASE WHEN TG_OP = 'DELETE' THEN OLD."A" ELSE NEW."A" END;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "_RecipeToTag_searchVector_refresh"
+AFTER INSERT OR DELETE ON "_RecipeToTag"
+FOR EACH ROW EXECUTE FUNCTION recipe_search_vector_refresh_tagged();
+
+-- ...and when a tag is renamed
+CREATE FUNCTION recipe_search_vector_refresh_tag() RETURNS trigger AS $$
+BEGIN
+  UPDATE "Recipe" r
+  SET "searchVector" = recipe_search_vector(r."id", r."title", r."description", r."notes")
+  WHERE r."id" IN (SELECT rt."A" FROM "_RecipeToTag" rt WHERE rt."B" = NEW."id");
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Tag_searchVector_refresh"
+AFTER UPDATE OF "name" ON "Tag"
+FOR EACH ROW EXECUTE FUNCTION recipe_search_vector_refresh_tag();
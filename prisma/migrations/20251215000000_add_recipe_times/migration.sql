@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN     "cookTime" INTEGER,
+ADD COLUMN     "prepTime" INTEGER,
+ADD COLUMN     "totalTime" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Recipe_totalTime_idx" ON "Recipe"("totalTime");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Nutrition" (
+    "id" TEXT NOT NULL,
+    "calories" DOUBLE PRECISION,
+    "fat" DOUBLE PRECISION,
+    "saturatedFat" DOUBLE PRECISION,
+    "carbohydrates" DOUBLE PRECISION,
+    "sugar" DOUBLE PRECISION,
+    "fiber" DOUBLE PRECISION,
+    "protein" DOUBLE PRECISION,
+    "sodium" DOUBLE PRECISION,
+    "cholesterol" DOUBLE PRECISION,
+    "recipeId" TEXT NOT NULL,
+
+    CONSTRAINT "Nutrition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Nutrition_recipeId_key" ON "Nutrition"("recipeId");
+
+-- AddForeignKey
+ALTER TABLE "Nutrition" ADD CONSTRAINT "Nutrition_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
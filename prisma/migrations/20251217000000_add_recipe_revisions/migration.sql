@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "RecipeRevision" (
+    "id" TEXT NOT NULL,
+    "recipeId" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changedFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "source" TEXT NOT NULL DEFAULT 'edit',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecipeRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecipeRevision_recipeId_createdAt_idx" ON "RecipeRevision"("recipeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RecipeRevision" ADD CONSTRAINT "RecipeRevision_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ExtractionCache" (
+    "url" TEXT NOT NULL,
+    "html" TEXT,
+    "data" JSONB NOT NULL,
+    "tier" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExtractionCache_pkey" PRIMARY KEY ("url")
+);
+
+-- CreateIndex
+CREATE INDEX "ExtractionCache_expiresAt_idx" ON "ExtractionCache"("expiresAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "alternateSourceUrls" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "provenance" JSONB;
+
+-- AlterTable
+ALTER TABLE "ExtractionCache" ADD COLUMN "warnings" TEXT[] DEFAULT ARRAY[]::TEXT[];
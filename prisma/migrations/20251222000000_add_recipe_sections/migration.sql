@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Ingredient" ADD COLUMN "section" TEXT;
+
+-- AlterTable
+ALTER TABLE "Instruction" ADD COLUMN "section" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ShoppingListItem" ADD COLUMN "amountMax" DOUBLE PRECISION;
+
+-- Back-fill the upper bound of existing items written as a plain range ("2-3", "1 to 2 tbsp")
+UPDATE "ShoppingListItem"
+SET "amountMax" = (regexp_match("quantity", '^\s*\d+(?:\.\d+)?\s*(?:-|–|—|to|or)\s*(\d+(?:\.\d+)?)(?:\s|$)', 'i'))[1]::DOUBLE PRECISION
+WHERE "amount" IS NOT NULL
+  AND "quantity" ~* '^\s*\d+(?:\.\d+)?\s*(?:-|–|—|to|or)\s*\d+(?:\.\d+)?(?:\s|$)';
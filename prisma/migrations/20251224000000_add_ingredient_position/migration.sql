@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Ingredient" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Back-fill the order of existing ingredients from the order their rows were written in
+UPDATE "Ingredient" AS i
+SET "position" = ordered."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "recipeId" ORDER BY ctid) - 1 AS "position"
+  FROM "Ingredient"
+) AS ordered
+WHERE i."id" = ordered."id";
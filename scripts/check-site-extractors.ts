@@ -0,0 +1,27 @@
+/**
+ * Check the site extractors against their saved pages
+ * Run with `npm run check:extractors`; exits with an error when any page no
+ * longer gives the expected fields, so it can run in CI or before a commit.
+ */
+
+import { checkSiteExtractors } from '../lib/site-extractors/check';
+
+async function main() {
+  const results = await checkSiteExtractors();
+  const failed = results.filter((result) => !result.passed);
+
+  for (const result of results) {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.domain} (${result.file})`);
+    for (const failure of result.failures) {
+      console.log(`   ${failure}`);
+    }
+  }
+  console.log(`\n${results.length - failed.length} passed, ${failed.length} failed`);
+
+  if (failed.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Error checking site extractors:', error);
+  process.exitCode = 1;
+});
@@ -2,6 +2,12 @@ export interface Ingredient {
   id?: string;
   name: string;
   quantity: string;
+  amount?: number | null;
+  amountMax?: number | null;
+  unit?: string | null;
+  preparation?: string | null;
+  /** Heading the ingredient is listed under, e.g. "For the frosting" */
+  section?: string | null;
   recipeId?: string;
 }
 
@@ -9,6 +15,39 @@ export interface Instruction {
   id?: string;
   step: number;
   text: string;
+  /** Heading the step is listed under, e.g. "Make the frosting" */
+  section?: string | null;
+  recipeId?: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  /** "category", "cuisine" or "tag" */
+  kind: string;
+  _count?: { recipes: number };
+}
+
+export interface TagInput {
+  name: string;
+  kind?: string;
+}
+
+/** Nutrition per serving: energy in kcal, sodium and cholesterol in mg, everything else in grams */
+export interface NutritionInput {
+  calories: number | null;
+  fat: number | null;
+  saturatedFat: number | null;
+  carbohydrates: number | null;
+  sugar: number | null;
+  fiber: number | null;
+  protein: number | null;
+  sodium: number | null;
+  cholesterol: number | null;
+}
+
+export interface Nutrition extends NutritionInput {
+  id: string;
   recipeId?: string;
 }
 
@@ -18,30 +57,202 @@ export interface Recipe {
   description: string | null;
   ingredients: Ingredient[];
   instructions: Instruction[];
+  /** Section of each instruction, by index; left out when there are none */
+  instructionSections?: (string | null)[];
   servings: number;
+  /** Times in minutes */
+  prepTime?: number | null;
+  cookTime?: number | null;
+  totalTime?: number | null;
   imageUrls: string[];
   notes: string | null;
   sourceUrl?: string | null;
+  /** Other pages the recipe was imported from, kept when duplicates are merged */
+  alternateSourceUrls?: string[];
+  tags?: Tag[];
+  nutrition?: Nutrition | null;
+  provenance?: RecipeProvenance | null;
+  /** Signed provenance of a generated recipe, sent back when it is saved */
+  provenanceToken?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * How a generated recipe was made: the URL extraction tier that found it
+ * (see EXTRACTION_TIERS), or generation from a YouTube video or a photo
+ */
+export type ProvenanceMethod = 'site' | 'json-ld' | 'microdata' | 'ai-page' | 'ai-search' | 'youtube' | 'image';
+
+/**
+ * Record of how a recipe was generated, kept with the recipe so recipes the
+ * AI wrote can be checked
+ */
+export interface RecipeProvenance {
+  method: ProvenanceMethod;
+  /** Recipe fields read from the page's markup */
+  parsedFields: string[];
+  /** Recipe fields written by the AI */
+  aiFields: string[];
+  /** Things to check, found while reading and validating the recipe */
+  warnings: string[];
+  /** Milliseconds spent in each stage, in the order they ran */
+  timings: { stage: string; ms: number }[];
+  /** AI models that worked on the recipe */
+  models: string[];
+  /** When the page was read, if the recipe came from the extraction cache */
+  cachedAt: string | null;
+  createdAt: string;
+  /** When the recipe was marked as checked */
+  reviewedAt?: string | null;
+}
+
+/**
+ * Event streamed by POST /api/recipes/generate while a recipe is generated
+ * "progress" marks each stage as it starts, "retry" a failed AI call that is
+ * tried again; the stream ends with "result" or "error".
+ */
+export type GenerationEvent =
+  | { type: 'progress'; stage: string; message: string }
+  | { type: 'retry'; attempt: number; maxAttempts: number; message: string }
+  | { type: 'result'; recipe: Partial<Recipe> }
+  | { type: 'error'; error: string; existingRecipe?: { id: string; title: string } };
+
+/**
+ * Everything a save can change about a recipe, as stored in a revision
+ */
+export interface RecipeSnapshot {
+  title: string;
+  description: string | null;
+  servings: number;
+  prepTime: number | null;
+  cookTime: number | null;
+  totalTime: number | null;
+  notes: string | null;
+  sourceUrl: string | null;
+  /** Left out while empty, like in snapshots taken before it existed */
+  alternateSourceUrls?: string[];
+  imageUrls: string[];
+  ingredients: IngredientInput[];
+  instructions: string[];
+  /** Left out while the instructions have no sections */
+  instructionSections?: (string | null)[];
+  tags: TagInput[];
+  nutrition: NutritionInput | null;
+}
+
+export interface RecipeRevision {
+  id: string;
+  recipeId: string;
+  /** Fields the save changed */
+  changedFields: string[];
+  /** "edit", "restore", "backup" or "merge" */
+  source: string;
+  createdAt: Date | string;
+  /** The recipe as it was before the save */
+  snapshot?: RecipeSnapshot;
+}
+
+export interface RecipeFieldChange {
+  field: keyof RecipeSnapshot;
+  before: unknown;
+  after: unknown;
+}
+
 export type AppView = 'list' | 'recipe' | 'shoppingList';
 
 export interface ShoppingListItem {
+  id: string;
   name: string;
   quantity: string;
-  recipeTitle: string;
+  amount?: number | null;
+  amountMax?: number | null;
+  unit?: string | null;
+  checked: boolean;
+  recipeTitle: string | null;
+  recipeId?: string | null;
+  shoppingListId?: string;
+  createdAt?: Date;
+}
+
+export interface ShoppingList {
+  id: string;
+  name: string;
+  storeId?: string | null;
+  store?: Store | null;
+  items: ShoppingListItem[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface Store {
+  id: string;
+  name: string;
+  aisleOrder: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IngredientCategoryMapping {
+  id: string;
+  name: string;
+  category: string;
+  updatedAt?: Date;
+}
+
+export type ImportJobStatus = 'pending' | 'running' | 'completed';
+
+export type ImportJobItemStatus = 'pending' | 'processing' | 'imported' | 'duplicate' | 'failed';
+
+export interface ImportJobItem {
+  id: string;
+  position: number;
+  url: string;
+  status: ImportJobItemStatus;
+  attempts: number;
+  error: string | null;
+  /** The recipe that was created, or the existing recipe for a duplicate */
+  recipeId: string | null;
+  recipe?: { id: string; title: string } | null;
+}
+
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  items: ImportJobItem[];
+  createdAt: Date | string;
+  updatedAt: Date | string;
 }
 
 // Form input types for creating/updating recipes
+export interface IngredientInput {
+  name: string;
+  quantity: string;
+  amount?: number | null;
+  amountMax?: number | null;
+  unit?: string | null;
+  preparation?: string | null;
+  section?: string | null;
+}
+
 export interface RecipeInput {
   title: string;
   description?: string;
-  ingredients: { name: string; quantity: string }[];
+  ingredients: IngredientInput[];
   instructions: string[];
+  /** Section of each instruction, by index */
+  instructionSections?: (string | null)[];
   servings: number;
+  prepTime?: number | null;
+  cookTime?: number | null;
+  totalTime?: number | null;
   imageUrls?: string[];
   notes?: string;
   sourceUrl?: string;
+  /** Left unchanged on updates when not given */
+  alternateSourceUrls?: string[];
+  tags?: TagInput[];
+  nutrition?: NutritionInput | null;
+  /** Left unchanged on updates when not given */
+  provenance?: RecipeProvenance | null;
 }
\ No newline at end of file